@@ -0,0 +1,178 @@
+import { ContainerSandboxManager, SandboxConfig, SandboxInstance } from './services/containerSandboxManager';
+import { SchemaSandboxConfig, SchemaSandboxManager } from './services/schemaSandboxManager';
+import { ContainerLimits, SandboxManager } from './services/sandboxManager';
+import { SUPPORTED_ENGINES } from './services/engines';
+import { ResultStoreConfig } from './services/resultStore';
+import { SessionStore } from './services/sessionStore';
+import { RedisSessionStore } from './services/redisSessionStore';
+
+/**
+ * The sandbox backend chosen by SANDBOX_BACKEND:
+ *
+ * - containers (default): a Docker container per session
+ * - schemas: a schema and login role per session on the Postgres server at
+ *   SHARED_POSTGRES_URL; Postgres sessions only
+ */
+export function sandboxManagerFromEnv(env: NodeJS.ProcessEnv = process.env): SandboxManager {
+  const backend = env.SANDBOX_BACKEND?.trim() || 'containers';
+
+  if (backend === 'containers') {
+    return new ContainerSandboxManager(sandboxConfigFromEnv(env), sessionStoreFromEnv(env));
+  }
+  if (backend === 'schemas') {
+    const connectionString = env.SHARED_POSTGRES_URL?.trim();
+    if (!connectionString) {
+      throw new Error('SHARED_POSTGRES_URL is required when SANDBOX_BACKEND is schemas');
+    }
+    const config: Pick<SchemaSandboxConfig, 'connectionString'> & Partial<SchemaSandboxConfig> = {
+      connectionString,
+      ...queryTimeoutsFromEnv(env),
+    };
+    const templates = readCount(env, 'TEMPLATE_CACHE_SIZE');
+    if (templates !== undefined) config.templateCacheSize = templates;
+    return new SchemaSandboxManager(config);
+  }
+  throw new Error(`SANDBOX_BACKEND must be containers or schemas, got '${backend}'`);
+}
+
+/**
+ * Where the containers backend keeps its sessions, chosen by SESSION_STORE:
+ *
+ * - memory (default): in the API process, saved to SANDBOX_REGISTRY
+ * - redis: on the Redis server at REDIS_URL (default redis://127.0.0.1:6379),
+ *   so several API replicas on one Docker host serve the same sessions
+ *
+ * Returns undefined for memory, which the manager builds itself.
+ */
+export function sessionStoreFromEnv(env: NodeJS.ProcessEnv = process.env): SessionStore<SandboxInstance> | undefined {
+  const store = env.SESSION_STORE?.trim() || 'memory';
+
+  if (store === 'memory') return undefined;
+  if (store === 'redis') {
+    return new RedisSessionStore<SandboxInstance>({ url: env.REDIS_URL?.trim() || 'redis://127.0.0.1:6379' });
+  }
+  throw new Error(`SESSION_STORE must be memory or redis, got '${store}'`);
+}
+
+/**
+ * Sandbox settings read from the environment; unset variables keep the
+ * manager's defaults.
+ *
+ * - WARM_POOL_POSTGRES, WARM_POOL_MYSQL: ready containers to keep per engine (default 0)
+ * - WARM_POOL_MAX: limit on warm containers across engines, including starting ones (default 10)
+ * - TEMPLATE_CACHE_SIZE: seeded database snapshots kept for cloning; 0 disables it (default 20)
+ * - SANDBOX_MEMORY_MB, SANDBOX_CPUS, SANDBOX_PIDS, SANDBOX_TMPFS_MB: container limits
+ *   (default 1024, 1, 256, 512); SANDBOX_MAX_* the same, the ceiling for per-exam overrides
+ * - SANDBOX_STORAGE: writable layer size such as 1G, where the storage driver supports it
+ * - SANDBOX_NETWORK: internal network for containers (default sql-sandbox); empty publishes ports instead
+ * - SANDBOX_REGISTRY: file sessions are saved to, to adopt their containers after a restart
+ *   (default ./sessions/sandboxes.json); empty keeps them in memory only. Unused with SESSION_STORE=redis
+ * - INSTANCE_ID: names this replica on its containers, so a restart removes only its own
+ *   orphans (default the hostname)
+ * - QUERY_TIMEOUT_MS, MAX_QUERY_TIMEOUT_MS: see queryTimeoutsFromEnv
+ */
+export function sandboxConfigFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<SandboxConfig> {
+  const warmPoolSize: SandboxConfig['warmPoolSize'] = {};
+  for (const engine of SUPPORTED_ENGINES) {
+    const size = readCount(env, `WARM_POOL_${engine.toUpperCase()}`);
+    if (size !== undefined) warmPoolSize[engine] = size;
+  }
+
+  const config: Partial<SandboxConfig> = { warmPoolSize, ...queryTimeoutsFromEnv(env) };
+
+  const max = readCount(env, 'WARM_POOL_MAX');
+  if (max !== undefined) config.maxWarmContainers = max;
+
+  const templates = readCount(env, 'TEMPLATE_CACHE_SIZE');
+  if (templates !== undefined) config.templateCacheSize = templates;
+
+  const limits: Partial<ContainerLimits> = {};
+  const maxLimits: Partial<ContainerLimits> = {};
+  for (const [key, suffix] of Object.entries(LIMIT_VARIABLES) as [keyof ContainerLimits, string][]) {
+    const value = readLimit(env, `SANDBOX_${suffix}`, key !== 'cpus');
+    if (value !== undefined) limits[key] = value;
+    const max = readLimit(env, `SANDBOX_MAX_${suffix}`, key !== 'cpus');
+    if (max !== undefined) maxLimits[key] = max;
+  }
+  config.limits = limits;
+  config.maxLimits = maxLimits;
+
+  const storage = env.SANDBOX_STORAGE?.trim();
+  if (storage) config.storageSize = storage;
+
+  if (env.SANDBOX_NETWORK !== undefined) config.network = env.SANDBOX_NETWORK.trim() || null;
+
+  if (env.SANDBOX_REGISTRY !== undefined) config.registryPath = env.SANDBOX_REGISTRY.trim() || null;
+
+  const instanceId = env.INSTANCE_ID?.trim();
+  if (instanceId) config.instanceId = instanceId;
+
+  return config;
+}
+
+/**
+ * Query result settings read from the environment:
+ *
+ * - MAX_RESULT_ROWS: rows kept of a query's result; past it the result is truncated (default 10000)
+ * - RESULT_PAGE_SIZE: rows returned with the query and per page fetched after it (default 500)
+ * - RESULT_CURSOR_IDLE_MS: how long a result still reading from the database may go without a page request (default 60000)
+ */
+export function resultStoreConfigFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<ResultStoreConfig> {
+  const config: Partial<ResultStoreConfig> = {};
+
+  const maxRows = readLimit(env, 'MAX_RESULT_ROWS', true);
+  if (maxRows !== undefined) config.maxRows = maxRows;
+
+  const pageSize = readLimit(env, 'RESULT_PAGE_SIZE', true);
+  if (pageSize !== undefined) config.pageSize = pageSize;
+
+  const cursorIdle = readLimit(env, 'RESULT_CURSOR_IDLE_MS', true);
+  if (cursorIdle !== undefined) config.cursorIdleMs = cursorIdle;
+
+  return config;
+}
+
+/**
+ * - QUERY_TIMEOUT_MS: for requests that set no timeoutMs (default 30000)
+ * - MAX_QUERY_TIMEOUT_MS: the largest timeoutMs a request may set (default 300000)
+ */
+export function queryTimeoutsFromEnv(env: NodeJS.ProcessEnv = process.env): { queryTimeoutMs?: number; maxQueryTimeoutMs?: number } {
+  const timeouts: { queryTimeoutMs?: number; maxQueryTimeoutMs?: number } = {};
+
+  const timeout = readLimit(env, 'QUERY_TIMEOUT_MS', true);
+  if (timeout !== undefined) timeouts.queryTimeoutMs = timeout;
+
+  const max = readLimit(env, 'MAX_QUERY_TIMEOUT_MS', true);
+  if (max !== undefined) timeouts.maxQueryTimeoutMs = max;
+
+  return timeouts;
+}
+
+const LIMIT_VARIABLES: Record<keyof ContainerLimits, string> = {
+  memoryMb: 'MEMORY_MB',
+  cpus: 'CPUS',
+  pids: 'PIDS',
+  tmpfsMb: 'TMPFS_MB',
+};
+
+function readLimit(env: NodeJS.ProcessEnv, name: string, integer: boolean): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+
+  const value = Number(raw);
+  if (!(value > 0) || (integer && !Number.isInteger(value))) {
+    throw new Error(`${name} must be a positive ${integer ? 'integer' : 'number'}, got '${raw}'`);
+  }
+  return value;
+}
+
+function readCount(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got '${raw}'`);
+  }
+  return value;
+}
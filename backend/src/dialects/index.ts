@@ -0,0 +1,25 @@
+import { SqlDialect, DialectName } from './sqlDialect';
+import { PostgresDialect } from './postgresDialect';
+import { MySQLDialect } from './mysqlDialect';
+import { SQLiteDialect } from './sqliteDialect';
+import { SqlServerDialect } from './sqlServerDialect';
+
+export type { SqlDialect, DialectName } from './sqlDialect';
+
+const dialects: Record<DialectName, SqlDialect> = {
+  postgres: new PostgresDialect(),
+  mysql: new MySQLDialect(),
+  sqlite: new SQLiteDialect(),
+  sqlserver: new SqlServerDialect(),
+};
+
+/**
+ * Look up the dialect used to render DDL for an engine
+ */
+export function getDialect(name: DialectName): SqlDialect {
+  const dialect = dialects[name];
+  if (!dialect) {
+    throw new Error(`Unsupported SQL dialect: ${name}`);
+  }
+  return dialect;
+}
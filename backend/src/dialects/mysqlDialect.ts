@@ -0,0 +1,108 @@
+import { ColumnDefault, DBMLEnum, TableColumn, TableIndex } from '../parser/dbmlParser';
+import { AutoIncrementClause, BaseDialect, formatTypeArgs, parseTypeName } from './sqlDialect';
+
+const MYSQL_TYPES: Record<string, string> = {
+  int: 'INT',
+  integer: 'INT',
+  int4: 'INT',
+  tinyint: 'TINYINT',
+  smallint: 'SMALLINT',
+  int2: 'SMALLINT',
+  mediumint: 'MEDIUMINT',
+  bigint: 'BIGINT',
+  int8: 'BIGINT',
+  real: 'FLOAT',
+  float4: 'FLOAT',
+  float: 'DOUBLE',
+  float8: 'DOUBLE',
+  double: 'DOUBLE',
+  'double precision': 'DOUBLE',
+  decimal: 'DECIMAL',
+  numeric: 'DECIMAL',
+  money: 'DECIMAL(19,4)',
+  boolean: 'BOOLEAN',
+  bool: 'BOOLEAN',
+  char: 'CHAR',
+  character: 'CHAR',
+  varchar: 'VARCHAR',
+  'character varying': 'VARCHAR',
+  nvarchar: 'VARCHAR',
+  string: 'TEXT',
+  text: 'TEXT',
+  date: 'DATE',
+  time: 'TIME',
+  datetime: 'DATETIME',
+  timestamp: 'DATETIME',
+  timestamptz: 'TIMESTAMP',
+  'timestamp with time zone': 'TIMESTAMP',
+  'timestamp without time zone': 'DATETIME',
+  uuid: 'CHAR(36)',
+  json: 'JSON',
+  jsonb: 'JSON',
+  blob: 'BLOB',
+  bytea: 'BLOB',
+  binary: 'BINARY',
+  varbinary: 'VARBINARY',
+};
+
+// Types whose length argument is mandatory in MySQL
+const DEFAULT_LENGTHS: Record<string, string> = {
+  VARCHAR: '255',
+  VARBINARY: '255',
+};
+
+// BLOB/TEXT/JSON columns only accept parenthesised expression defaults
+const EXPRESSION_DEFAULT_TYPES = /^(TEXT|BLOB|JSON)/;
+
+export class MySQLDialect extends BaseDialect {
+  readonly name = 'mysql';
+  readonly enumStrategy = 'inline';
+
+  quoteIdentifier(name: string): string {
+    return `\`${name.replace(/`/g, '``')}\``;
+  }
+
+  quoteLiteral(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+  }
+
+  mapType(dbmlType: string): string {
+    const { base, args, isArray } = parseTypeName(dbmlType);
+    if (isArray) return 'JSON';
+
+    const mapped = MYSQL_TYPES[base];
+    if (!mapped) return dbmlType;
+    if (args.length === 0 && DEFAULT_LENGTHS[mapped]) return `${mapped}(${DEFAULT_LENGTHS[mapped]})`;
+    return mapped.includes('(') ? mapped : `${mapped}${formatTypeArgs(args)}`;
+  }
+
+  enumColumnType(enumDef: DBMLEnum): string {
+    return `ENUM(${enumDef.values.map(v => this.quoteLiteral(v)).join(', ')})`;
+  }
+
+  renderDefault(value: ColumnDefault, columnType?: string): string {
+    if (value.kind === 'string' && columnType && EXPRESSION_DEFAULT_TYPES.test(columnType)) {
+      return `(${this.quoteLiteral(value.value)})`;
+    }
+    return super.renderDefault(value);
+  }
+
+  autoIncrement(_column: TableColumn, _isSinglePrimaryKey: boolean): AutoIncrementClause {
+    return { clause: 'AUTO_INCREMENT', afterPrimaryKey: true };
+  }
+
+  renderIndex(tableName: string, indexName: string, index: TableIndex): string {
+    const columns = index.columns.map(col => (col.kind === 'column' ? this.quoteIdentifier(col.value) : `(${col.value})`));
+    const using = index.type ? ` USING ${index.type.toUpperCase()}` : '';
+    return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${this.quoteIdentifier(indexName)} ON ${this.quoteIdentifier(tableName)} (${columns.join(', ')})${using};`;
+  }
+
+  renderCreateTable(tableName: string, definitions: string[], note?: string): string {
+    const comment = note ? ` COMMENT=${this.quoteLiteral(note)}` : '';
+    return `CREATE TABLE IF NOT EXISTS ${this.quoteIdentifier(tableName)} (\n  ${definitions.join(',\n  ')}\n)${comment};`;
+  }
+
+  renderColumnComment(note: string): string {
+    return `COMMENT ${this.quoteLiteral(note)}`;
+  }
+}
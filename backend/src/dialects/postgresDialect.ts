@@ -0,0 +1,100 @@
+import { ColumnDefault, DBMLEnum, Table, TableColumn, TableIndex } from '../parser/dbmlParser';
+import { AutoIncrementClause, BaseDialect, formatTypeArgs, parseTypeName } from './sqlDialect';
+
+const POSTGRES_TYPES: Record<string, string> = {
+  int: 'INTEGER',
+  integer: 'INTEGER',
+  int4: 'INTEGER',
+  tinyint: 'SMALLINT',
+  smallint: 'SMALLINT',
+  int2: 'SMALLINT',
+  bigint: 'BIGINT',
+  int8: 'BIGINT',
+  real: 'REAL',
+  float4: 'REAL',
+  float: 'DOUBLE PRECISION',
+  float8: 'DOUBLE PRECISION',
+  double: 'DOUBLE PRECISION',
+  'double precision': 'DOUBLE PRECISION',
+  decimal: 'DECIMAL',
+  numeric: 'NUMERIC',
+  money: 'MONEY',
+  boolean: 'BOOLEAN',
+  bool: 'BOOLEAN',
+  char: 'CHAR',
+  character: 'CHAR',
+  varchar: 'VARCHAR',
+  'character varying': 'VARCHAR',
+  nvarchar: 'VARCHAR',
+  string: 'TEXT',
+  text: 'TEXT',
+  date: 'DATE',
+  time: 'TIME',
+  timetz: 'TIMETZ',
+  datetime: 'TIMESTAMP',
+  timestamp: 'TIMESTAMP',
+  timestamptz: 'TIMESTAMPTZ',
+  'timestamp with time zone': 'TIMESTAMPTZ',
+  'timestamp without time zone': 'TIMESTAMP',
+  interval: 'INTERVAL',
+  uuid: 'UUID',
+  json: 'JSON',
+  jsonb: 'JSONB',
+  blob: 'BYTEA',
+  binary: 'BYTEA',
+  varbinary: 'BYTEA',
+  bytea: 'BYTEA',
+  inet: 'INET',
+  cidr: 'CIDR',
+  xml: 'XML',
+};
+
+export class PostgresDialect extends BaseDialect {
+  readonly name = 'postgres';
+  readonly enumStrategy = 'type';
+  readonly deferrableConstraints = true;
+
+  mapType(dbmlType: string): string {
+    const { base, args, isArray } = parseTypeName(dbmlType);
+    const mapped = POSTGRES_TYPES[base];
+    // Unknown types (e.g. tsvector, point) are passed through for Postgres to judge
+    const type = mapped ? `${mapped}${formatTypeArgs(args)}` : dbmlType.replace(/(\[\])+$/, '');
+    return isArray ? `${type}[]` : type;
+  }
+
+  enumColumnType(enumDef: DBMLEnum): string {
+    return this.quoteIdentifier(enumDef.name);
+  }
+
+  createEnumType(enumDef: DBMLEnum): string {
+    return `CREATE TYPE ${this.quoteIdentifier(enumDef.name)} AS ENUM (${enumDef.values.map(v => this.quoteLiteral(v)).join(', ')});`;
+  }
+
+  renderDefault(value: ColumnDefault): string {
+    // Postgres accepts bare expressions, which reads closer to what students write
+    return value.kind === 'expression' ? value.value : super.renderDefault(value);
+  }
+
+  autoIncrement(_column: TableColumn, _isSinglePrimaryKey: boolean): AutoIncrementClause {
+    return { clause: 'GENERATED BY DEFAULT AS IDENTITY', afterPrimaryKey: false };
+  }
+
+  renderIndex(tableName: string, indexName: string, index: TableIndex): string {
+    const columns = index.columns.map(col => (col.kind === 'column' ? this.quoteIdentifier(col.value) : `(${col.value})`));
+    const using = index.type ? ` USING ${index.type.toUpperCase()}` : '';
+    return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${this.quoteIdentifier(indexName)} ON ${this.quoteIdentifier(tableName)}${using} (${columns.join(', ')});`;
+  }
+
+  renderCommentStatements(table: Table): string[] {
+    const statements: string[] = [];
+    const tableName = this.quoteIdentifier(table.name);
+
+    if (table.note) {
+      statements.push(`COMMENT ON TABLE ${tableName} IS ${this.quoteLiteral(table.note)};`);
+    }
+    for (const col of table.columns.filter(c => c.note)) {
+      statements.push(`COMMENT ON COLUMN ${tableName}.${this.quoteIdentifier(col.name)} IS ${this.quoteLiteral(col.note as string)};`);
+    }
+    return statements;
+  }
+}
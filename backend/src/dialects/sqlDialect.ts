@@ -0,0 +1,130 @@
+/**
+ * SQL Dialect - Engine specific rendering of types, identifiers and constraints
+ */
+
+import { ColumnDefault, DBMLEnum, Table, TableColumn, TableIndex } from '../parser/dbmlParser';
+
+export type DialectName = 'postgres' | 'mysql' | 'sqlite' | 'sqlserver';
+
+export interface TypeName {
+  base: string; // lowercased, e.g. "varchar", "double precision"
+  args: string[]; // e.g. ["10", "2"] for decimal(10,2)
+  isArray: boolean;
+}
+
+export interface AutoIncrementClause {
+  clause: string;
+  afterPrimaryKey: boolean; // SQLite: INTEGER PRIMARY KEY AUTOINCREMENT
+}
+
+export interface SqlDialect {
+  readonly name: DialectName;
+  /**
+   * How enum columns are rendered:
+   * - type: CREATE TYPE ... AS ENUM, column uses the type name
+   * - inline: the column type itself is ENUM('a', 'b')
+   * - check: a text column plus CHECK (col IN (...))
+   */
+  readonly enumStrategy: 'type' | 'inline' | 'check';
+  /** Foreign keys are declared inside CREATE TABLE instead of ALTER TABLE ... ADD CONSTRAINT */
+  readonly inlineForeignKeys: boolean;
+  /** Foreign keys can be DEFERRABLE INITIALLY DEFERRED, i.e. checked at commit */
+  readonly deferrableConstraints: boolean;
+
+  quoteIdentifier(name: string): string;
+  quoteLiteral(value: string): string;
+  mapType(dbmlType: string): string;
+  enumColumnType(enumDef: DBMLEnum): string;
+  createEnumType(enumDef: DBMLEnum): string | null;
+  renderDefault(value: ColumnDefault, columnType?: string): string;
+  autoIncrement(column: TableColumn, isSinglePrimaryKey: boolean): AutoIncrementClause | null;
+  renderCreateTable(tableName: string, definitions: string[], note?: string): string;
+  renderIndex(tableName: string, indexName: string, index: TableIndex): string | null;
+  /** Comment appended to a column definition, for engines that store notes inline */
+  renderColumnComment(note: string): string | null;
+  /** Statements run after CREATE TABLE to attach table and column notes */
+  renderCommentStatements(table: Table): string[];
+}
+
+/**
+ * Split a DBML type such as "decimal(10, 2)" or "int[]" into its parts
+ */
+export function parseTypeName(dbmlType: string): TypeName {
+  let type = dbmlType.trim();
+  let isArray = false;
+  while (type.endsWith('[]')) {
+    isArray = true;
+    type = type.slice(0, -2).trim();
+  }
+
+  const match = type.match(/^([^(]+?)\s*(?:\(([^)]*)\))?$/);
+  const base = (match ? match[1] : type).trim().toLowerCase().replace(/\s+/g, ' ');
+  const args = match && match[2] ? match[2].split(',').map(arg => arg.trim()).filter(Boolean) : [];
+
+  return { base, args, isArray };
+}
+
+export function formatTypeArgs(args: string[]): string {
+  return args.length > 0 ? `(${args.join(',')})` : '';
+}
+
+/**
+ * Shared behaviour; dialects override what their engine does differently
+ */
+export abstract class BaseDialect implements SqlDialect {
+  abstract readonly name: DialectName;
+  abstract readonly enumStrategy: 'type' | 'inline' | 'check';
+  readonly inlineForeignKeys: boolean = false;
+  readonly deferrableConstraints: boolean = false;
+
+  abstract mapType(dbmlType: string): string;
+  abstract autoIncrement(column: TableColumn, isSinglePrimaryKey: boolean): AutoIncrementClause | null;
+
+  quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  enumColumnType(enumDef: DBMLEnum): string {
+    const longest = Math.max(...enumDef.values.map(value => value.length));
+    return `VARCHAR(${Math.max(longest, 1)})`;
+  }
+
+  createEnumType(_enumDef: DBMLEnum): string | null {
+    return null;
+  }
+
+  renderDefault(value: ColumnDefault, _columnType?: string): string {
+    switch (value.kind) {
+      case 'string':
+        return this.quoteLiteral(value.value);
+      case 'boolean':
+      case 'null':
+        return value.value.toUpperCase();
+      case 'expression':
+        return `(${value.value})`;
+      default:
+        return value.value;
+    }
+  }
+
+  renderCreateTable(tableName: string, definitions: string[], _note?: string): string {
+    return `CREATE TABLE IF NOT EXISTS ${this.quoteIdentifier(tableName)} (\n  ${definitions.join(',\n  ')}\n);`;
+  }
+
+  renderIndex(tableName: string, indexName: string, index: TableIndex): string | null {
+    const columns = index.columns.map(col => (col.kind === 'column' ? this.quoteIdentifier(col.value) : `(${col.value})`));
+    return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${this.quoteIdentifier(indexName)} ON ${this.quoteIdentifier(tableName)} (${columns.join(', ')});`;
+  }
+
+  renderColumnComment(_note: string): string | null {
+    return null;
+  }
+
+  renderCommentStatements(_table: Table): string[] {
+    return [];
+  }
+}
@@ -0,0 +1,110 @@
+import { ColumnDefault, DBMLEnum, Table, TableColumn, TableIndex } from '../parser/dbmlParser';
+import { AutoIncrementClause, BaseDialect, formatTypeArgs, parseTypeName } from './sqlDialect';
+
+const SQL_SERVER_TYPES: Record<string, string> = {
+  int: 'INT',
+  integer: 'INT',
+  int4: 'INT',
+  tinyint: 'TINYINT',
+  smallint: 'SMALLINT',
+  int2: 'SMALLINT',
+  bigint: 'BIGINT',
+  int8: 'BIGINT',
+  real: 'REAL',
+  float4: 'REAL',
+  float: 'FLOAT',
+  float8: 'FLOAT',
+  double: 'FLOAT',
+  'double precision': 'FLOAT',
+  decimal: 'DECIMAL',
+  numeric: 'NUMERIC',
+  money: 'MONEY',
+  boolean: 'BIT',
+  bool: 'BIT',
+  char: 'NCHAR',
+  character: 'NCHAR',
+  varchar: 'NVARCHAR',
+  'character varying': 'NVARCHAR',
+  nvarchar: 'NVARCHAR',
+  string: 'NVARCHAR(MAX)',
+  text: 'NVARCHAR(MAX)',
+  date: 'DATE',
+  time: 'TIME',
+  datetime: 'DATETIME2',
+  timestamp: 'DATETIME2',
+  timestamptz: 'DATETIMEOFFSET',
+  'timestamp with time zone': 'DATETIMEOFFSET',
+  uuid: 'UNIQUEIDENTIFIER',
+  json: 'NVARCHAR(MAX)',
+  jsonb: 'NVARCHAR(MAX)',
+  blob: 'VARBINARY(MAX)',
+  bytea: 'VARBINARY(MAX)',
+  binary: 'BINARY',
+  varbinary: 'VARBINARY',
+  xml: 'XML',
+};
+
+export class SqlServerDialect extends BaseDialect {
+  readonly name = 'sqlserver';
+  readonly enumStrategy = 'check';
+
+  quoteIdentifier(name: string): string {
+    return `[${name.replace(/]/g, ']]')}]`;
+  }
+
+  quoteLiteral(value: string): string {
+    return `N'${value.replace(/'/g, "''")}'`;
+  }
+
+  mapType(dbmlType: string): string {
+    const { base, args, isArray } = parseTypeName(dbmlType);
+    if (isArray) return 'NVARCHAR(MAX)';
+
+    const mapped = SQL_SERVER_TYPES[base];
+    if (!mapped) return dbmlType;
+    if (mapped === 'NVARCHAR' && args.length === 0) return 'NVARCHAR(255)';
+    return mapped.includes('(') ? mapped : `${mapped}${formatTypeArgs(args)}`;
+  }
+
+  enumColumnType(enumDef: DBMLEnum): string {
+    const longest = Math.max(...enumDef.values.map(value => value.length));
+    return `NVARCHAR(${Math.max(longest, 1)})`;
+  }
+
+  renderDefault(value: ColumnDefault, columnType?: string): string {
+    if (value.kind === 'boolean') return value.value === 'true' ? '1' : '0';
+    return super.renderDefault(value, columnType);
+  }
+
+  autoIncrement(_column: TableColumn, _isSinglePrimaryKey: boolean): AutoIncrementClause {
+    return { clause: 'IDENTITY(1,1)', afterPrimaryKey: false };
+  }
+
+  renderCreateTable(tableName: string, definitions: string[], _note?: string): string {
+    // No IF NOT EXISTS for CREATE TABLE in T-SQL
+    return `CREATE TABLE ${this.quoteIdentifier(tableName)} (\n  ${definitions.join(',\n  ')}\n);`;
+  }
+
+  renderIndex(tableName: string, indexName: string, index: TableIndex): string | null {
+    // SQL Server has no expression indexes (computed columns would be needed)
+    if (index.columns.some(col => col.kind === 'expression')) return null;
+    return super.renderIndex(tableName, indexName, { ...index, type: undefined });
+  }
+
+  // MS_Description extended properties are what SSMS and sys.extended_properties show as descriptions
+  renderCommentStatements(table: Table): string[] {
+    const property = (note: string, column?: string): string => {
+      let sql =
+        `EXEC sp_addextendedproperty @name = N'MS_Description', @value = ${this.quoteLiteral(note)}, ` +
+        `@level0type = N'SCHEMA', @level0name = N'dbo', @level1type = N'TABLE', @level1name = ${this.quoteLiteral(table.name)}`;
+      if (column) sql += `, @level2type = N'COLUMN', @level2name = ${this.quoteLiteral(column)}`;
+      return `${sql};`;
+    };
+
+    const statements = table.note ? [property(table.note)] : [];
+    for (const col of table.columns.filter(c => c.note)) {
+      statements.push(property(col.note as string, col.name));
+    }
+    return statements;
+  }
+}
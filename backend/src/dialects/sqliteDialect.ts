@@ -0,0 +1,88 @@
+import { ColumnDefault, TableColumn } from '../parser/dbmlParser';
+import { AutoIncrementClause, BaseDialect, formatTypeArgs, parseTypeName } from './sqlDialect';
+
+/**
+ * SQLite only has storage classes; keep the declared names that map onto the
+ * right type affinity so schemas still read naturally.
+ */
+const SQLITE_TYPES: Record<string, string> = {
+  int: 'INTEGER',
+  integer: 'INTEGER',
+  int4: 'INTEGER',
+  tinyint: 'INTEGER',
+  smallint: 'INTEGER',
+  int2: 'INTEGER',
+  mediumint: 'INTEGER',
+  bigint: 'INTEGER',
+  int8: 'INTEGER',
+  real: 'REAL',
+  float: 'REAL',
+  float4: 'REAL',
+  float8: 'REAL',
+  double: 'REAL',
+  'double precision': 'REAL',
+  decimal: 'NUMERIC',
+  numeric: 'NUMERIC',
+  money: 'NUMERIC',
+  boolean: 'INTEGER', // SQLite uses INTEGER for boolean
+  bool: 'INTEGER',
+  char: 'CHAR',
+  character: 'CHAR',
+  varchar: 'VARCHAR',
+  'character varying': 'VARCHAR',
+  nvarchar: 'VARCHAR',
+  string: 'TEXT',
+  text: 'TEXT',
+  date: 'TEXT', // SQLite uses TEXT for dates
+  time: 'TEXT',
+  datetime: 'TEXT',
+  timestamp: 'TEXT',
+  timestamptz: 'TEXT',
+  uuid: 'TEXT',
+  json: 'TEXT',
+  jsonb: 'TEXT',
+  blob: 'BLOB',
+  bytea: 'BLOB',
+  binary: 'BLOB',
+  varbinary: 'BLOB',
+};
+
+export class SQLiteDialect extends BaseDialect {
+  readonly name = 'sqlite';
+  readonly enumStrategy = 'check';
+  readonly inlineForeignKeys = true; // ALTER TABLE cannot add constraints in SQLite
+  readonly deferrableConstraints = true;
+
+  mapType(dbmlType: string): string {
+    const { base, args, isArray } = parseTypeName(dbmlType);
+    if (isArray) return 'TEXT';
+
+    const mapped = SQLITE_TYPES[base];
+    if (!mapped) return dbmlType;
+    return mapped === 'CHAR' || mapped === 'VARCHAR' ? `${mapped}${formatTypeArgs(args)}` : mapped;
+  }
+
+  renderDefault(value: ColumnDefault, columnType?: string): string {
+    if (value.kind === 'boolean') return value.value === 'true' ? '1' : '0';
+    return super.renderDefault(value, columnType);
+  }
+
+  autoIncrement(_column: TableColumn, isSinglePrimaryKey: boolean): AutoIncrementClause | null {
+    // Only an INTEGER PRIMARY KEY can auto-increment (it aliases the rowid)
+    return isSinglePrimaryKey ? { clause: 'AUTOINCREMENT', afterPrimaryKey: true } : null;
+  }
+
+  // SQLite has no comment catalog, but keeps the CREATE TABLE text in sqlite_schema
+  renderCreateTable(tableName: string, definitions: string[], note?: string): string {
+    const comment = note ? ` ${toBlockComment(note)}` : '';
+    return `CREATE TABLE IF NOT EXISTS ${this.quoteIdentifier(tableName)}${comment} (\n  ${definitions.join(',\n  ')}\n);`;
+  }
+
+  renderColumnComment(note: string): string {
+    return toBlockComment(note);
+  }
+}
+
+function toBlockComment(note: string): string {
+  return `/* ${note.replace(/\*\//g, '* /')} */`;
+}
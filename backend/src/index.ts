@@ -1,9 +1,11 @@
 import express from 'express';
 import cors from 'cors';
-import queryRoutes from './routes/queryRoutes';
+import queryRoutes, { cleanupSessions } from './routes/queryRoutes';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+// How long running requests get to finish on shutdown before sessions are removed anyway
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 30 * 1000;
 
 // Middleware
 app.use(cors());
@@ -19,8 +21,31 @@ app.get('/', (req, res) => {
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
 });
 
+// Stop taking requests, let running queries finish, then remove the sessions' databases
+let shuttingDown = false;
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received, draining requests`);
+
+  const drained = new Promise<void>(resolve => server.close(() => resolve()));
+  server.closeIdleConnections();
+  const timeout = new Promise<void>(resolve => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS));
+  await Promise.race([drained, timeout]);
+
+  try {
+    await cleanupSessions();
+  } catch (error) {
+    console.error('Failed to clean up sessions:', error);
+  }
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
+
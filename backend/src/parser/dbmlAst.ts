@@ -0,0 +1,149 @@
+/**
+ * DBML AST - Typed syntax tree produced by the DBML parser
+ */
+
+export interface SourcePosition {
+  offset: number;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export type RefOperator = '>' | '<' | '-' | '<>';
+
+export interface NameNode {
+  value: string;
+  span: SourceSpan;
+}
+
+export interface RefEndpointNode {
+  schema?: string;
+  table: string;
+  columns: string[];
+  span: SourceSpan;
+}
+
+export interface ValueNode {
+  kind: 'string' | 'expression' | 'number' | 'identifier' | 'color' | 'ref';
+  value: string;
+  ref?: {
+    operator: RefOperator;
+    endpoint: RefEndpointNode;
+  };
+  span: SourceSpan;
+}
+
+export interface SettingNode {
+  name: string; // lowercased, words joined by a single space (e.g. "not null")
+  value?: ValueNode;
+  span: SourceSpan;
+}
+
+export interface ColumnNode {
+  kind: 'column';
+  name: NameNode;
+  type: NameNode; // raw type text, e.g. "varchar(50)", "decimal(10,2)", "int[]"
+  settings: SettingNode[];
+  span: SourceSpan;
+}
+
+export interface IndexColumnNode {
+  kind: 'column' | 'expression';
+  value: string;
+  span: SourceSpan;
+}
+
+export interface IndexNode {
+  kind: 'index';
+  columns: IndexColumnNode[];
+  settings: SettingNode[];
+  span: SourceSpan;
+}
+
+export interface CheckNode {
+  kind: 'check';
+  expression: string;
+  settings: SettingNode[];
+  span: SourceSpan;
+}
+
+export interface NoteNode {
+  kind: 'note';
+  name?: NameNode;
+  value: string;
+  span: SourceSpan;
+}
+
+export interface TableNode {
+  kind: 'table';
+  schema?: NameNode;
+  name: NameNode;
+  alias?: NameNode;
+  settings: SettingNode[];
+  columns: ColumnNode[];
+  indexes: IndexNode[];
+  checks: CheckNode[];
+  note?: NoteNode;
+  span: SourceSpan;
+}
+
+export interface RefNode {
+  kind: 'ref';
+  name?: NameNode;
+  from: RefEndpointNode;
+  operator: RefOperator;
+  to: RefEndpointNode;
+  settings: SettingNode[];
+  span: SourceSpan;
+}
+
+export interface EnumValueNode {
+  name: NameNode;
+  settings: SettingNode[];
+  span: SourceSpan;
+}
+
+export interface EnumNode {
+  kind: 'enum';
+  schema?: NameNode;
+  name: NameNode;
+  values: EnumValueNode[];
+  span: SourceSpan;
+}
+
+export interface TableGroupNode {
+  kind: 'tableGroup';
+  name: NameNode;
+  tables: NameNode[];
+  span: SourceSpan;
+}
+
+export interface ProjectNode {
+  kind: 'project';
+  name?: NameNode;
+  settings: SettingNode[];
+  note?: NoteNode;
+  span: SourceSpan;
+}
+
+export type ElementNode = TableNode | RefNode | EnumNode | TableGroupNode | ProjectNode | NoteNode;
+
+export interface DBMLDocument {
+  elements: ElementNode[];
+  span: SourceSpan;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { isWrapped } from '../services/schemaIntrospector';
+import { generateDBML } from './dbmlGenerator';
+import { parseDBML } from './dbmlParser';
+
+const SCHEMA = `
+Enum order_status {
+  pending
+  "on hold"
+  shipped
+}
+
+Table users {
+  id int [pk, increment]
+  email varchar(255) [not null, unique, note: 'Where we send receipts']
+  nickname "character varying" [default: 'it\\'s me']
+  age int [check: \`age >= 18\`]
+  created_at timestamp [default: \`now()\`]
+
+  Note: '''
+    Everyone who can log in
+
+    Staff included
+  '''
+}
+
+Table "order lines" {
+  order_id int
+  line int
+  status order_status [not null, default: 'pending']
+  quantity int [default: 1]
+
+  indexes {
+    (order_id, line) [pk]
+    status [name: 'lines_by_status', type: hash]
+    \`lower(status::text)\`
+  }
+
+  checks {
+    \`quantity > 0\` [name: 'positive_quantity']
+  }
+}
+
+Table tags {
+  id int [pk]
+}
+
+Ref: "order lines".order_id > users.id [delete: cascade, update: restrict]
+Ref user_tags: users.id <> tags.id
+`;
+
+describe('generateDBML', () => {
+  it('renders DBML that parses back into the same schema', () => {
+    const parsed = parseDBML(SCHEMA);
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.tables.map(t => t.name)).toEqual(['users', 'order lines', 'tags', 'users_tags']);
+
+    const reparsed = parseDBML(generateDBML(parsed));
+
+    expect(reparsed.diagnostics).toEqual([]);
+    expect(reparsed.tables).toEqual(parsed.tables);
+    expect(reparsed.relationships).toEqual(parsed.relationships);
+    expect(reparsed.enums).toEqual(parsed.enums);
+  });
+
+  it('leaves out defaults the parser fills in', () => {
+    const schema = parseDBML(`
+      Table users {
+        id int [pk]
+        score int [check: \`score > 0\`]
+      }
+
+      Table posts {
+        id int [pk]
+        user_id int
+
+        indexes {
+          user_id
+        }
+      }
+
+      Ref: posts.user_id > users.id
+    `);
+
+    expect(generateDBML(schema)).toBe(
+      [
+        'Table users {',
+        '  id int [pk]',
+        '  score int [check: `score > 0`]',
+        '}',
+        '',
+        'Table posts {',
+        '  id int [pk]',
+        '  user_id int',
+        '',
+        '  indexes {',
+        '    user_id',
+        '  }',
+        '}',
+        '',
+        'Ref: posts.user_id > users.id',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders nothing for an empty schema', () => {
+    expect(generateDBML({ tables: [], relationships: [], enums: [] })).toBe('');
+  });
+});
+
+describe('isWrapped', () => {
+  it.each([
+    ['(a > 0)', true],
+    ['((a > 0) AND (b > 0))', true],
+    ['(a > 0) AND (b > 0)', false],
+    ["(name <> ')')", true],
+    ['a > 0', false],
+  ])('%s is wrapped in one pair of parentheses: %s', (expression, wrapped) => {
+    expect(isWrapped(expression)).toBe(wrapped);
+  });
+});
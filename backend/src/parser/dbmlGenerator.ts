@@ -0,0 +1,144 @@
+/**
+ * DBML Generator - Renders a schema model back into DBML text
+ */
+
+import { ColumnDefault, DBMLEnum, ParsedDBML, Relationship, Table, TableCheck, TableColumn, TableIndex } from './dbmlParser';
+
+const REF_OPERATORS: Record<Relationship['type'], string> = {
+  'many-to-one': '>',
+  'one-to-many': '<',
+  'one-to-one': '-',
+  'many-to-many': '<>',
+};
+
+/**
+ * Generate DBML for a schema model; the output parses back into the same model
+ */
+export function generateDBML(schema: Pick<ParsedDBML, 'tables' | 'relationships' | 'enums'>): string {
+  // Junction tables of many-to-many refs are implied by the `<>` ref itself
+  const junctionTables = new Set(schema.relationships.map(rel => rel.junctionTable).filter(Boolean));
+  const blocks: string[] = [];
+
+  for (const enumDef of schema.enums) {
+    blocks.push(renderEnum(enumDef));
+  }
+  for (const table of schema.tables.filter(t => !junctionTables.has(t.name))) {
+    blocks.push(renderTable(table));
+  }
+
+  const refs = schema.relationships
+    .filter(rel => !junctionTables.has(rel.fromTable))
+    .map(renderRef);
+  if (refs.length > 0) blocks.push(refs.join('\n'));
+
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+}
+
+function renderEnum(enumDef: DBMLEnum): string {
+  const values = enumDef.values.map(value => `  ${formatName(value)}`);
+  return `Enum ${formatName(enumDef.name)} {\n${values.join('\n')}\n}`;
+}
+
+function renderTable(table: Table): string {
+  const lines = table.columns.map(col => `  ${renderColumn(table, col)}`);
+  const checks = table.checks.filter(check => !isInlineCheck(table, check));
+  const indexes = table.indexes.map(renderIndex);
+
+  if (table.primaryKey.length > 1) {
+    indexes.unshift(`(${table.primaryKey.map(formatName).join(', ')}) [pk]`);
+  }
+  if (indexes.length > 0) {
+    lines.push('', '  indexes {', ...indexes.map(index => `    ${index}`), '  }');
+  }
+  if (checks.length > 0) {
+    const rendered = checks.map(check => {
+      const name = check.name === `${table.name}_check` ? '' : ` [name: ${formatString(check.name)}]`;
+      return `    ${formatExpression(check.expression)}${name}`;
+    });
+    lines.push('', '  checks {', ...rendered, '  }');
+  }
+  if (table.note) {
+    lines.push('', `  Note: ${formatString(table.note)}`);
+  }
+
+  return `Table ${formatName(table.name)} {\n${lines.join('\n')}\n}`;
+}
+
+function renderColumn(table: Table, col: TableColumn): string {
+  const settings: string[] = [];
+
+  if (col.isPrimaryKey && table.primaryKey.length === 1) settings.push('pk');
+  if (col.isAutoIncrement) settings.push('increment');
+  if (col.isNotNull && !col.isPrimaryKey) settings.push('not null');
+  if (col.isUnique) settings.push('unique');
+  if (col.defaultValue) settings.push(`default: ${formatDefault(col.defaultValue)}`);
+  for (const check of table.checks.filter(c => isInlineCheck(table, c) && c.column === col.name)) {
+    settings.push(`check: ${formatExpression(check.expression)}`);
+  }
+  if (col.note) settings.push(`note: ${formatString(col.note)}`);
+
+  const type = /^[\w.]+(\([^)]*\))?(\[\])*$/.test(col.type) ? col.type : `"${col.type}"`;
+  return `${formatName(col.name)} ${type}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`;
+}
+
+function renderIndex(index: TableIndex): string {
+  const columns = index.columns.map(col => (col.kind === 'column' ? formatName(col.value) : formatExpression(col.value)));
+  const settings: string[] = [];
+
+  if (index.unique) settings.push('unique');
+  if (index.name) settings.push(`name: ${formatString(index.name)}`);
+  if (index.type) settings.push(`type: ${index.type}`);
+
+  const target = columns.length === 1 ? columns[0] : `(${columns.join(', ')})`;
+  return `${target}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`;
+}
+
+function renderRef(rel: Relationship): string {
+  const settings: string[] = [];
+  if (rel.onDelete) settings.push(`delete: ${rel.onDelete}`);
+  if (rel.onUpdate) settings.push(`update: ${rel.onUpdate}`);
+
+  const name = rel.name ? ` ${formatName(rel.name)}` : '';
+  const endpoint = (table: string, columns: string[]): string =>
+    columns.length === 1
+      ? `${formatName(table)}.${formatName(columns[0])}`
+      : `${formatName(table)}.(${columns.map(formatName).join(', ')})`;
+
+  return (
+    `Ref${name}: ${endpoint(rel.fromTable, rel.fromColumns)} ${REF_OPERATORS[rel.type]} ${endpoint(rel.toTable, rel.toColumns)}` +
+    (settings.length > 0 ? ` [${settings.join(', ')}]` : '')
+  );
+}
+
+/**
+ * Column checks are written inline when their name is the one the parser would generate
+ */
+function isInlineCheck(table: Table, check: TableCheck): boolean {
+  return check.column !== undefined && check.name === `${table.name}_${check.column}_check`;
+}
+
+function formatDefault(value: ColumnDefault): string {
+  switch (value.kind) {
+    case 'string':
+      return formatString(value.value);
+    case 'expression':
+      return formatExpression(value.value);
+    default:
+      return value.value;
+  }
+}
+
+function formatName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function formatString(value: string): string {
+  const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  if (!value.includes('\n')) return `'${escaped}'`;
+  const body = escaped.split('\n').map(line => (line ? `    ${line}` : line));
+  return `'''\n${body.join('\n')}\n  '''`;
+}
+
+function formatExpression(expression: string): string {
+  return `\`${expression.replace(/\\/g, '\\\\').replace(/`/g, '\\`')}\``;
+}
@@ -0,0 +1,223 @@
+/**
+ * DBML Lexer - Splits DBML source into tokens with source positions
+ */
+
+import { Diagnostic, SourcePosition, SourceSpan } from './dbmlAst';
+
+export type TokenType =
+  | 'identifier' // users, varchar, primary
+  | 'quoted' // "user table"
+  | 'string' // 'text' or '''multi-line text'''
+  | 'expression' // `now()`
+  | 'number' // 42, 3.14
+  | 'color' // #3498DB
+  | 'symbol' // { } [ ] ( ) , : . < > - <> ~
+  | 'newline'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  span: SourceSpan;
+}
+
+export interface LexResult {
+  tokens: Token[];
+  diagnostics: Diagnostic[];
+}
+
+const SYMBOLS = new Set(['{', '}', '[', ']', '(', ')', ',', ':', '.', '<', '>', '-', '~']);
+
+export function createDiagnostic(
+  severity: Diagnostic['severity'],
+  message: string,
+  span: SourceSpan
+): Diagnostic {
+  return {
+    severity,
+    message,
+    line: span.start.line,
+    column: span.start.column,
+    endLine: span.end.line,
+    endColumn: span.end.column,
+  };
+}
+
+/**
+ * Tokenize DBML source. Comments and horizontal whitespace are dropped,
+ * newlines are kept because column and index definitions are line based.
+ */
+export function tokenizeDBML(source: string): LexResult {
+  const tokens: Token[] = [];
+  const diagnostics: Diagnostic[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): SourcePosition => ({ offset, line, column });
+
+  const advance = (count = 1): void => {
+    for (let i = 0; i < count && offset < source.length; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  const push = (type: TokenType, value: string, start: SourcePosition): void => {
+    tokens.push({ type, value, span: { start, end: position() } });
+  };
+
+  const readDelimited = (quote: string, type: TokenType, label: string): void => {
+    const start = position();
+    advance(quote.length);
+    let value = '';
+
+    while (offset < source.length && !source.startsWith(quote, offset)) {
+      // Single-line strings and quoted identifiers cannot span lines
+      if (quote.length === 1 && quote !== '`' && source[offset] === '\n') break;
+      if (source[offset] === '\\' && offset + 1 < source.length) {
+        const next = source[offset + 1];
+        value += next === quote[0] || next === '\\' ? next : `\\${next}`;
+        advance(2);
+        continue;
+      }
+      value += source[offset];
+      advance();
+    }
+
+    if (!source.startsWith(quote, offset)) {
+      diagnostics.push(createDiagnostic('error', `Unterminated ${label}`, { start, end: position() }));
+    } else {
+      advance(quote.length);
+    }
+
+    push(type, quote === "'''" ? normalizeMultilineString(value) : value, start);
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const start = position();
+
+    if (char === '\n') {
+      // Keep the span on the line it terminates so diagnostics point at it
+      tokens.push({
+        type: 'newline',
+        value: '\n',
+        span: { start, end: { offset: offset + 1, line, column: column + 1 } },
+      });
+      advance();
+      continue;
+    }
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      advance();
+      continue;
+    }
+
+    if (source.startsWith('//', offset)) {
+      while (offset < source.length && source[offset] !== '\n') advance();
+      continue;
+    }
+
+    if (source.startsWith('/*', offset)) {
+      const end = source.indexOf('*/', offset + 2);
+      if (end === -1) {
+        advance(source.length - offset);
+        diagnostics.push(createDiagnostic('error', 'Unterminated block comment', { start, end: position() }));
+      } else {
+        advance(end + 2 - offset);
+      }
+      continue;
+    }
+
+    if (source.startsWith("'''", offset)) {
+      readDelimited("'''", 'string', 'multi-line string');
+      continue;
+    }
+
+    if (char === "'") {
+      readDelimited("'", 'string', 'string');
+      continue;
+    }
+
+    if (char === '"') {
+      readDelimited('"', 'quoted', 'quoted identifier');
+      continue;
+    }
+
+    if (char === '`') {
+      readDelimited('`', 'expression', 'expression');
+      continue;
+    }
+
+    if (char === '#') {
+      advance();
+      while (offset < source.length && /[0-9a-fA-F]/.test(source[offset])) advance();
+      push('color', source.slice(start.offset, offset), start);
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      while (offset < source.length && /[0-9]/.test(source[offset])) advance();
+      if (source[offset] === '.' && /[0-9]/.test(source[offset + 1] ?? '')) {
+        advance();
+        while (offset < source.length && /[0-9]/.test(source[offset])) advance();
+      }
+      // Identifiers may start with digits in DBML (e.g. "2fa_enabled")
+      if (/[A-Za-z_]/.test(source[offset] ?? '')) {
+        while (offset < source.length && /\w/.test(source[offset])) advance();
+        push('identifier', source.slice(start.offset, offset), start);
+      } else {
+        push('number', source.slice(start.offset, offset), start);
+      }
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      while (offset < source.length && /\w/.test(source[offset])) advance();
+      push('identifier', source.slice(start.offset, offset), start);
+      continue;
+    }
+
+    if (source.startsWith('<>', offset)) {
+      advance(2);
+      push('symbol', '<>', start);
+      continue;
+    }
+
+    if (SYMBOLS.has(char)) {
+      advance();
+      push('symbol', char, start);
+      continue;
+    }
+
+    advance();
+    diagnostics.push(createDiagnostic('error', `Unexpected character '${char}'`, { start, end: position() }));
+  }
+
+  const end = position();
+  tokens.push({ type: 'eof', value: '', span: { start: end, end } });
+
+  return { tokens, diagnostics };
+}
+
+/**
+ * Strip the common indentation of a ''' string, like DBML does
+ */
+function normalizeMultilineString(raw: string): string {
+  const lines = raw.replace(/\r\n/g, '\n').split('\n');
+  if (lines.length > 0 && lines[0].trim() === '') lines.shift();
+  if (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+
+  const indents = lines
+    .filter(l => l.trim().length > 0)
+    .map(l => (l.match(/^[ \t]*/) as RegExpMatchArray)[0].length);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  return lines.map(l => l.slice(minIndent)).join('\n');
+}
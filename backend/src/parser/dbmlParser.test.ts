@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest';
+import { tokenizeDBML } from './dbmlLexer';
+import { parseDBML } from './dbmlParser';
+
+describe('tokenizeDBML', () => {
+  it('splits source into typed tokens, dropping comments and spaces', () => {
+    const { tokens, diagnostics } = tokenizeDBML("Table \"user table\" { // the users\n  id int [default: `now()`, note: 'x']\n}");
+
+    expect(diagnostics).toEqual([]);
+    expect(tokens.map(token => [token.type, token.value])).toEqual([
+      ['identifier', 'Table'],
+      ['quoted', 'user table'],
+      ['symbol', '{'],
+      ['newline', '\n'],
+      ['identifier', 'id'],
+      ['identifier', 'int'],
+      ['symbol', '['],
+      ['identifier', 'default'],
+      ['symbol', ':'],
+      ['expression', 'now()'],
+      ['symbol', ','],
+      ['identifier', 'note'],
+      ['symbol', ':'],
+      ['string', 'x'],
+      ['symbol', ']'],
+      ['newline', '\n'],
+      ['symbol', '}'],
+      ['eof', ''],
+    ]);
+  });
+
+  it('reads <> as one symbol', () => {
+    const { tokens } = tokenizeDBML('a.id <> b.id');
+
+    expect(tokens.filter(token => token.type === 'symbol').map(token => token.value)).toEqual(['.', '<>', '.']);
+  });
+
+  it('records 1-based positions', () => {
+    const { tokens } = tokenizeDBML('Table t {\n  id int\n}');
+    const id = tokens.find(token => token.value === 'id');
+
+    expect(id?.span.start).toEqual({ offset: 12, line: 2, column: 3 });
+  });
+
+  it('reports unterminated strings', () => {
+    const { diagnostics } = tokenizeDBML("Table t {\n  id int [note: 'open\n}");
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'error', message: 'Unterminated string', line: 2 });
+  });
+});
+
+describe('parseDBML', () => {
+  it('parses tables, column settings and notes', () => {
+    const parsed = parseDBML(`
+      Table users {
+        id int [pk, increment]
+        email varchar(255) [not null, unique]
+        status varchar [default: 'active', note: 'account state']
+      }
+    `);
+
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.tables).toHaveLength(1);
+    const [users] = parsed.tables;
+    expect(users.name).toBe('users');
+    expect(users.primaryKey).toEqual(['id']);
+    expect(users.columns.map(column => column.name)).toEqual(['id', 'email', 'status']);
+    expect(users.columns[0]).toMatchObject({ type: 'int', isPrimaryKey: true, isAutoIncrement: true });
+    expect(users.columns[1]).toMatchObject({ type: 'varchar(255)', isNotNull: true, isUnique: true });
+    expect(users.columns[2]).toMatchObject({
+      defaultValue: { kind: 'string', value: 'active' },
+      note: 'account state',
+    });
+  });
+
+  it('parses composite keys and indexes', () => {
+    const parsed = parseDBML(`
+      Table enrollments {
+        student_id int
+        course_id int
+        enrolled_at timestamp
+
+        indexes {
+          (student_id, course_id) [pk]
+          enrolled_at [name: 'enrollments_enrolled_at']
+        }
+      }
+    `);
+
+    expect(parsed.diagnostics).toEqual([]);
+    const [enrollments] = parsed.tables;
+    expect(enrollments.primaryKey).toEqual(['student_id', 'course_id']);
+    expect(enrollments.indexes).toEqual([
+      expect.objectContaining({ name: 'enrollments_enrolled_at', columns: [{ kind: 'column', value: 'enrolled_at' }] }),
+    ]);
+  });
+
+  it('parses enums and marks the columns using them', () => {
+    const parsed = parseDBML(`
+      Enum order_status {
+        pending
+        shipped
+      }
+
+      Table orders {
+        id int [pk]
+        status order_status
+      }
+    `);
+
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.enums).toEqual([{ name: 'order_status', values: ['pending', 'shipped'] }]);
+    expect(parsed.tables[0].columns[1].enumType).toBe('order_status');
+  });
+
+  it('parses standalone and inline references with their actions', () => {
+    const parsed = parseDBML(`
+      Table users {
+        id int [pk]
+      }
+
+      Table posts {
+        id int [pk]
+        author_id int [ref: > users.id]
+      }
+
+      Table comments {
+        id int [pk]
+        post_id int
+      }
+
+      Ref: comments.post_id > posts.id [delete: cascade]
+    `);
+
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.relationships).toHaveLength(2);
+    expect(parsed.relationships).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          fromTable: 'posts',
+          fromColumns: ['author_id'],
+          toTable: 'users',
+          toColumns: ['id'],
+          type: 'many-to-one',
+        }),
+        expect.objectContaining({
+          fromTable: 'comments',
+          fromColumns: ['post_id'],
+          toTable: 'posts',
+          toColumns: ['id'],
+          onDelete: 'cascade',
+        }),
+      ])
+    );
+  });
+
+  it('reports references to unknown tables with their position', () => {
+    const parsed = parseDBML('Table posts {\n  id int [pk]\n}\nRef: posts.author_id > users.id');
+
+    expect(parsed.relationships).toEqual([]);
+    expect(parsed.diagnostics).toContainEqual(
+      expect.objectContaining({ severity: 'error', message: "Unknown table 'users' in reference", line: 4, column: 24 })
+    );
+  });
+
+  it('reports syntax errors and keeps parsing later tables', () => {
+    const parsed = parseDBML('Table broken {\n  id int [pk\n}\n\nTable fine {\n  id int [pk]\n}');
+
+    expect(parsed.diagnostics.some(diagnostic => diagnostic.severity === 'error')).toBe(true);
+    expect(parsed.tables.map(table => table.name)).toContain('fine');
+  });
+
+  it('turns a many-to-many reference into a junction table', () => {
+    const parsed = parseDBML(`
+      Table students {
+        id int [pk]
+      }
+
+      Table courses {
+        id int [pk]
+      }
+
+      Ref: students.id <> courses.id
+    `);
+
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.tables.map(table => table.name)).toEqual(['students', 'courses', 'students_courses']);
+    expect(parsed.relationships).toEqual([
+      expect.objectContaining({ type: 'many-to-many', junctionTable: 'students_courses' }),
+      expect.objectContaining({
+        fromTable: 'students_courses',
+        fromColumns: ['students_id'],
+        toTable: 'students',
+        onDelete: 'cascade',
+      }),
+      expect.objectContaining({
+        fromTable: 'students_courses',
+        fromColumns: ['courses_id'],
+        toTable: 'courses',
+        onDelete: 'cascade',
+      }),
+    ]);
+  });
+
+  it.each([
+    ['left', 'students.name <> courses.id', 'students.(name)'],
+    ['right', 'courses.id <> students.name', 'students.(name)'],
+  ])('rejects a many-to-many reference whose %s side is not unique', (_, ref, columns) => {
+    const parsed = parseDBML(
+      `Table students {\n  id int [pk]\n  name varchar\n}\nTable courses {\n  id int [pk]\n}\nRef: ${ref}`
+    );
+
+    expect(parsed.relationships).toEqual([]);
+    expect(parsed.tables).toHaveLength(2);
+    expect(parsed.diagnostics).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        message: `Columns ${columns} of a many-to-many reference must be a primary key or unique`,
+        line: 8,
+        column: 1,
+      }),
+    ]);
+  });
+});
+
+describe('checks', () => {
+  const PRODUCTS = `
+    Table products {
+      id int [pk]
+      price decimal(10,2) [check: \`price >= 0\`]
+      stock int [note: 'check: stock >= 0']
+      sale_price decimal(10,2)
+
+      checks {
+        \`sale_price <= price\` [name: 'sale_below_price']
+        \`sale_price > 0 OR sale_price IS NULL\`
+      }
+    }
+  `;
+
+  it('collects column settings, check notes and checks blocks, naming each', () => {
+    const parsed = parseDBML(PRODUCTS);
+
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.tables[0].checks).toEqual([
+      { name: 'products_price_check', expression: 'price >= 0', column: 'price' },
+      { name: 'products_stock_check', expression: 'stock >= 0', column: 'stock' },
+      { name: 'sale_below_price', expression: 'sale_price <= price' },
+      { name: 'products_check', expression: 'sale_price > 0 OR sale_price IS NULL' },
+    ]);
+    // A check note becomes the constraint, not a comment
+    expect(parsed.tables[0].columns.find(col => col.name === 'stock')?.note).toBeUndefined();
+  });
+
+  it('reports checks that are not expressions and duplicate names', () => {
+    const parsed = parseDBML(
+      "Table t {\n  a int [check: 'a > 0']\n  checks {\n    `a < 9` [name: 'x']\n    `a < 8` [name: 'x']\n  }\n}"
+    );
+
+    expect(parsed.diagnostics.map(({ severity, message, line }) => ({ severity, message, line }))).toEqual([
+      { severity: 'error', message: "'check' expects an expression in backticks, e.g. check: `age > 0`", line: 2 },
+      { severity: 'error', message: "Duplicate check name 'x'", line: 5 },
+    ]);
+  });
+});
@@ -1,139 +1,1373 @@
 /**
- * DBML Parser - Converts DBML syntax to SQL CREATE TABLE statements
+ * DBML Parser - Converts DBML syntax into a schema model with diagnostics
  */
 
+import {
+  CheckNode,
+  ColumnNode,
+  DBMLDocument,
+  Diagnostic,
+  ElementNode,
+  EnumNode,
+  EnumValueNode,
+  IndexColumnNode,
+  IndexNode,
+  NameNode,
+  NoteNode,
+  ProjectNode,
+  RefEndpointNode,
+  RefNode,
+  RefOperator,
+  SettingNode,
+  SourceSpan,
+  TableGroupNode,
+  TableNode,
+  ValueNode,
+} from './dbmlAst';
+import { Token, createDiagnostic, tokenizeDBML } from './dbmlLexer';
+
+export interface ColumnDefault {
+  kind: 'string' | 'number' | 'boolean' | 'null' | 'expression';
+  value: string;
+}
+
 export interface TableColumn {
   name: string;
-  type: string;
+  type: string; // DBML type as written; dialects map it per engine
   isPrimaryKey: boolean;
-  constraints?: string[];
+  isNotNull: boolean;
+  isUnique: boolean;
+  isAutoIncrement: boolean;
+  defaultValue?: ColumnDefault;
+  enumType?: string; // set when the column type names a DBML enum
+  note?: string;
+}
+
+export type IndexMethod = 'btree' | 'hash';
+
+export interface IndexColumn {
+  kind: 'column' | 'expression';
+  value: string;
+}
+
+export interface TableIndex {
+  name?: string;
+  columns: IndexColumn[];
+  unique: boolean;
+  type?: IndexMethod;
+}
+
+export interface TableCheck {
+  name: string; // constraint name, unique across the schema
+  expression: string; // raw SQL boolean expression
+  column?: string; // set for column-level checks
 }
 
 export interface Table {
   name: string;
   columns: TableColumn[];
+  primaryKey: string[]; // column names, in key order
+  indexes: TableIndex[];
+  checks: TableCheck[];
+  note?: string;
 }
 
+export type ReferentialAction = 'cascade' | 'restrict' | 'set null' | 'set default' | 'no action';
+
 export interface Relationship {
+  name?: string;
   from: string; // table.column
   to: string; // table.column
   type: string; // many-to-one, one-to-many, etc.
+  fromTable: string;
+  fromColumns: string[];
+  toTable: string;
+  toColumns: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+  junctionTable?: string; // many-to-many only
+}
+
+export interface DBMLEnum {
+  name: string;
+  values: string[];
 }
 
 export interface ParsedDBML {
   tables: Table[];
   relationships: Relationship[];
+  enums: DBMLEnum[];
+  diagnostics: Diagnostic[];
+}
+
+export interface DBMLAstResult {
+  ast: DBMLDocument;
+  diagnostics: Diagnostic[];
+}
+
+const RELATION_TYPES: Record<RefOperator, string> = {
+  '>': 'many-to-one',
+  '<': 'one-to-many',
+  '-': 'one-to-one',
+  '<>': 'many-to-many',
+};
+
+const REFERENTIAL_ACTIONS: ReferentialAction[] = ['cascade', 'restrict', 'set null', 'set default', 'no action'];
+
+const INDEX_METHODS: IndexMethod[] = ['btree', 'hash'];
+
+const SERIAL_TYPES: Record<string, string> = {
+  smallserial: 'smallint',
+  serial: 'integer',
+  bigserial: 'bigint',
+};
+
+const KNOWN_COLUMN_SETTINGS = new Set([
+  'pk',
+  'primary key',
+  'null',
+  'not null',
+  'unique',
+  'increment',
+  'default',
+  'note',
+  'ref',
+  'check',
+]);
+
+// Older schemas spell column checks as notes, e.g. [note: 'check: age > 0']
+const NOTE_CHECK_PATTERN = /^\s*check\s*:\s*(.+)$/is;
+
+/**
+ * Thrown internally to unwind to the nearest recovery point
+ */
+class ParseError extends Error {
+  constructor(message: string, public span: SourceSpan) {
+    super(message);
+  }
+}
+
+/**
+ * Recursive-descent parser over the token stream produced by tokenizeDBML
+ */
+class DBMLSyntaxParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private diagnostics: Diagnostic[]) {}
+
+  parseDocument(): DBMLDocument {
+    const elements: ElementNode[] = [];
+    const start = this.peek().span.start;
+
+    this.skipNewlines();
+    while (!this.isAtEnd()) {
+      try {
+        elements.push(this.parseElement());
+      } catch (error) {
+        this.report(error);
+        this.recoverTopLevel();
+      }
+      this.skipNewlines();
+    }
+
+    return { elements, span: { start, end: this.peek().span.end } };
+  }
+
+  private parseElement(): ElementNode {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw this.error(`Unexpected ${describe(token)}; expected Table, Ref, Enum, TableGroup, Project or Note`);
+    }
+
+    switch (token.value.toLowerCase()) {
+      case 'table':
+        return this.parseTable();
+      case 'ref':
+        return this.parseRef();
+      case 'enum':
+        return this.parseEnum();
+      case 'tablegroup':
+        return this.parseTableGroup();
+      case 'project':
+        return this.parseProject();
+      case 'note':
+        return this.parseNote();
+      default:
+        throw this.error(`Unknown element '${token.value}'; expected Table, Ref, Enum, TableGroup, Project or Note`);
+    }
+  }
+
+  private parseTable(): TableNode {
+    const keyword = this.advance();
+    const { schema, name } = this.parseQualifiedName('table name');
+
+    let alias: NameNode | undefined;
+    if (this.checkKeyword('as')) {
+      this.advance();
+      alias = this.parseName('table alias');
+    }
+
+    const settings = this.check('symbol', '[') ? this.parseSettings() : [];
+    this.expectSymbol('{');
+
+    const table: TableNode = {
+      kind: 'table',
+      schema,
+      name,
+      alias,
+      settings,
+      columns: [],
+      indexes: [],
+      checks: [],
+      span: keyword.span,
+    };
+
+    this.parseBlockLines(() => {
+      if (this.checkKeyword('note') && this.isNoteDefinition()) {
+        table.note = this.parseNote();
+      } else if (this.checkKeyword('indexes') && this.peekAt(1).type === 'symbol' && this.peekAt(1).value === '{') {
+        this.advance();
+        this.expectSymbol('{');
+        this.parseBlockLines(() => {
+          table.indexes.push(this.parseIndex());
+        });
+      } else if (this.checkKeyword('checks') && this.peekAt(1).type === 'symbol' && this.peekAt(1).value === '{') {
+        this.advance();
+        this.expectSymbol('{');
+        this.parseBlockLines(() => {
+          table.checks.push(this.parseCheck());
+        });
+      } else {
+        table.columns.push(this.parseColumn());
+      }
+    });
+
+    table.span = this.spanFrom(keyword.span);
+    return table;
+  }
+
+  private parseColumn(): ColumnNode {
+    const name = this.parseName('column name');
+    const type = this.parseColumnType();
+    const settings = this.check('symbol', '[') ? this.parseSettings() : [];
+    this.expectLineEnd();
+
+    return { kind: 'column', name, type, settings, span: this.spanFrom(name.span) };
+  }
+
+  private parseColumnType(): NameNode {
+    const first = this.peek();
+    if (first.type !== 'identifier' && first.type !== 'quoted') {
+      throw this.error(`Expected column type but found ${describe(first)}`);
+    }
+
+    let value = this.advance().value;
+    while (this.check('symbol', '.') && this.peekAt(1).type === 'identifier') {
+      this.advance();
+      value += `.${this.advance().value}`;
+    }
+
+    if (this.check('symbol', '(')) {
+      this.advance();
+      const args: string[] = [];
+      while (!this.check('symbol', ')')) {
+        const arg = this.peek();
+        if (arg.type !== 'number' && arg.type !== 'identifier' && arg.type !== 'string') {
+          throw this.error(`Unexpected ${describe(arg)} in type arguments`);
+        }
+        args.push(this.advance().value);
+        if (this.check('symbol', ',')) {
+          this.advance();
+        } else if (!this.check('symbol', ')')) {
+          throw this.error(`Expected ',' or ')' in type arguments but found ${describe(this.peek())}`);
+        }
+      }
+      this.advance();
+      value += `(${args.join(',')})`;
+    }
+
+    // Array types, e.g. int[] (as opposed to a settings list)
+    while (this.check('symbol', '[') && this.peekAt(1).type === 'symbol' && this.peekAt(1).value === ']') {
+      this.advance();
+      this.advance();
+      value += '[]';
+    }
+
+    return { value, span: this.spanFrom(first.span) };
+  }
+
+  private parseIndex(): IndexNode {
+    const start = this.peek().span;
+    const columns: IndexColumnNode[] = [];
+
+    if (this.check('symbol', '(')) {
+      this.advance();
+      this.skipNewlines();
+      columns.push(this.parseIndexColumn());
+      this.skipNewlines();
+      while (this.check('symbol', ',')) {
+        this.advance();
+        this.skipNewlines();
+        columns.push(this.parseIndexColumn());
+        this.skipNewlines();
+      }
+      this.expectSymbol(')');
+    } else {
+      columns.push(this.parseIndexColumn());
+    }
+
+    const settings = this.check('symbol', '[') ? this.parseSettings() : [];
+    this.expectLineEnd();
+
+    return { kind: 'index', columns, settings, span: this.spanFrom(start) };
+  }
+
+  private parseIndexColumn(): IndexColumnNode {
+    const token = this.peek();
+    if (token.type === 'expression') {
+      this.advance();
+      return { kind: 'expression', value: token.value, span: token.span };
+    }
+    const name = this.parseName('index column');
+    return { kind: 'column', value: name.value, span: name.span };
+  }
+
+  private parseCheck(): CheckNode {
+    const token = this.peek();
+    if (token.type !== 'expression') {
+      throw this.error(`Expected a check expression in backticks but found ${describe(token)}`);
+    }
+    this.advance();
+    const settings = this.check('symbol', '[') ? this.parseSettings() : [];
+    this.expectLineEnd();
+
+    return { kind: 'check', expression: token.value, settings, span: this.spanFrom(token.span) };
+  }
+
+  private parseRef(): RefNode {
+    const keyword = this.advance();
+    const name = this.peek().type === 'identifier' || this.peek().type === 'quoted' ? this.parseName('ref name') : undefined;
+
+    let ref: RefNode;
+    if (this.check('symbol', ':')) {
+      this.advance();
+      ref = this.parseRefBody(keyword.span, name);
+      this.expectLineEnd();
+    } else if (this.check('symbol', '{')) {
+      this.advance();
+      this.skipNewlines();
+      ref = this.parseRefBody(keyword.span, name);
+      this.skipNewlines();
+      this.expectSymbol('}');
+    } else {
+      throw this.error(`Expected ':' or '{' after Ref but found ${describe(this.peek())}`);
+    }
+
+    ref.span = this.spanFrom(keyword.span);
+    return ref;
+  }
+
+  private parseRefBody(start: SourceSpan, name?: NameNode): RefNode {
+    const from = this.parseRefEndpoint();
+    const operator = this.parseRefOperator();
+    const to = this.parseRefEndpoint();
+    const settings = this.check('symbol', '[') ? this.parseSettings() : [];
+
+    return { kind: 'ref', name, from, operator, to, settings, span: this.spanFrom(start) };
+  }
+
+  private parseRefOperator(): RefOperator {
+    const token = this.peek();
+    if (token.type === 'symbol' && (token.value === '>' || token.value === '<' || token.value === '-' || token.value === '<>')) {
+      this.advance();
+      return token.value;
+    }
+    throw this.error(`Expected relation operator (>, <, -, <>) but found ${describe(token)}`);
+  }
+
+  private parseRefEndpoint(): RefEndpointNode {
+    const start = this.peek().span;
+    const parts: string[] = [this.parseName('table name').value];
+    let columns: string[] | null = null;
+
+    while (this.check('symbol', '.')) {
+      this.advance();
+      if (this.check('symbol', '(')) {
+        this.advance();
+        columns = [this.parseName('column name').value];
+        while (this.check('symbol', ',')) {
+          this.advance();
+          columns.push(this.parseName('column name').value);
+        }
+        this.expectSymbol(')');
+        break;
+      }
+      parts.push(this.parseName('column name').value);
+    }
+
+    if (!columns) {
+      if (parts.length < 2) {
+        throw new ParseError(
+          `Expected a column reference in the form table.column but found '${parts.join('.')}'`,
+          this.spanFrom(start)
+        );
+      }
+      columns = [parts.pop() as string];
+    }
+
+    if (parts.length > 2) {
+      throw new ParseError(`Invalid reference '${parts.join('.')}'`, this.spanFrom(start));
+    }
+
+    const table = parts.pop() as string;
+    return { schema: parts.pop(), table, columns, span: this.spanFrom(start) };
+  }
+
+  private parseEnum(): EnumNode {
+    const keyword = this.advance();
+    const { schema, name } = this.parseQualifiedName('enum name');
+    this.expectSymbol('{');
+
+    // Values are usually one per line, but `enum status { draft published }` is accepted too
+    const values: EnumValueNode[] = [];
+    this.parseBlockLines(() => {
+      const valueName = this.parseName('enum value');
+      const settings = this.check('symbol', '[') ? this.parseSettings() : [];
+      values.push({ name: valueName, settings, span: this.spanFrom(valueName.span) });
+      if (this.check('symbol', ',')) this.advance();
+    });
+
+    return { kind: 'enum', schema, name, values, span: this.spanFrom(keyword.span) };
+  }
+
+  private parseTableGroup(): TableGroupNode {
+    const keyword = this.advance();
+    const name = this.parseName('table group name');
+    this.expectSymbol('{');
+
+    const tables: NameNode[] = [];
+    this.parseBlockLines(() => {
+      const { name: tableName } = this.parseQualifiedName('table name');
+      this.expectLineEnd();
+      tables.push(tableName);
+    });
+
+    return { kind: 'tableGroup', name, tables, span: this.spanFrom(keyword.span) };
+  }
+
+  private parseProject(): ProjectNode {
+    const keyword = this.advance();
+    const name = this.check('symbol', '{') ? undefined : this.parseName('project name');
+    this.expectSymbol('{');
+
+    const project: ProjectNode = { kind: 'project', name, settings: [], span: keyword.span };
+    this.parseBlockLines(() => {
+      if (this.checkKeyword('note') && this.isNoteDefinition()) {
+        project.note = this.parseNote();
+        return;
+      }
+      const key = this.parseName('project setting');
+      this.expectSymbol(':');
+      const value = this.parseSettingValue();
+      this.expectLineEnd();
+      project.settings.push({ name: key.value.toLowerCase(), value, span: this.spanFrom(key.span) });
+    });
+
+    project.span = this.spanFrom(keyword.span);
+    return project;
+  }
+
+  private parseNote(): NoteNode {
+    const keyword = this.advance();
+    const name = this.peek().type === 'identifier' || this.peek().type === 'quoted' ? this.parseName('note name') : undefined;
+
+    let value: string;
+    if (this.check('symbol', ':')) {
+      this.advance();
+      value = this.expectString();
+      this.expectLineEnd();
+    } else {
+      this.expectSymbol('{');
+      this.skipNewlines();
+      value = this.expectString();
+      this.skipNewlines();
+      this.expectSymbol('}');
+    }
+
+    return { kind: 'note', name, value, span: this.spanFrom(keyword.span) };
+  }
+
+  /**
+   * Parse `[setting, key: value, ...]`; newlines are allowed between settings
+   */
+  private parseSettings(): SettingNode[] {
+    this.expectSymbol('[');
+    const settings: SettingNode[] = [];
+    this.skipNewlines();
+
+    while (!this.check('symbol', ']')) {
+      const start = this.peek();
+      const words: string[] = [];
+      while (this.peek().type === 'identifier') {
+        words.push(this.advance().value.toLowerCase());
+      }
+      if (words.length === 0) {
+        throw this.error(`Expected a setting name but found ${describe(start)}`);
+      }
+
+      let value: ValueNode | undefined;
+      if (this.check('symbol', ':')) {
+        this.advance();
+        this.skipNewlines();
+        value = this.parseSettingValue();
+      }
+
+      settings.push({ name: words.join(' '), value, span: this.spanFrom(start.span) });
+      this.skipNewlines();
+
+      if (this.check('symbol', ',')) {
+        this.advance();
+        this.skipNewlines();
+      } else if (!this.check('symbol', ']')) {
+        throw this.error(`Expected ',' or ']' in settings but found ${describe(this.peek())}`);
+      }
+    }
+
+    this.advance();
+    return settings;
+  }
+
+  private parseSettingValue(): ValueNode {
+    const token = this.peek();
+
+    if (token.type === 'symbol' && (token.value === '>' || token.value === '<' || token.value === '<>')) {
+      const operator = this.parseRefOperator();
+      const endpoint = this.parseRefEndpoint();
+      return { kind: 'ref', value: `${operator} ${formatEndpoint(endpoint)}`, ref: { operator, endpoint }, span: this.spanFrom(token.span) };
+    }
+
+    if (token.type === 'symbol' && token.value === '-') {
+      this.advance();
+      if (this.peek().type === 'number') {
+        const number = this.advance();
+        return { kind: 'number', value: `-${number.value}`, span: this.spanFrom(token.span) };
+      }
+      const endpoint = this.parseRefEndpoint();
+      return { kind: 'ref', value: `- ${formatEndpoint(endpoint)}`, ref: { operator: '-', endpoint }, span: this.spanFrom(token.span) };
+    }
+
+    switch (token.type) {
+      case 'string':
+        this.advance();
+        return { kind: 'string', value: token.value, span: token.span };
+      case 'expression':
+        this.advance();
+        return { kind: 'expression', value: token.value, span: token.span };
+      case 'number':
+        this.advance();
+        return { kind: 'number', value: token.value, span: token.span };
+      case 'color':
+        this.advance();
+        return { kind: 'color', value: token.value, span: token.span };
+      case 'identifier': {
+        // Multi-word values such as "set null" or "no action"
+        const words: string[] = [];
+        while (this.peek().type === 'identifier') {
+          words.push(this.advance().value);
+        }
+        return { kind: 'identifier', value: words.join(' '), span: this.spanFrom(token.span) };
+      }
+      default:
+        throw this.error(`Expected a setting value but found ${describe(token)}`);
+    }
+  }
+
+  private parseQualifiedName(label: string): { schema?: NameNode; name: NameNode } {
+    const first = this.parseName(label);
+    if (this.check('symbol', '.')) {
+      this.advance();
+      return { schema: first, name: this.parseName(label) };
+    }
+    return { name: first };
+  }
+
+  private parseName(label: string): NameNode {
+    const token = this.peek();
+    if (token.type === 'identifier' || token.type === 'quoted') {
+      this.advance();
+      return { value: token.value, span: token.span };
+    }
+    throw this.error(`Expected ${label} but found ${describe(token)}`);
+  }
+
+  /**
+   * Parse newline separated lines until the closing '}' of the current block.
+   * A syntax error only discards the offending line.
+   */
+  private parseBlockLines(parseLine: () => void): void {
+    this.skipNewlines();
+    while (!this.check('symbol', '}')) {
+      if (this.isAtEnd()) {
+        throw this.error("Missing closing '}'");
+      }
+      try {
+        parseLine();
+      } catch (error) {
+        this.report(error);
+        this.recoverLine();
+      }
+      this.skipNewlines();
+    }
+    this.advance();
+  }
+
+  private isNoteDefinition(): boolean {
+    const next = this.peekAt(1);
+    return next.type === 'symbol' && (next.value === ':' || next.value === '{');
+  }
+
+  private expectString(): string {
+    const token = this.peek();
+    if (token.type !== 'string') {
+      throw this.error(`Expected a string but found ${describe(token)}`);
+    }
+    this.advance();
+    return token.value;
+  }
+
+  private expectSymbol(symbol: string): Token {
+    if (!this.check('symbol', symbol)) {
+      throw this.error(`Expected '${symbol}' but found ${describe(this.peek())}`);
+    }
+    return this.advance();
+  }
+
+  private expectLineEnd(): void {
+    const token = this.peek();
+    if (token.type === 'newline') {
+      this.advance();
+      return;
+    }
+    if (token.type === 'eof' || (token.type === 'symbol' && token.value === '}')) {
+      return;
+    }
+    throw this.error(`Unexpected ${describe(token)}; expected end of line`);
+  }
+
+  private recoverLine(): void {
+    let depth = 0;
+    while (!this.isAtEnd()) {
+      const token = this.peek();
+      if (token.type === 'symbol' && (token.value === '[' || token.value === '(' || token.value === '{')) depth++;
+      if (token.type === 'symbol' && (token.value === ']' || token.value === ')' || token.value === '}')) {
+        if (depth === 0 && token.value === '}') return;
+        depth = Math.max(0, depth - 1);
+      }
+      if (token.type === 'newline' && depth === 0) return;
+      this.advance();
+    }
+  }
+
+  private recoverTopLevel(): void {
+    let depth = 0;
+    while (!this.isAtEnd()) {
+      const token = this.advance();
+      if (token.type === 'symbol' && token.value === '{') depth++;
+      if (token.type === 'symbol' && token.value === '}') {
+        depth--;
+        if (depth <= 0) return;
+      }
+      if (token.type === 'newline' && depth === 0) return;
+    }
+  }
+
+  private report(error: unknown): void {
+    if (error instanceof ParseError) {
+      this.diagnostics.push(createDiagnostic('error', error.message, error.span));
+    } else {
+      throw error;
+    }
+  }
+
+  private error(message: string): ParseError {
+    return new ParseError(message, this.peek().span);
+  }
+
+  private spanFrom(start: SourceSpan): SourceSpan {
+    let index = Math.max(0, this.pos - 1);
+    while (index > 0 && this.tokens[index].type === 'newline') index--;
+    return { start: start.start, end: this.tokens[index].span.end };
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().type === 'newline') this.advance();
+  }
+
+  private check(type: Token['type'], value?: string): boolean {
+    const token = this.peek();
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  private checkKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.value.toLowerCase() === keyword;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private peekAt(distance: number): Token {
+    return this.tokens[Math.min(this.pos + distance, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.pos];
+    if (!this.isAtEnd()) this.pos++;
+    return token;
+  }
+
+  private isAtEnd(): boolean {
+    return this.peek().type === 'eof';
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of input';
+    case 'newline':
+      return 'end of line';
+    case 'string':
+      return 'string';
+    case 'expression':
+      return `expression \`${token.value}\``;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+function formatEndpoint(endpoint: RefEndpointNode): string {
+  const table = endpoint.schema ? `${endpoint.schema}.${endpoint.table}` : endpoint.table;
+  return endpoint.columns.length === 1 ? `${table}.${endpoint.columns[0]}` : `${table}.(${endpoint.columns.join(', ')})`;
+}
+
+/**
+ * Parse DBML code into a typed AST with source spans
+ */
+export function parseDBMLAst(dbml: string): DBMLAstResult {
+  const { tokens, diagnostics } = tokenizeDBML(dbml);
+  const ast = new DBMLSyntaxParser(tokens, diagnostics).parseDocument();
+  return { ast, diagnostics };
 }
 
 /**
  * Parse DBML code and extract table definitions
  */
 export function parseDBML(dbml: string): ParsedDBML {
+  const { ast, diagnostics } = parseDBMLAst(dbml);
   const tables: Table[] = [];
   const relationships: Relationship[] = [];
+  const enums = buildEnums(ast.elements.filter((el): el is EnumNode => el.kind === 'enum'), diagnostics);
 
-  // Remove comments
-  const cleaned = dbml.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+  const tableNodes = ast.elements.filter((el): el is TableNode => el.kind === 'table');
+  const tablesByName = new Map<string, TableNode>();
+  const checkNames = new Set<string>();
 
-  // Parse tables
-  const tableRegex = /Table\s+(\w+)\s*\{([^}]+)\}/g;
-  let tableMatch;
+  for (const node of tableNodes) {
+    if (tablesByName.has(node.name.value)) {
+      diagnostics.push(createDiagnostic('error', `Duplicate table '${node.name.value}'`, node.name.span));
+      continue;
+    }
+    if (node.schema && node.schema.value !== 'public') {
+      diagnostics.push(
+        createDiagnostic(
+          'warning',
+          `Schema '${node.schema.value}' is not supported; table '${node.name.value}' will be created in the default schema`,
+          node.schema.span
+        )
+      );
+    }
+    tablesByName.set(node.name.value, node);
+    if (node.alias) tablesByName.set(node.alias.value, node);
 
-  while ((tableMatch = tableRegex.exec(cleaned)) !== null) {
-    const tableName = tableMatch[1];
-    const tableBody = tableMatch[2];
     const columns: TableColumn[] = [];
 
-    // Parse columns
-    const columnLines = tableBody.split('\n').map(line => line.trim()).filter(line => line);
-    
-    for (const line of columnLines) {
-      // Match: column_name type [constraints]
-      const columnMatch = line.match(/^(\w+)\s+(\w+(?:\([^)]+\))?)\s*(?:\[([^\]]+)\])?/);
-      if (columnMatch) {
-        const [, name, type, constraintsStr] = columnMatch;
-        const isPrimaryKey = constraintsStr?.includes('primary key') || false;
-        const constraints: string[] = [];
-        
-        if (constraintsStr) {
-          // Extract note, check, etc.
-          const noteMatch = constraintsStr.match(/note:\s*['"]([^'"]+)['"]/);
-          if (noteMatch) {
-            constraints.push(`-- ${noteMatch[1]}`);
-          }
-        }
+    for (const col of node.columns) {
+      if (columns.some(existing => existing.name === col.name.value)) {
+        diagnostics.push(
+          createDiagnostic('error', `Duplicate column '${col.name.value}' in table '${node.name.value}'`, col.name.span)
+        );
+        continue;
+      }
+      columns.push(buildColumn(col, enums, diagnostics));
+    }
+
+    const primaryKey = resolvePrimaryKey(node, columns, diagnostics);
+    const indexes = buildIndexes(node, columns, diagnostics);
+    const checks = buildChecks(node, checkNames, diagnostics);
 
-        columns.push({
-          name,
-          type: mapDBMLTypeToSQLite(type),
-          isPrimaryKey,
-          constraints: constraints.length > 0 ? constraints : undefined,
+    if (columns.length > 0) {
+      tables.push({ name: node.name.value, columns, primaryKey, indexes, checks, note: resolveTableNote(node, diagnostics) });
+    } else {
+      diagnostics.push(createDiagnostic('warning', `Table '${node.name.value}' has no columns and will be skipped`, node.name.span));
+    }
+  }
+
+  // Standalone Refs plus inline `[ref: > users.id]` column settings
+  const refNodes = ast.elements.filter((el): el is RefNode => el.kind === 'ref');
+  for (const node of tableNodes) {
+    for (const col of node.columns) {
+      for (const setting of col.settings) {
+        if (setting.name !== 'ref') continue;
+        if (!setting.value?.ref) {
+          diagnostics.push(createDiagnostic('error', "Expected 'ref: > table.column'", setting.span));
+          continue;
+        }
+        refNodes.push({
+          kind: 'ref',
+          from: { table: node.name.value, columns: [col.name.value], span: col.name.span },
+          operator: setting.value.ref.operator,
+          to: setting.value.ref.endpoint,
+          settings: [],
+          span: setting.span,
         });
       }
     }
+  }
 
-    if (columns.length > 0) {
-      tables.push({ name: tableName, columns });
+  for (const ref of refNodes) {
+    const relationship = buildRelationship(ref, tablesByName, tables, diagnostics);
+    if (!relationship) continue;
+
+    const duplicate = relationships.some(
+      existing => existing.from === relationship.from && existing.to === relationship.to
+    );
+    if (duplicate) {
+      diagnostics.push(
+        createDiagnostic('warning', `Duplicate reference ${relationship.from} -> ${relationship.to} is ignored`, ref.span)
+      );
+      continue;
+    }
+
+    relationships.push(relationship);
+    if (relationship.type === 'many-to-many') {
+      addJunctionTable(relationship, ref, tables, relationships, diagnostics);
     }
   }
 
-  // Parse relationships
-  const refRegex = /Ref:\s*(\w+)\.(\w+)\s*>\s*(\w+)\.(\w+)\s*(?:\/\/\s*(.+))?/g;
-  let refMatch;
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { tables, relationships, enums, diagnostics };
+}
 
-  while ((refMatch = refRegex.exec(cleaned)) !== null) {
-    relationships.push({
-      from: `${refMatch[1]}.${refMatch[2]}`,
-      to: `${refMatch[3]}.${refMatch[4]}`,
-      type: refMatch[5]?.trim() || 'many-to-one',
-    });
+function buildEnums(nodes: EnumNode[], diagnostics: Diagnostic[]): DBMLEnum[] {
+  const enums: DBMLEnum[] = [];
+
+  for (const node of nodes) {
+    if (enums.some(e => e.name === node.name.value)) {
+      diagnostics.push(createDiagnostic('error', `Duplicate enum '${node.name.value}'`, node.name.span));
+      continue;
+    }
+
+    const values: string[] = [];
+    for (const value of node.values) {
+      if (values.includes(value.name.value)) {
+        diagnostics.push(
+          createDiagnostic('error', `Duplicate value '${value.name.value}' in enum '${node.name.value}'`, value.name.span)
+        );
+        continue;
+      }
+      values.push(value.name.value);
+    }
+
+    if (values.length === 0) {
+      diagnostics.push(createDiagnostic('error', `Enum '${node.name.value}' has no values`, node.name.span));
+      continue;
+    }
+
+    enums.push({ name: node.name.value, values });
+  }
+
+  return enums;
+}
+
+/**
+ * Build the column model from its DBML settings
+ */
+function buildColumn(col: ColumnNode, enums: DBMLEnum[], diagnostics: Diagnostic[]): TableColumn {
+  // Enum types may be written schema-qualified, e.g. public.status
+  const enumType = enums.find(e => e.name === col.type.value || `public.${e.name}` === col.type.value);
+  const serialType = SERIAL_TYPES[col.type.value.toLowerCase()];
+  const column: TableColumn = {
+    name: col.name.value,
+    type: enumType ? enumType.name : serialType ?? col.type.value,
+    isPrimaryKey: false,
+    isNotNull: false,
+    isUnique: false,
+    isAutoIncrement: Boolean(serialType), // serial is shorthand for an auto-incrementing integer
+    enumType: enumType?.name,
+  };
+  let explicitNull: SettingNode | undefined;
+
+  for (const setting of col.settings) {
+    switch (setting.name) {
+      case 'pk':
+      case 'primary key':
+        column.isPrimaryKey = true;
+        break;
+      case 'not null':
+        column.isNotNull = true;
+        break;
+      case 'null':
+        explicitNull = setting;
+        break;
+      case 'unique':
+        column.isUnique = true;
+        break;
+      case 'increment':
+        column.isAutoIncrement = true;
+        if (!isIntegerType(col.type.value)) {
+          diagnostics.push(
+            createDiagnostic('error', `'increment' requires an integer column, but '${col.name.value}' is ${col.type.value}`, setting.span)
+          );
+        }
+        break;
+      case 'default': {
+        const defaultValue = setting.value && toColumnDefault(setting.value);
+        if (defaultValue) {
+          column.defaultValue = defaultValue;
+        } else {
+          diagnostics.push(
+            createDiagnostic('error', "'default' expects a string, number, true, false, null or `expression`", setting.span)
+          );
+        }
+        break;
+      }
+      case 'note':
+        if (setting.value?.kind === 'string') {
+          // 'check: ...' notes become constraints in buildChecks instead of comments
+          if (!NOTE_CHECK_PATTERN.test(setting.value.value)) column.note = setting.value.value;
+        } else {
+          diagnostics.push(createDiagnostic('error', "'note' expects a string", setting.span));
+        }
+        break;
+      default:
+        if (!KNOWN_COLUMN_SETTINGS.has(setting.name)) {
+          diagnostics.push(createDiagnostic('warning', `Unknown column setting '${setting.name}'`, setting.span));
+        }
+    }
+  }
+
+  if (explicitNull && (column.isNotNull || column.isPrimaryKey)) {
+    diagnostics.push(
+      createDiagnostic('error', `Column '${col.name.value}' cannot be both nullable and not null`, explicitNull.span)
+    );
+  }
+
+  if (enumType && column.defaultValue?.kind === 'string' && !enumType.values.includes(column.defaultValue.value)) {
+    diagnostics.push(
+      createDiagnostic(
+        'error',
+        `Default '${column.defaultValue.value}' is not a value of enum '${enumType.name}' (${enumType.values.join(', ')})`,
+        col.name.span
+      )
+    );
+  }
+
+  if (column.isAutoIncrement && column.defaultValue) {
+    diagnostics.push(
+      createDiagnostic('error', `Column '${col.name.value}' cannot have both 'increment' and 'default'`, col.name.span)
+    );
+  }
+
+  return column;
+}
+
+function toColumnDefault(value: ValueNode): ColumnDefault | null {
+  switch (value.kind) {
+    case 'string':
+    case 'number':
+    case 'expression':
+      return { kind: value.kind, value: value.value };
+    case 'identifier': {
+      const word = value.value.toLowerCase();
+      if (word === 'true' || word === 'false') return { kind: 'boolean', value: word };
+      if (word === 'null') return { kind: 'null', value: word };
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Collect the primary key from column settings or an `indexes { (a, b) [pk] }` entry
+ */
+function resolvePrimaryKey(node: TableNode, columns: TableColumn[], diagnostics: Diagnostic[]): string[] {
+  let primaryKey = columns.filter(col => col.isPrimaryKey).map(col => col.name);
+
+  if (primaryKey.length > 1) {
+    diagnostics.push(
+      createDiagnostic(
+        'error',
+        `Table '${node.name.value}' marks several columns as pk; use indexes { (${primaryKey.join(', ')}) [pk] } for a composite key`,
+        node.name.span
+      )
+    );
   }
 
-  return { tables, relationships };
+  for (const index of node.indexes) {
+    if (!index.settings.some(s => s.name === 'pk' || s.name === 'primary key')) continue;
+
+    if (primaryKey.length > 0) {
+      diagnostics.push(createDiagnostic('error', `Table '${node.name.value}' has more than one primary key`, index.span));
+      continue;
+    }
+
+    const keyColumns: string[] = [];
+    for (const indexColumn of index.columns) {
+      if (indexColumn.kind === 'expression') {
+        diagnostics.push(createDiagnostic('error', 'A primary key cannot contain expressions', indexColumn.span));
+      } else if (!columns.some(col => col.name === indexColumn.value)) {
+        diagnostics.push(
+          createDiagnostic('error', `Unknown column '${indexColumn.value}' in table '${node.name.value}'`, indexColumn.span)
+        );
+      } else {
+        keyColumns.push(indexColumn.value);
+      }
+    }
+
+    if (keyColumns.length === index.columns.length) {
+      primaryKey = keyColumns;
+    }
+  }
+
+  for (const col of columns) {
+    if (primaryKey.includes(col.name)) col.isPrimaryKey = true;
+  }
+
+  return primaryKey;
 }
 
 /**
- * Map DBML types to SQLite types
+ * A table note comes from a `Note: '...'` line in its body or a `[note: '...']` table setting
  */
-function mapDBMLTypeToSQLite(dbmlType: string): string {
-  const type = dbmlType.toLowerCase();
-  
-  if (type.includes('varchar') || type.includes('char')) {
-    const match = type.match(/varchar\((\d+)\)/);
-    return match ? `VARCHAR(${match[1]})` : 'TEXT';
-  }
-  
-  if (type === 'text') return 'TEXT';
-  if (type === 'integer' || type === 'int') return 'INTEGER';
-  if (type === 'real' || type === 'float' || type === 'double') return 'REAL';
-  if (type === 'boolean' || type === 'bool') return 'INTEGER'; // SQLite uses INTEGER for boolean
-  if (type === 'date') return 'TEXT'; // SQLite uses TEXT for dates
-  if (type === 'datetime' || type === 'timestamp') return 'TEXT';
-  
-  return 'TEXT'; // Default
+function resolveTableNote(node: TableNode, diagnostics: Diagnostic[]): string | undefined {
+  const setting = node.settings.find(s => s.name === 'note');
+  if (setting && node.note) {
+    diagnostics.push(createDiagnostic('warning', `Table '${node.name.value}' has two notes; the Note block wins`, setting.span));
+  }
+  if (node.note) return node.note.value;
+  return setting?.value?.kind === 'string' ? setting.value.value : undefined;
 }
 
 /**
- * Generate SQL CREATE TABLE statements from parsed DBML
+ * Build secondary indexes from the `indexes { ... }` block (pk entries are handled by resolvePrimaryKey)
  */
-export function generateSQLSchema(parsed: ParsedDBML): string[] {
-  const statements: string[] = [];
+function buildIndexes(node: TableNode, columns: TableColumn[], diagnostics: Diagnostic[]): TableIndex[] {
+  const indexes: TableIndex[] = [];
+
+  for (const indexNode of node.indexes) {
+    if (indexNode.settings.some(s => s.name === 'pk' || s.name === 'primary key')) continue;
+
+    const index: TableIndex = {
+      columns: indexNode.columns.map(col => ({ kind: col.kind, value: col.value })),
+      unique: false,
+    };
+    let valid = true;
 
-  for (const table of parsed.tables) {
-    const columns: string[] = [];
-    
-    for (const col of table.columns) {
-      let colDef = `${col.name} ${col.type}`;
-      if (col.isPrimaryKey) {
-        colDef += ' PRIMARY KEY';
+    for (const indexColumn of indexNode.columns) {
+      if (indexColumn.kind === 'column' && !columns.some(col => col.name === indexColumn.value)) {
+        diagnostics.push(
+          createDiagnostic('error', `Unknown column '${indexColumn.value}' in table '${node.name.value}'`, indexColumn.span)
+        );
+        valid = false;
       }
-      columns.push(colDef);
     }
 
-    const createTableSQL = `CREATE TABLE IF NOT EXISTS ${table.name} (\n  ${columns.join(',\n  ')}\n);`;
-    statements.push(createTableSQL);
+    for (const setting of indexNode.settings) {
+      switch (setting.name) {
+        case 'unique':
+          index.unique = true;
+          break;
+        case 'name':
+          if (setting.value?.kind === 'string') {
+            index.name = setting.value.value;
+          } else {
+            diagnostics.push(createDiagnostic('error', "'name' expects a string, e.g. name: 'idx_users_email'", setting.span));
+          }
+          break;
+        case 'type': {
+          const method = setting.value?.value.toLowerCase() as IndexMethod | undefined;
+          if (method && INDEX_METHODS.includes(method)) {
+            index.type = method;
+          } else {
+            diagnostics.push(createDiagnostic('error', `'type' expects one of: ${INDEX_METHODS.join(', ')}`, setting.span));
+          }
+          break;
+        }
+        case 'note':
+          break;
+        default:
+          diagnostics.push(createDiagnostic('warning', `Unknown index setting '${setting.name}'`, setting.span));
+      }
+    }
+
+    if (index.type === 'hash' && (index.unique || index.columns.length > 1)) {
+      diagnostics.push(
+        createDiagnostic('error', 'Hash indexes cannot be unique and only support a single column', indexNode.span)
+      );
+      valid = false;
+    }
+
+    if (valid) indexes.push(index);
+  }
+
+  return indexes;
+}
+
+/**
+ * Collect CHECK constraints from the `checks { ... }` block, `[check: `expr`]`
+ * column settings and legacy `[note: 'check: expr']` notes
+ */
+function buildChecks(node: TableNode, usedNames: Set<string>, diagnostics: Diagnostic[]): TableCheck[] {
+  const checks: TableCheck[] = [];
+  const tableName = node.name.value;
+
+  const addCheck = (expression: string, baseName: string, column?: string): void => {
+    let name = baseName;
+    let suffix = 2;
+    while (usedNames.has(name)) name = `${baseName}_${suffix++}`;
+    usedNames.add(name);
+    checks.push({ name, expression: expression.trim(), column });
+  };
+
+  for (const col of node.columns) {
+    for (const setting of col.settings) {
+      const value = setting.value;
+      if (setting.name === 'check') {
+        if (value?.kind === 'expression' && value.value.trim()) {
+          addCheck(value.value, `${tableName}_${col.name.value}_check`, col.name.value);
+        } else {
+          diagnostics.push(createDiagnostic('error', "'check' expects an expression in backticks, e.g. check: `age > 0`", setting.span));
+        }
+      } else if (setting.name === 'note' && value?.kind === 'string') {
+        const match = NOTE_CHECK_PATTERN.exec(value.value);
+        if (match) addCheck(match[1], `${tableName}_${col.name.value}_check`, col.name.value);
+      }
+    }
   }
 
-  return statements;
+  for (const checkNode of node.checks) {
+    let name: string | undefined;
+    for (const setting of checkNode.settings) {
+      if (setting.name === 'name' && setting.value?.kind === 'string') {
+        name = setting.value.value;
+      } else if (setting.name === 'name') {
+        diagnostics.push(createDiagnostic('error', "Check 'name' expects a string", setting.span));
+      } else {
+        diagnostics.push(createDiagnostic('warning', `Unknown check setting '${setting.name}'`, setting.span));
+      }
+    }
+
+    if (!checkNode.expression.trim()) {
+      diagnostics.push(createDiagnostic('error', 'Check expression is empty', checkNode.span));
+    } else if (name && usedNames.has(name)) {
+      diagnostics.push(createDiagnostic('error', `Duplicate check name '${name}'`, checkNode.span));
+    } else {
+      addCheck(checkNode.expression, name ?? `${tableName}_check`);
+    }
+  }
+
+  return checks;
+}
+
+function isIntegerType(dbmlType: string): boolean {
+  return /^(int|integer|int2|int4|int8|smallint|bigint|tinyint|mediumint|serial|bigserial|smallserial)$/i.test(dbmlType);
 }
 
+function buildRelationship(
+  ref: RefNode,
+  tablesByName: Map<string, TableNode>,
+  tables: Table[],
+  diagnostics: Diagnostic[]
+): Relationship | null {
+  const from = resolveEndpoint(ref.from, tablesByName, diagnostics);
+  const to = resolveEndpoint(ref.to, tablesByName, diagnostics);
+  if (!from || !to) return null;
+
+  if (ref.from.columns.length !== ref.to.columns.length) {
+    diagnostics.push(
+      createDiagnostic('error', 'Both sides of a reference must have the same number of columns', ref.span)
+    );
+    return null;
+  }
+
+  const relationship: Relationship = {
+    name: ref.name?.value,
+    from: `${from}.${ref.from.columns.join(',')}`,
+    to: `${to}.${ref.to.columns.join(',')}`,
+    type: RELATION_TYPES[ref.operator],
+    fromTable: from,
+    fromColumns: ref.from.columns,
+    toTable: to,
+    toColumns: ref.to.columns,
+  };
+
+  for (const setting of ref.settings) {
+    if (setting.name === 'delete' || setting.name === 'update') {
+      const action = setting.value?.value.toLowerCase() as ReferentialAction | undefined;
+      if (!action || !REFERENTIAL_ACTIONS.includes(action)) {
+        diagnostics.push(
+          createDiagnostic('error', `'${setting.name}' expects one of: ${REFERENTIAL_ACTIONS.join(', ')}`, setting.span)
+        );
+      } else if (setting.name === 'delete') {
+        relationship.onDelete = action;
+      } else {
+        relationship.onUpdate = action;
+      }
+    } else if (setting.name !== 'color') {
+      diagnostics.push(createDiagnostic('warning', `Unknown reference setting '${setting.name}'`, setting.span));
+    }
+  }
+
+  // The referenced side of a foreign key must be unique; a junction table references both sides
+  if (ref.operator === '<>') {
+    for (const [table, columns] of [[from, ref.from.columns], [to, ref.to.columns]] as const) {
+      const side = tables.find(t => t.name === table);
+      if (side && !isUniqueKey(side, columns)) {
+        diagnostics.push(
+          createDiagnostic(
+            'error',
+            `Columns ${table}.(${columns.join(', ')}) of a many-to-many reference must be a primary key or unique`,
+            ref.span
+          )
+        );
+        return null;
+      }
+    }
+  } else {
+    const [parentTable, parentColumns] = ref.operator === '<' ? [from, ref.from.columns] : [to, ref.to.columns];
+    const parent = tables.find(t => t.name === parentTable);
+    if (parent && !isUniqueKey(parent, parentColumns)) {
+      diagnostics.push(
+        createDiagnostic(
+          'error',
+          `Referenced columns ${parentTable}.(${parentColumns.join(', ')}) must be a primary key or unique`,
+          ref.operator === '<' ? ref.from.span : ref.to.span
+        )
+      );
+      return null;
+    }
+  }
+
+  return relationship;
+}
+
+/**
+ * Whether the columns are the table's primary key, a unique column or a unique index
+ */
+export function isUniqueKey(table: Table, columns: string[]): boolean {
+  if (table.primaryKey.length === columns.length && columns.every(col => table.primaryKey.includes(col))) {
+    return true;
+  }
+  if (columns.length === 1 && table.columns.some(col => col.name === columns[0] && col.isUnique)) {
+    return true;
+  }
+  return table.indexes.some(
+    index =>
+      index.unique &&
+      index.columns.length === columns.length &&
+      index.columns.every(col => col.kind === 'column' && columns.includes(col.value))
+  );
+}
+
+/**
+ * Model a many-to-many Ref as a junction table holding a foreign key to each side
+ */
+function addJunctionTable(
+  relationship: Relationship,
+  ref: RefNode,
+  tables: Table[],
+  relationships: Relationship[],
+  diagnostics: Diagnostic[]
+): void {
+  const name = `${relationship.fromTable}_${relationship.toTable}`;
+  if (tables.some(t => t.name === name)) {
+    diagnostics.push(
+      createDiagnostic('error', `Cannot create junction table '${name}' for a many-to-many reference: table already exists`, ref.span)
+    );
+    return;
+  }
+
+  const sides = [
+    { table: relationship.fromTable, columns: relationship.fromColumns },
+    { table: relationship.toTable, columns: relationship.toColumns },
+  ];
+  const junction: Table = { name, columns: [], primaryKey: [], indexes: [], checks: [] };
+
+  for (const side of sides) {
+    const source = tables.find(t => t.name === side.table) as Table;
+    const junctionColumns: string[] = [];
+
+    for (const column of side.columns) {
+      const sourceColumn = source.columns.find(col => col.name === column) as TableColumn;
+      let junctionColumn = `${side.table}_${column}`;
+      // Self-referencing many-to-many needs distinct column names
+      while (junction.columns.some(col => col.name === junctionColumn)) junctionColumn += '_2';
+
+      junction.columns.push({
+        name: junctionColumn,
+        type: sourceColumn.type,
+        isPrimaryKey: true,
+        isNotNull: true,
+        isUnique: false,
+        isAutoIncrement: false,
+      });
+      junction.primaryKey.push(junctionColumn);
+      junctionColumns.push(junctionColumn);
+    }
+
+    relationships.push({
+      from: `${name}.${junctionColumns.join(',')}`,
+      to: `${side.table}.${side.columns.join(',')}`,
+      type: RELATION_TYPES['>'],
+      fromTable: name,
+      fromColumns: junctionColumns,
+      toTable: side.table,
+      toColumns: side.columns,
+      onDelete: relationship.onDelete ?? 'cascade',
+      onUpdate: relationship.onUpdate,
+    });
+  }
+
+  relationship.junctionTable = name;
+  tables.push(junction);
+}
+
+/**
+ * Check that a Ref endpoint points at an existing table and columns.
+ * Returns the canonical table name (aliases resolved) or null.
+ */
+function resolveEndpoint(
+  endpoint: RefEndpointNode,
+  tablesByName: Map<string, TableNode>,
+  diagnostics: Diagnostic[]
+): string | null {
+  const table = tablesByName.get(endpoint.table);
+  if (!table) {
+    diagnostics.push(createDiagnostic('error', `Unknown table '${endpoint.table}' in reference`, endpoint.span));
+    return null;
+  }
+
+  for (const column of endpoint.columns) {
+    if (!table.columns.some(col => col.name.value === column)) {
+      diagnostics.push(
+        createDiagnostic('error', `Unknown column '${column}' in table '${table.name.value}'`, endpoint.span)
+      );
+      return null;
+    }
+  }
+
+  return table.name.value;
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { parseDBML } from './dbmlParser';
+import { diffSchemas } from './schemaDiff';
+
+const USERS = `
+  Table users {
+    id int [pk]
+    email varchar(255)
+  }
+`;
+
+describe('diffSchemas', () => {
+  it('returns nothing for an unchanged schema', () => {
+    expect(diffSchemas(parseDBML(USERS), parseDBML(USERS))).toEqual([]);
+  });
+
+  it('ignores formatting and comments', () => {
+    const reformatted = `
+      // the same table
+      Table users {
+        id   int [pk]
+        email varchar(255) // login
+      }
+    `;
+
+    expect(diffSchemas(parseDBML(USERS), parseDBML(reformatted))).toEqual([]);
+  });
+
+  it('adds, drops and retypes columns', () => {
+    const next = parseDBML(`
+      Table users {
+        id bigint [pk]
+        name text [not null]
+      }
+    `);
+
+    expect(diffSchemas(parseDBML(USERS), next)).toEqual([
+      'ALTER TABLE "users" DROP COLUMN IF EXISTS "email";',
+      'ALTER TABLE "users" ALTER COLUMN "id" TYPE BIGINT USING "id"::text::BIGINT;',
+      'ALTER TABLE "users" ADD COLUMN "name" TEXT NOT NULL;',
+    ]);
+  });
+
+  it('changes constraints, defaults and notes in place', () => {
+    const next = parseDBML(`
+      Table users {
+        id int [pk]
+        email varchar(255) [unique, not null, default: 'none', note: 'login']
+      }
+    `);
+
+    expect(diffSchemas(parseDBML(USERS), next)).toEqual([
+      `ALTER TABLE "users" ALTER COLUMN "email" SET DEFAULT 'none';`,
+      'ALTER TABLE "users" ALTER COLUMN "email" SET NOT NULL;',
+      'ALTER TABLE "users" ADD CONSTRAINT "users_email_key" UNIQUE ("email");',
+      `COMMENT ON COLUMN "users"."email" IS 'login';`,
+    ]);
+  });
+
+  it('creates new tables with their foreign keys last and drops removed ones', () => {
+    const previous = parseDBML(`${USERS}
+      Table drafts {
+        id int [pk]
+      }
+    `);
+    const next = parseDBML(`${USERS}
+      Table posts {
+        id int [pk]
+        author_id int [ref: > users.id]
+      }
+    `);
+
+    expect(diffSchemas(previous, next)).toEqual([
+      'DROP TABLE IF EXISTS "drafts" CASCADE;',
+      ['CREATE TABLE IF NOT EXISTS "posts" (', '  "id" INTEGER PRIMARY KEY,', '  "author_id" INTEGER', ');'].join('\n'),
+      'ALTER TABLE "posts" ADD CONSTRAINT "fk_posts_author_id" FOREIGN KEY ("author_id") REFERENCES "users" ("id");',
+    ]);
+  });
+
+  it('rebuilds foreign keys whose columns change type', () => {
+    const schema = (type: string): string => `
+      Table users {
+        id ${type} [pk]
+      }
+
+      Table posts {
+        id int [pk]
+        author_id ${type} [ref: > users.id]
+      }
+    `;
+
+    const statements = diffSchemas(parseDBML(schema('int')), parseDBML(schema('bigint')));
+
+    expect(statements[0]).toBe('ALTER TABLE "posts" DROP CONSTRAINT IF EXISTS "fk_posts_author_id";');
+    expect(statements[statements.length - 1]).toBe(
+      'ALTER TABLE "posts" ADD CONSTRAINT "fk_posts_author_id" FOREIGN KEY ("author_id") REFERENCES "users" ("id");'
+    );
+  });
+
+  it('recreates an enum whose values change and drops the old type', () => {
+    const schema = (values: string): string => `
+      Enum status {
+        ${values}
+      }
+
+      Table users {
+        id int [pk]
+        status status
+      }
+    `;
+
+    expect(diffSchemas(parseDBML(schema('active\ngone')), parseDBML(schema('active\nbanned')))).toEqual([
+      'ALTER TYPE "status" RENAME TO "status__previous";',
+      `CREATE TYPE "status" AS ENUM ('active', 'banned');`,
+      'ALTER TABLE "users" ALTER COLUMN "status" TYPE "status" USING "status"::text::"status";',
+      'DROP TYPE IF EXISTS "status__previous";',
+    ]);
+  });
+
+  it('replaces indexes that change', () => {
+    const schema = (settings: string): string => `
+      Table users {
+        id int [pk]
+        email varchar(255)
+
+        indexes {
+          email [${settings}]
+        }
+      }
+    `;
+
+    const previous = parseDBML(schema("name: 'users_email'"));
+    const next = parseDBML(schema("name: 'users_email', unique"));
+
+    expect(diffSchemas(previous, next)).toEqual([
+      'DROP INDEX IF EXISTS "users_email";',
+      'CREATE UNIQUE INDEX "users_email" ON "users" ("email");',
+    ]);
+  });
+});
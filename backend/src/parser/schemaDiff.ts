@@ -0,0 +1,242 @@
+/**
+ * Schema Diff - Postgres statements that migrate one parsed DBML model to another
+ */
+
+import { ParsedDBML, Table, TableColumn } from './dbmlParser';
+import {
+  ForeignKey,
+  NamedIndex,
+  SchemaOptions,
+  nameSchemaObjects,
+  renderColumnDefinition,
+  renderForeignKey,
+  renderTableStatements,
+} from './schemaGenerator';
+import { getDialect } from '../dialects';
+
+const dialect = getDialect('postgres');
+const q = (name: string): string => dialect.quoteIdentifier(name);
+
+/**
+ * Statements that turn a database created from `previous` into one matching `next`.
+ *
+ * The statements assume the tables hold no rows: the sandbox truncates before
+ * migrating and reseeds afterwards. That is what lets every type change be a
+ * cast through text and NOT NULL columns be added without defaults. Run them in
+ * one transaction; Postgres rejecting any of them means the change needs a
+ * fresh database instead.
+ */
+export function diffSchemas(
+  previous: ParsedDBML,
+  next: ParsedDBML,
+  previousOptions: SchemaOptions = {},
+  nextOptions: SchemaOptions = {}
+): string[] {
+  const before = nameSchemaObjects(previous, dialect, previousOptions);
+  const after = nameSchemaObjects(next, dialect, nextOptions);
+
+  const previousTables = new Map(previous.tables.map(t => [t.name, t]));
+  const nextTables = new Map(next.tables.map(t => [t.name, t]));
+  const droppedTables = previous.tables.filter(t => !nextTables.has(t.name));
+  const createdTables = next.tables.filter(t => !previousTables.has(t.name));
+  const keptTables = next.tables.filter(t => previousTables.has(t.name));
+
+  const previousEnums = new Map(previous.enums.map(e => [e.name, e]));
+  const nextEnums = new Set(next.enums.map(e => e.name));
+  const changedEnums = new Set(
+    next.enums
+      .filter(e => previousEnums.has(e.name) && previousEnums.get(e.name)?.values.join('\n') !== e.values.join('\n'))
+      .map(e => e.name)
+  );
+
+  // Columns whose type changes and tables whose keys are rebuilt; constraints
+  // depending on them are dropped and added again even if they look the same
+  const retypedColumns = new Set<string>();
+  const rekeyedTables = new Set<string>();
+  for (const table of keptTables) {
+    const old = previousTables.get(table.name) as Table;
+    if (old.primaryKey.join() !== table.primaryKey.join()) rekeyedTables.add(table.name);
+    for (const col of table.columns) {
+      const oldCol = old.columns.find(c => c.name === col.name);
+      if (!oldCol) continue;
+      if (oldCol.isUnique !== col.isUnique) rekeyedTables.add(table.name);
+      if (columnType(previous, oldCol) !== columnType(next, col) || (col.enumType && changedEnums.has(col.enumType))) {
+        retypedColumns.add(`${table.name}.${col.name}`);
+      }
+    }
+  }
+
+  const indexKey = (index: NamedIndex): string =>
+    JSON.stringify([index.name, index.table, index.index.columns, index.index.unique, index.index.type ?? null]);
+  const nextIndexKeys = new Set(after.indexes.map(indexKey));
+  const keptIndexKeys = new Set(
+    before.indexes
+      .filter(index => nextIndexKeys.has(indexKey(index)) && nextTables.has(index.table))
+      .map(indexKey)
+  );
+  for (const index of before.indexes) {
+    if (index.index.unique && !keptIndexKeys.has(indexKey(index))) rekeyedTables.add(index.table);
+  }
+
+  const foreignKeyKey = (fk: ForeignKey): string =>
+    JSON.stringify([fk.name, fk.table, fk.columns, fk.refTable, fk.refColumns, fk.onDelete ?? null, fk.onUpdate ?? null, fk.deferrable]);
+  const isStable = (fk: ForeignKey): boolean =>
+    previousTables.has(fk.table) &&
+    previousTables.has(fk.refTable) &&
+    !rekeyedTables.has(fk.refTable) &&
+    !fk.columns.some(col => retypedColumns.has(`${fk.table}.${col}`)) &&
+    !fk.refColumns.some(col => retypedColumns.has(`${fk.refTable}.${col}`));
+  const nextForeignKeyKeys = new Set(after.foreignKeys.map(foreignKeyKey));
+  const keptForeignKeyKeys = new Set(
+    before.foreignKeys
+      .filter(fk => nextForeignKeyKeys.has(foreignKeyKey(fk)) && nextTables.has(fk.table) && nextTables.has(fk.refTable) && isStable(fk))
+      .map(foreignKeyKey)
+  );
+
+  const statements: string[] = [];
+
+  for (const fk of before.foreignKeys.filter(fk => !keptForeignKeyKeys.has(foreignKeyKey(fk)) && nextTables.has(fk.table))) {
+    statements.push(`ALTER TABLE ${q(fk.table)} DROP CONSTRAINT IF EXISTS ${q(fk.name)};`);
+  }
+  for (const index of before.indexes.filter(index => !keptIndexKeys.has(indexKey(index)) && nextTables.has(index.table))) {
+    statements.push(`DROP INDEX IF EXISTS ${q(index.name)};`);
+  }
+  for (const table of droppedTables) {
+    statements.push(`DROP TABLE IF EXISTS ${q(table.name)} CASCADE;`);
+  }
+
+  // Enum values cannot be removed or reordered in place, so changed enums are
+  // created again and their columns moved over
+  for (const enumDef of next.enums) {
+    if (changedEnums.has(enumDef.name)) {
+      statements.push(`ALTER TYPE ${q(enumDef.name)} RENAME TO ${q(retiredEnumName(enumDef.name))};`);
+    }
+    if (!previousEnums.has(enumDef.name) || changedEnums.has(enumDef.name)) {
+      statements.push(dialect.createEnumType(enumDef) as string);
+    }
+  }
+
+  for (const table of keptTables) {
+    statements.push(...diffTable(next, previousTables.get(table.name) as Table, table, retypedColumns));
+  }
+
+  for (const table of createdTables) {
+    statements.push(...renderTableStatements(next, table, dialect, after.foreignKeys));
+  }
+
+  for (const enumDef of previous.enums) {
+    if (changedEnums.has(enumDef.name)) {
+      statements.push(`DROP TYPE IF EXISTS ${q(retiredEnumName(enumDef.name))};`);
+    } else if (!nextEnums.has(enumDef.name)) {
+      statements.push(`DROP TYPE IF EXISTS ${q(enumDef.name)};`);
+    }
+  }
+
+  for (const { table, name, index } of after.indexes.filter(index => !keptIndexKeys.has(indexKey(index)))) {
+    const statement = dialect.renderIndex(table, name, index);
+    if (statement) statements.push(statement);
+  }
+  for (const fk of after.foreignKeys.filter(fk => !keptForeignKeyKeys.has(foreignKeyKey(fk)))) {
+    statements.push(`ALTER TABLE ${q(fk.table)} ADD CONSTRAINT ${q(fk.name)} ${renderForeignKey(fk, dialect)};`);
+  }
+
+  return statements;
+}
+
+/**
+ * Columns, keys, checks and comments of a table present on both sides
+ */
+function diffTable(next: ParsedDBML, old: Table, table: Table, retypedColumns: Set<string>): string[] {
+  const statements: string[] = [];
+  const alter = (clause: string): void => {
+    statements.push(`ALTER TABLE ${q(table.name)} ${clause};`);
+  };
+  const oldColumns = new Map(old.columns.map(col => [col.name, col]));
+  const newColumns = new Map(table.columns.map(col => [col.name, col]));
+  const primaryKeyChanged = old.primaryKey.join() !== table.primaryKey.join();
+
+  const newChecks = new Map(table.checks.map(check => [check.name, check.expression]));
+  const oldChecks = new Map(old.checks.map(check => [check.name, check.expression]));
+  for (const check of old.checks.filter(check => newChecks.get(check.name) !== check.expression)) {
+    alter(`DROP CONSTRAINT IF EXISTS ${q(check.name)}`);
+  }
+  for (const col of old.columns.filter(col => col.isUnique && !newColumns.get(col.name)?.isUnique)) {
+    alter(`DROP CONSTRAINT IF EXISTS ${q(uniqueConstraintName(table.name, col.name))}`);
+  }
+  if (primaryKeyChanged && old.primaryKey.length > 0) {
+    alter(`DROP CONSTRAINT IF EXISTS ${q(`${table.name}_pkey`)}`);
+  }
+
+  for (const col of old.columns.filter(col => !newColumns.has(col.name))) {
+    alter(`DROP COLUMN IF EXISTS ${q(col.name)}`);
+  }
+
+  for (const col of table.columns) {
+    const oldCol = oldColumns.get(col.name);
+    if (!oldCol) {
+      // Keys are added as table constraints below, like on existing columns
+      const definition = renderColumnDefinition(
+        next,
+        table,
+        { ...col, isPrimaryKey: false, isUnique: false, isNotNull: isEffectivelyNotNull(col) },
+        dialect
+      );
+      alter(`ADD COLUMN ${definition}`);
+      continue;
+    }
+
+    const column = `ALTER COLUMN ${q(col.name)}`;
+    const type = columnType(next, col);
+    const retyped = retypedColumns.has(`${table.name}.${col.name}`);
+    const defaultChanged = JSON.stringify(oldCol.defaultValue ?? null) !== JSON.stringify(col.defaultValue ?? null);
+
+    if (oldCol.isAutoIncrement && !col.isAutoIncrement) alter(`${column} DROP IDENTITY IF EXISTS`);
+    if (oldCol.defaultValue && (retyped || defaultChanged)) alter(`${column} DROP DEFAULT`);
+    // The table is empty, so the cast only has to type-check; every type converts through text
+    if (retyped) alter(`${column} TYPE ${type} USING ${q(col.name)}::text::${type}`);
+    if (col.defaultValue && (retyped || defaultChanged)) alter(`${column} SET DEFAULT ${dialect.renderDefault(col.defaultValue, type)}`);
+    if (isEffectivelyNotNull(oldCol) !== isEffectivelyNotNull(col)) {
+      alter(`${column} ${isEffectivelyNotNull(col) ? 'SET' : 'DROP'} NOT NULL`);
+    }
+    if (!oldCol.isAutoIncrement && col.isAutoIncrement) alter(`${column} ADD GENERATED BY DEFAULT AS IDENTITY`);
+  }
+
+  if (primaryKeyChanged && table.primaryKey.length > 0) {
+    alter(`ADD PRIMARY KEY (${table.primaryKey.map(q).join(', ')})`);
+  }
+  for (const col of table.columns.filter(col => col.isUnique && !oldColumns.get(col.name)?.isUnique)) {
+    alter(`ADD CONSTRAINT ${q(uniqueConstraintName(table.name, col.name))} UNIQUE (${q(col.name)})`);
+  }
+  for (const check of table.checks.filter(check => oldChecks.get(check.name) !== check.expression)) {
+    alter(`ADD CONSTRAINT ${q(check.name)} CHECK (${check.expression})`);
+  }
+
+  if (old.note !== table.note) {
+    statements.push(`COMMENT ON TABLE ${q(table.name)} IS ${table.note ? dialect.quoteLiteral(table.note) : 'NULL'};`);
+  }
+  for (const col of table.columns.filter(col => col.note !== oldColumns.get(col.name)?.note)) {
+    const note = col.note ? dialect.quoteLiteral(col.note) : 'NULL';
+    statements.push(`COMMENT ON COLUMN ${q(table.name)}.${q(col.name)} IS ${note};`);
+  }
+
+  return statements;
+}
+
+function columnType(parsed: ParsedDBML, col: TableColumn): string {
+  const enumDef = col.enumType ? parsed.enums.find(e => e.name === col.enumType) : undefined;
+  return enumDef ? dialect.enumColumnType(enumDef) : dialect.mapType(col.type);
+}
+
+// Primary keys and identity columns are NOT NULL without saying so
+function isEffectivelyNotNull(col: TableColumn): boolean {
+  return col.isNotNull || col.isPrimaryKey || col.isAutoIncrement;
+}
+
+// The name Postgres gives an inline UNIQUE column constraint
+function uniqueConstraintName(tableName: string, columnName: string): string {
+  return `${tableName}_${columnName}_key`;
+}
+
+function retiredEnumName(enumName: string): string {
+  return `${enumName}__previous`;
+}
@@ -0,0 +1,444 @@
+import { describe, expect, it } from 'vitest';
+import { parseDBML } from './dbmlParser';
+import { generateSQLSchema, nameSchemaObjects } from './schemaGenerator';
+import { getDialect } from '../dialects';
+
+const BLOG = parseDBML(`
+  Enum status {
+    active
+    gone
+  }
+
+  Table users {
+    id int [pk, increment]
+    email varchar(255) [not null, unique]
+    status status [default: 'active']
+    created_at timestamp [default: \`now()\`]
+  }
+
+  Table posts {
+    id int [pk, increment]
+    author_id int [ref: > users.id, not null]
+    body text
+
+    indexes {
+      author_id
+    }
+  }
+`);
+
+describe('generateSQLSchema', () => {
+  it('renders Postgres with enum types and foreign keys added last', () => {
+    expect(generateSQLSchema(BLOG, getDialect('postgres'))).toEqual([
+      `CREATE TYPE "status" AS ENUM ('active', 'gone');`,
+      [
+        'CREATE TABLE IF NOT EXISTS "users" (',
+        '  "id" INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,',
+        '  "email" VARCHAR(255) NOT NULL UNIQUE,',
+        `  "status" "status" DEFAULT 'active',`,
+        '  "created_at" TIMESTAMP DEFAULT now()',
+        ');',
+      ].join('\n'),
+      [
+        'CREATE TABLE IF NOT EXISTS "posts" (',
+        '  "id" INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,',
+        '  "author_id" INTEGER NOT NULL,',
+        '  "body" TEXT',
+        ');',
+      ].join('\n'),
+      'CREATE INDEX "posts_author_id_idx" ON "posts" ("author_id");',
+      'ALTER TABLE "posts" ADD CONSTRAINT "fk_posts_author_id" FOREIGN KEY ("author_id") REFERENCES "users" ("id");',
+    ]);
+  });
+
+  it('renders MySQL with inline enums and backquotes', () => {
+    expect(generateSQLSchema(BLOG, getDialect('mysql'))).toEqual([
+      [
+        'CREATE TABLE IF NOT EXISTS `users` (',
+        '  `id` INT PRIMARY KEY AUTO_INCREMENT,',
+        '  `email` VARCHAR(255) NOT NULL UNIQUE,',
+        "  `status` ENUM('active', 'gone') DEFAULT 'active',",
+        '  `created_at` DATETIME DEFAULT (now())',
+        ');',
+      ].join('\n'),
+      [
+        'CREATE TABLE IF NOT EXISTS `posts` (',
+        '  `id` INT PRIMARY KEY AUTO_INCREMENT,',
+        '  `author_id` INT NOT NULL,',
+        '  `body` TEXT',
+        ');',
+      ].join('\n'),
+      'CREATE INDEX `posts_author_id_idx` ON `posts` (`author_id`);',
+      'ALTER TABLE `posts` ADD CONSTRAINT `fk_posts_author_id` FOREIGN KEY (`author_id`) REFERENCES `users` (`id`);',
+    ]);
+  });
+
+  it('renders SQLite with enum checks and foreign keys inside the table', () => {
+    expect(generateSQLSchema(BLOG, getDialect('sqlite'))).toEqual([
+      [
+        'CREATE TABLE IF NOT EXISTS "users" (',
+        '  "id" INTEGER PRIMARY KEY AUTOINCREMENT,',
+        '  "email" VARCHAR(255) NOT NULL UNIQUE,',
+        `  "status" VARCHAR(6) DEFAULT 'active',`,
+        '  "created_at" TEXT DEFAULT (now()),',
+        `  CHECK ("status" IN ('active', 'gone'))`,
+        ');',
+      ].join('\n'),
+      [
+        'CREATE TABLE IF NOT EXISTS "posts" (',
+        '  "id" INTEGER PRIMARY KEY AUTOINCREMENT,',
+        '  "author_id" INTEGER NOT NULL,',
+        '  "body" TEXT,',
+        '  CONSTRAINT "fk_posts_author_id" FOREIGN KEY ("author_id") REFERENCES "users" ("id")',
+        ');',
+      ].join('\n'),
+      'CREATE INDEX "posts_author_id_idx" ON "posts" ("author_id");',
+    ]);
+  });
+
+  it('renders SQL Server with brackets and national strings', () => {
+    expect(generateSQLSchema(BLOG, getDialect('sqlserver'))).toEqual([
+      [
+        'CREATE TABLE [users] (',
+        '  [id] INT IDENTITY(1,1) PRIMARY KEY,',
+        '  [email] NVARCHAR(255) NOT NULL UNIQUE,',
+        "  [status] NVARCHAR(6) DEFAULT N'active',",
+        '  [created_at] DATETIME2 DEFAULT (now()),',
+        "  CHECK ([status] IN (N'active', N'gone'))",
+        ');',
+      ].join('\n'),
+      [
+        'CREATE TABLE [posts] (',
+        '  [id] INT IDENTITY(1,1) PRIMARY KEY,',
+        '  [author_id] INT NOT NULL,',
+        '  [body] NVARCHAR(MAX)',
+        ');',
+      ].join('\n'),
+      'CREATE INDEX [posts_author_id_idx] ON [posts] ([author_id]);',
+      'ALTER TABLE [posts] ADD CONSTRAINT [fk_posts_author_id] FOREIGN KEY ([author_id]) REFERENCES [users] ([id]);',
+    ]);
+  });
+
+  it('makes only the requested foreign keys deferrable, where the dialect can', () => {
+    const postgres = generateSQLSchema(BLOG, getDialect('postgres'), { deferredRelationships: BLOG.relationships });
+    const mysql = generateSQLSchema(BLOG, getDialect('mysql'), { deferredRelationships: BLOG.relationships });
+
+    expect(postgres[postgres.length - 1]).toMatch(/DEFERRABLE INITIALLY DEFERRED;$/);
+    expect(mysql[mysql.length - 1]).not.toMatch(/DEFERRABLE/);
+  });
+});
+
+describe('column settings', () => {
+  const ORDER_ITEMS = parseDBML(`
+    Table order_items {
+      order_id int
+      line int
+      sku varchar(8) [unique, not null, default: 'none']
+      quantity int [not null, default: 1]
+      gift boolean [default: false]
+      added_at timestamp [default: \`now()\`]
+      note text [null]
+
+      indexes {
+        (order_id, line) [pk]
+      }
+    }
+  `);
+
+  it.each([
+    [
+      'postgres',
+      [
+        'CREATE TABLE IF NOT EXISTS "order_items" (',
+        '  "order_id" INTEGER NOT NULL,',
+        '  "line" INTEGER NOT NULL,',
+        `  "sku" VARCHAR(8) NOT NULL UNIQUE DEFAULT 'none',`,
+        '  "quantity" INTEGER NOT NULL DEFAULT 1,',
+        '  "gift" BOOLEAN DEFAULT FALSE,',
+        '  "added_at" TIMESTAMP DEFAULT now(),',
+        '  "note" TEXT,',
+        '  PRIMARY KEY ("order_id", "line")',
+        ');',
+      ],
+    ],
+    [
+      'mysql',
+      [
+        'CREATE TABLE IF NOT EXISTS `order_items` (',
+        '  `order_id` INT NOT NULL,',
+        '  `line` INT NOT NULL,',
+        "  `sku` VARCHAR(8) NOT NULL UNIQUE DEFAULT 'none',",
+        '  `quantity` INT NOT NULL DEFAULT 1,',
+        '  `gift` BOOLEAN DEFAULT FALSE,',
+        '  `added_at` DATETIME DEFAULT (now()),',
+        '  `note` TEXT,',
+        '  PRIMARY KEY (`order_id`, `line`)',
+        ');',
+      ],
+    ],
+    [
+      'sqlite',
+      [
+        'CREATE TABLE IF NOT EXISTS "order_items" (',
+        '  "order_id" INTEGER NOT NULL,',
+        '  "line" INTEGER NOT NULL,',
+        `  "sku" VARCHAR(8) NOT NULL UNIQUE DEFAULT 'none',`,
+        '  "quantity" INTEGER NOT NULL DEFAULT 1,',
+        '  "gift" INTEGER DEFAULT 0,',
+        '  "added_at" TEXT DEFAULT (now()),',
+        '  "note" TEXT,',
+        '  PRIMARY KEY ("order_id", "line")',
+        ');',
+      ],
+    ],
+    [
+      'sqlserver',
+      [
+        'CREATE TABLE [order_items] (',
+        '  [order_id] INT NOT NULL,',
+        '  [line] INT NOT NULL,',
+        "  [sku] NVARCHAR(8) NOT NULL UNIQUE DEFAULT N'none',",
+        '  [quantity] INT NOT NULL DEFAULT 1,',
+        '  [gift] BIT DEFAULT 0,',
+        '  [added_at] DATETIME2 DEFAULT (now()),',
+        '  [note] NVARCHAR(MAX),',
+        '  PRIMARY KEY ([order_id], [line])',
+        ');',
+      ],
+    ],
+  ] as const)('renders NOT NULL, UNIQUE, defaults and a composite primary key for %s', (dialect, lines) => {
+    expect(generateSQLSchema(ORDER_ITEMS, getDialect(dialect))).toEqual([lines.join('\n')]);
+  });
+});
+
+describe('enums', () => {
+  const TICKETS = parseDBML(`
+    Enum "ticket status" {
+      open
+      "in progress" [note: 'being worked on']
+      "won't fix"
+    }
+
+    Table tickets {
+      id int [pk]
+      status "ticket status" [not null, default: 'open']
+      previous "ticket status"
+    }
+  `);
+
+  it('creates a native type on Postgres, quoting names and values', () => {
+    expect(generateSQLSchema(TICKETS, getDialect('postgres'))).toEqual([
+      `CREATE TYPE "ticket status" AS ENUM ('open', 'in progress', 'won''t fix');`,
+      [
+        'CREATE TABLE IF NOT EXISTS "tickets" (',
+        '  "id" INTEGER PRIMARY KEY,',
+        `  "status" "ticket status" NOT NULL DEFAULT 'open',`,
+        '  "previous" "ticket status"',
+        ');',
+      ].join('\n'),
+    ]);
+  });
+
+  it('inlines the values as an ENUM column type on MySQL', () => {
+    expect(generateSQLSchema(TICKETS, getDialect('mysql'))).toEqual([
+      [
+        'CREATE TABLE IF NOT EXISTS `tickets` (',
+        '  `id` INT PRIMARY KEY,',
+        "  `status` ENUM('open', 'in progress', 'won''t fix') NOT NULL DEFAULT 'open',",
+        "  `previous` ENUM('open', 'in progress', 'won''t fix')",
+        ');',
+      ].join('\n'),
+    ]);
+  });
+
+  it.each([
+    [
+      'sqlite',
+      [
+        'CREATE TABLE IF NOT EXISTS "tickets" (',
+        '  "id" INTEGER PRIMARY KEY,',
+        `  "status" VARCHAR(11) NOT NULL DEFAULT 'open',`,
+        '  "previous" VARCHAR(11),',
+        `  CHECK ("status" IN ('open', 'in progress', 'won''t fix')),`,
+        `  CHECK ("previous" IN ('open', 'in progress', 'won''t fix'))`,
+        ');',
+      ],
+    ],
+    [
+      'sqlserver',
+      [
+        'CREATE TABLE [tickets] (',
+        '  [id] INT PRIMARY KEY,',
+        "  [status] NVARCHAR(11) NOT NULL DEFAULT N'open',",
+        '  [previous] NVARCHAR(11),',
+        "  CHECK ([status] IN (N'open', N'in progress', N'won''t fix')),",
+        "  CHECK ([previous] IN (N'open', N'in progress', N'won''t fix'))",
+        ');',
+      ],
+    ],
+  ] as const)('sizes a string column to the longest value with a CHECK on %s', (dialect, lines) => {
+    expect(generateSQLSchema(TICKETS, getDialect(dialect))).toEqual([lines.join('\n')]);
+  });
+});
+
+describe('indexes', () => {
+  const EVENTS = parseDBML(`
+    Table events {
+      id int [pk]
+      venue_id int
+      starts_at timestamp
+      title varchar(100)
+      slug varchar(100)
+
+      indexes {
+        venue_id
+        (venue_id, starts_at) [name: 'events_by_venue']
+        slug [unique]
+        title [type: hash]
+        \`lower(title)\` [name: 'events_title_lower']
+      }
+    }
+  `);
+
+  // The CREATE TABLE statement comes first
+  const indexes = (dialect: 'postgres' | 'mysql' | 'sqlite' | 'sqlserver'): string[] =>
+    generateSQLSchema(EVENTS, getDialect(dialect)).slice(1);
+
+  it('names, orders and types indexes on Postgres', () => {
+    expect(indexes('postgres')).toEqual([
+      'CREATE INDEX "events_venue_id_idx" ON "events" ("venue_id");',
+      'CREATE INDEX "events_by_venue" ON "events" ("venue_id", "starts_at");',
+      'CREATE UNIQUE INDEX "events_slug_idx" ON "events" ("slug");',
+      'CREATE INDEX "events_title_idx" ON "events" USING HASH ("title");',
+      'CREATE INDEX "events_title_lower" ON "events" ((lower(title)));',
+    ]);
+  });
+
+  it('puts the index type last on MySQL', () => {
+    expect(indexes('mysql')).toEqual([
+      'CREATE INDEX `events_venue_id_idx` ON `events` (`venue_id`);',
+      'CREATE INDEX `events_by_venue` ON `events` (`venue_id`, `starts_at`);',
+      'CREATE UNIQUE INDEX `events_slug_idx` ON `events` (`slug`);',
+      'CREATE INDEX `events_title_idx` ON `events` (`title`) USING HASH;',
+      'CREATE INDEX `events_title_lower` ON `events` ((lower(title)));',
+    ]);
+  });
+
+  it('drops the index type on SQLite', () => {
+    expect(indexes('sqlite')).toContain('CREATE INDEX "events_title_idx" ON "events" ("title");');
+  });
+
+  it('leaves out expression indexes on SQL Server', () => {
+    expect(indexes('sqlserver')).toEqual([
+      'CREATE INDEX [events_venue_id_idx] ON [events] ([venue_id]);',
+      'CREATE INDEX [events_by_venue] ON [events] ([venue_id], [starts_at]);',
+      'CREATE UNIQUE INDEX [events_slug_idx] ON [events] ([slug]);',
+      'CREATE INDEX [events_title_idx] ON [events] ([title]);',
+    ]);
+  });
+});
+
+describe('notes', () => {
+  const AUTHORS = parseDBML(`
+    Table authors [note: 'People who write'] {
+      id int [pk]
+      name varchar(50) [note: 'Shown on the author\\'s page']
+      bio text
+
+      Note: 'Writers */ of posts'
+    }
+  `);
+
+  it('lets a Note block win over the note setting, with a warning', () => {
+    expect(AUTHORS.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', message: "Table 'authors' has two notes; the Note block wins" }),
+    ]);
+  });
+
+  it('adds COMMENT ON statements on Postgres', () => {
+    expect(generateSQLSchema(AUTHORS, getDialect('postgres')).slice(1)).toEqual([
+      `COMMENT ON TABLE "authors" IS 'Writers */ of posts';`,
+      `COMMENT ON COLUMN "authors"."name" IS 'Shown on the author''s page';`,
+    ]);
+  });
+
+  it('writes COMMENT clauses into the table on MySQL', () => {
+    expect(generateSQLSchema(AUTHORS, getDialect('mysql'))).toEqual([
+      [
+        'CREATE TABLE IF NOT EXISTS `authors` (',
+        '  `id` INT PRIMARY KEY,',
+        "  `name` VARCHAR(50) COMMENT 'Shown on the author''s page',",
+        '  `bio` TEXT',
+        ") COMMENT='Writers */ of posts';",
+      ].join('\n'),
+    ]);
+  });
+
+  it('keeps notes as SQL comments on SQLite, which has no comments on objects', () => {
+    expect(generateSQLSchema(AUTHORS, getDialect('sqlite'))).toEqual([
+      [
+        'CREATE TABLE IF NOT EXISTS "authors" /* Writers * / of posts */ (',
+        '  "id" INTEGER PRIMARY KEY,',
+        `  "name" VARCHAR(50) /* Shown on the author's page */,`,
+        '  "bio" TEXT',
+        ');',
+      ].join('\n'),
+    ]);
+  });
+
+  it('adds MS_Description properties on SQL Server', () => {
+    expect(generateSQLSchema(AUTHORS, getDialect('sqlserver')).slice(1)).toEqual([
+      "EXEC sp_addextendedproperty @name = N'MS_Description', @value = N'Writers */ of posts', " +
+        "@level0type = N'SCHEMA', @level0name = N'dbo', @level1type = N'TABLE', @level1name = N'authors';",
+      "EXEC sp_addextendedproperty @name = N'MS_Description', @value = N'Shown on the author''s page', " +
+        "@level0type = N'SCHEMA', @level0name = N'dbo', @level1type = N'TABLE', @level1name = N'authors', " +
+        "@level2type = N'COLUMN', @level2name = N'name';",
+    ]);
+  });
+});
+
+describe('checks', () => {
+  it('adds named CHECK constraints after the columns', () => {
+    const parsed = parseDBML(`
+      Table products {
+        id int [pk]
+        price decimal(10,2) [check: \`price >= 0\`]
+
+        checks {
+          \`price < 1000\` [name: 'price_cap']
+        }
+      }
+    `);
+
+    expect(generateSQLSchema(parsed, getDialect('mysql'))).toEqual([
+      [
+        'CREATE TABLE IF NOT EXISTS `products` (',
+        '  `id` INT PRIMARY KEY,',
+        '  `price` DECIMAL(10,2),',
+        '  CONSTRAINT `products_price_check` CHECK (price >= 0),',
+        '  CONSTRAINT `price_cap` CHECK (price < 1000)',
+        ');',
+      ].join('\n'),
+    ]);
+  });
+});
+
+describe('nameSchemaObjects', () => {
+  it('suffixes index and constraint names that clash', () => {
+    const parsed = parseDBML(`
+      Table a {
+        id int [pk]
+        b_id int [ref: > b.id]
+      }
+
+      Table b {
+        id int [pk]
+      }
+
+      Ref fk_a_b_id: b.id < a.b_id
+    `);
+
+    const { foreignKeys } = nameSchemaObjects(parsed);
+    expect(foreignKeys.map(fk => fk.name).sort()).toEqual(['fk_a_b_id', 'fk_a_b_id_2']);
+  });
+});
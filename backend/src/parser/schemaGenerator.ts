@@ -0,0 +1,203 @@
+/**
+ * Schema Generator - Renders a parsed DBML model as DDL for a SQL dialect
+ */
+
+import { ParsedDBML, Relationship, Table, TableColumn, TableIndex } from './dbmlParser';
+import { SqlDialect, getDialect } from '../dialects';
+
+export interface ForeignKey {
+  name: string;
+  table: string;
+  columns: string[];
+  refTable: string;
+  refColumns: string[];
+  onDelete?: string;
+  onUpdate?: string;
+  deferrable?: boolean;
+}
+
+export interface SchemaOptions {
+  /** Relationships whose foreign keys are only checked at commit, e.g. to seed cyclic references */
+  deferredRelationships?: Relationship[];
+}
+
+/**
+ * Work out which side of a relationship holds the foreign key.
+ * Many-to-many relationships are enforced through their junction table instead.
+ */
+export function toForeignKey(rel: Relationship): ForeignKey | null {
+  if (rel.type === 'many-to-many') return null;
+
+  const [table, columns, refTable, refColumns] =
+    rel.type === 'one-to-many'
+      ? [rel.toTable, rel.toColumns, rel.fromTable, rel.fromColumns]
+      : [rel.fromTable, rel.fromColumns, rel.toTable, rel.toColumns];
+
+  return {
+    name: rel.name ?? `fk_${table}_${columns.join('_')}`,
+    table,
+    columns,
+    refTable,
+    refColumns,
+    onDelete: rel.onDelete,
+    onUpdate: rel.onUpdate,
+  };
+}
+
+export interface NamedIndex {
+  table: string;
+  name: string;
+  index: TableIndex;
+}
+
+/**
+ * Foreign keys and indexes with the names their DDL uses. Index and constraint
+ * names share one namespace per schema in Postgres, so clashes get a suffix.
+ */
+export function nameSchemaObjects(
+  parsed: ParsedDBML,
+  dialect: SqlDialect = getDialect('postgres'),
+  options: SchemaOptions = {}
+): { foreignKeys: ForeignKey[]; indexes: NamedIndex[] } {
+  const constraintNames = new Set<string>();
+  const uniqueName = (baseName: string): string => {
+    let name = baseName;
+    let suffix = 2;
+    while (constraintNames.has(name)) name = `${baseName}_${suffix++}`;
+    constraintNames.add(name);
+    return name;
+  };
+
+  const deferred = new Set(options.deferredRelationships ?? []);
+  const foreignKeys = parsed.relationships.flatMap(rel => {
+    const fk = toForeignKey(rel);
+    if (!fk) return [];
+    return [{ ...fk, name: uniqueName(fk.name), deferrable: deferred.has(rel) && dialect.deferrableConstraints }];
+  });
+
+  const indexes = parsed.tables.flatMap(table =>
+    table.indexes.map(index => {
+      const parts = index.columns.map(col => (col.kind === 'column' ? col.value : 'expr'));
+      return { table: table.name, name: uniqueName(index.name ?? `${table.name}_${parts.join('_')}_idx`), index };
+    })
+  );
+
+  return { foreignKeys, indexes };
+}
+
+/**
+ * Generate SQL CREATE TABLE statements from parsed DBML
+ */
+export function generateSQLSchema(
+  parsed: ParsedDBML,
+  dialect: SqlDialect = getDialect('postgres'),
+  options: SchemaOptions = {}
+): string[] {
+  const statements: string[] = [];
+  const q = (name: string): string => dialect.quoteIdentifier(name);
+  const { foreignKeys, indexes } = nameSchemaObjects(parsed, dialect, options);
+
+  if (dialect.enumStrategy === 'type') {
+    for (const enumDef of parsed.enums) {
+      const statement = dialect.createEnumType(enumDef);
+      if (statement) statements.push(statement);
+    }
+  }
+
+  for (const table of parsed.tables) {
+    statements.push(...renderTableStatements(parsed, table, dialect, foreignKeys));
+  }
+
+  for (const { table, name, index } of indexes) {
+    const statement = dialect.renderIndex(table, name, index);
+    if (statement) statements.push(statement);
+  }
+
+  // Foreign keys go last so that every referenced table already exists
+  if (!dialect.inlineForeignKeys) {
+    for (const fk of foreignKeys) {
+      statements.push(`ALTER TABLE ${q(fk.table)} ADD CONSTRAINT ${q(fk.name)} ${renderForeignKey(fk, dialect)};`);
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * CREATE TABLE plus comment statements for one table; foreign keys are only
+ * included for dialects that declare them inline
+ */
+export function renderTableStatements(
+  parsed: ParsedDBML,
+  table: Table,
+  dialect: SqlDialect,
+  foreignKeys: ForeignKey[]
+): string[] {
+  const q = (name: string): string => dialect.quoteIdentifier(name);
+  const definitions = table.columns.map(col => renderColumnDefinition(parsed, table, col, dialect));
+
+  if (table.primaryKey.length > 1) {
+    definitions.push(`PRIMARY KEY (${table.primaryKey.map(q).join(', ')})`);
+  }
+
+  if (dialect.enumStrategy === 'check') {
+    for (const col of table.columns) {
+      const enumDef = col.enumType ? parsed.enums.find(e => e.name === col.enumType) : undefined;
+      if (enumDef) {
+        definitions.push(`CHECK (${q(col.name)} IN (${enumDef.values.map(v => dialect.quoteLiteral(v)).join(', ')}))`);
+      }
+    }
+  }
+
+  for (const check of table.checks) {
+    definitions.push(`CONSTRAINT ${q(check.name)} CHECK (${check.expression})`);
+  }
+
+  if (dialect.inlineForeignKeys) {
+    for (const fk of foreignKeys.filter(fk => fk.table === table.name)) {
+      definitions.push(`CONSTRAINT ${q(fk.name)} ${renderForeignKey(fk, dialect)}`);
+    }
+  }
+
+  return [dialect.renderCreateTable(table.name, definitions, table.note), ...dialect.renderCommentStatements(table)];
+}
+
+export function renderColumnDefinition(parsed: ParsedDBML, table: Table, col: TableColumn, dialect: SqlDialect): string {
+  const enumDef = col.enumType ? parsed.enums.find(e => e.name === col.enumType) : undefined;
+  const columnType = enumDef ? dialect.enumColumnType(enumDef) : dialect.mapType(col.type);
+  const isSinglePrimaryKey = col.isPrimaryKey && table.primaryKey.length === 1;
+  const autoIncrement = col.isAutoIncrement ? dialect.autoIncrement(col, isSinglePrimaryKey) : null;
+
+  let colDef = `${dialect.quoteIdentifier(col.name)} ${columnType}`;
+  if (autoIncrement && !autoIncrement.afterPrimaryKey) {
+    colDef += ` ${autoIncrement.clause}`;
+  }
+  if (isSinglePrimaryKey) {
+    colDef += ' PRIMARY KEY';
+  } else if (col.isNotNull || col.isPrimaryKey) {
+    colDef += ' NOT NULL';
+  }
+  if (autoIncrement && autoIncrement.afterPrimaryKey) {
+    colDef += ` ${autoIncrement.clause}`;
+  }
+  if (col.isUnique) {
+    colDef += ' UNIQUE';
+  }
+  if (col.defaultValue) {
+    colDef += ` DEFAULT ${dialect.renderDefault(col.defaultValue, columnType)}`;
+  }
+  const comment = col.note ? dialect.renderColumnComment(col.note) : null;
+  if (comment) {
+    colDef += ` ${comment}`;
+  }
+  return colDef;
+}
+
+export function renderForeignKey(fk: ForeignKey, dialect: SqlDialect): string {
+  const q = (name: string): string => dialect.quoteIdentifier(name);
+  let sql = `FOREIGN KEY (${fk.columns.map(q).join(', ')}) REFERENCES ${q(fk.refTable)} (${fk.refColumns.map(q).join(', ')})`;
+  if (fk.onDelete) sql += ` ON DELETE ${fk.onDelete.toUpperCase()}`;
+  if (fk.onUpdate) sql += ` ON UPDATE ${fk.onUpdate.toUpperCase()}`;
+  if (fk.deferrable) sql += ' DEFERRABLE INITIALLY DEFERRED';
+  return sql;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { splitSqlStatements } from './sqlDdlParser';
+
+describe('splitSqlStatements', () => {
+  it('splits on semicolons and trims each statement', () => {
+    expect(splitSqlStatements('  SELECT 1;\nSELECT 2 ;  ')).toEqual(['SELECT 1', 'SELECT 2']);
+  });
+
+  it('keeps a last statement without a semicolon', () => {
+    expect(splitSqlStatements('INSERT INTO t VALUES (1); SELECT * FROM t')).toEqual([
+      'INSERT INTO t VALUES (1)',
+      'SELECT * FROM t',
+    ]);
+  });
+
+  it('skips empty statements', () => {
+    expect(splitSqlStatements(';; SELECT 1;;')).toEqual(['SELECT 1']);
+    expect(splitSqlStatements('   ')).toEqual([]);
+  });
+
+  it('leaves semicolons inside strings and quoted names alone', () => {
+    expect(splitSqlStatements(`SELECT 'a;b', "c;d" FROM t; SELECT 'it''s; fine'`)).toEqual([
+      `SELECT 'a;b', "c;d" FROM t`,
+      `SELECT 'it''s; fine'`,
+    ]);
+  });
+
+  it('ignores semicolons inside comments and drops comments around statements', () => {
+    expect(splitSqlStatements('SELECT 1 -- one; two\n; /* three; */ SELECT /* four; */ 2')).toEqual([
+      'SELECT 1',
+      'SELECT /* four; */ 2',
+    ]);
+  });
+
+  it('keeps trigger bodies whole', () => {
+    const trigger = [
+      'CREATE TRIGGER touch AFTER UPDATE ON t',
+      'BEGIN',
+      '  UPDATE t SET n = CASE WHEN n > 0 THEN n ELSE 0 END;',
+      '  DELETE FROM log;',
+      'END',
+    ].join('\n');
+
+    expect(splitSqlStatements(`${trigger};\nSELECT 1;`)).toEqual([trigger, 'SELECT 1']);
+  });
+
+  it('treats a leading BEGIN as a transaction', () => {
+    expect(splitSqlStatements('BEGIN; UPDATE t SET n = 1; COMMIT;')).toEqual(['BEGIN', 'UPDATE t SET n = 1', 'COMMIT']);
+  });
+});
@@ -0,0 +1,960 @@
+/**
+ * SQL DDL Parser - Converts Postgres, MySQL and SQLite DDL scripts into the schema model
+ */
+
+import {
+  ColumnDefault,
+  DBMLEnum,
+  IndexColumn,
+  IndexMethod,
+  ReferentialAction,
+  Relationship,
+  Table,
+  TableColumn,
+  TableIndex,
+  isUniqueKey,
+} from './dbmlParser';
+
+export interface ImportIssue {
+  line: number; // 1-based line of the statement in the script
+  statement: string; // first line of the statement, shortened
+  message: string;
+}
+
+export interface ImportedSchema {
+  tables: Table[];
+  relationships: Relationship[];
+  enums: DBMLEnum[];
+  issues: ImportIssue[]; // statements or clauses that were not converted
+}
+
+interface SqlToken {
+  type: 'word' | 'quoted' | 'string' | 'number' | 'symbol';
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+}
+
+interface PendingForeignKey {
+  name?: string;
+  table: string;
+  columns: string[];
+  refTable: string;
+  refColumns: string[]; // empty means the referenced table's primary key
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+  token: SqlToken;
+  statementStart: number;
+}
+
+const MULTI_CHAR_SYMBOLS = ['::', '<>', '<=', '>=', '!=', '||', '->>', '->'];
+
+// Words that can continue a type name, e.g. "double precision", "timestamp with time zone"
+const TYPE_WORDS = new Set(['precision', 'varying', 'with', 'without', 'time', 'zone', 'unsigned', 'signed', 'zerofill']);
+
+const TYPE_ALIASES: Record<string, string> = {
+  'character varying': 'varchar',
+  character: 'char',
+  'double precision': 'float8',
+  'timestamp without time zone': 'timestamp',
+  'timestamp with time zone': 'timestamptz',
+  'time without time zone': 'time',
+  'time with time zone': 'timetz',
+};
+
+// Keywords that end a DEFAULT expression in a column definition
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  'not',
+  'null',
+  'primary',
+  'unique',
+  'default',
+  'check',
+  'references',
+  'constraint',
+  'auto_increment',
+  'autoincrement',
+  'generated',
+  'identity',
+  'collate',
+  'comment',
+  'on',
+]);
+
+const ACTIONS: Record<string, ReferentialAction> = {
+  cascade: 'cascade',
+  restrict: 'restrict',
+  'set null': 'set null',
+  'set default': 'set default',
+  'no action': 'no action',
+};
+
+const INDEX_METHODS: IndexMethod[] = ['btree', 'hash'];
+
+const INTEGER_TYPES = /^(tinyint|smallint|mediumint|int|integer|bigint)$/;
+
+/**
+ * Thrown to abandon the current statement or clause and record it as an issue
+ */
+class UnsupportedError extends Error {
+  constructor(message: string, public token?: SqlToken) {
+    super(message);
+  }
+}
+
+class SqlDdlImporter {
+  private tokens: SqlToken[] = [];
+  private pos = 0;
+  private tables: Table[] = [];
+  private enums: DBMLEnum[] = [];
+  private foreignKeys: PendingForeignKey[] = [];
+  private checkNames = new Set<string>();
+  private issues: ImportIssue[] = [];
+  private statementStart = 0;
+
+  constructor(private source: string) {}
+
+  run(): ImportedSchema {
+    for (const statement of splitStatements(tokenizeSql(this.source))) {
+      this.tokens = statement;
+      this.pos = 0;
+      this.statementStart = statement[0].start;
+
+      try {
+        this.parseStatement();
+      } catch (error) {
+        if (!(error instanceof UnsupportedError)) throw error;
+        this.issue(error.message, error.token);
+      }
+    }
+
+    const relationships = this.resolveForeignKeys();
+    return { tables: this.tables, relationships, enums: this.enums, issues: this.issues };
+  }
+
+  private parseStatement(): void {
+    if (this.acceptWords('create')) {
+      this.acceptWords('or', 'replace');
+      if (this.acceptWords('type')) return this.parseCreateType();
+      this.acceptAnyWord('temp', 'temporary', 'unlogged');
+      if (this.acceptWords('table')) return this.parseCreateTable();
+      const unique = this.acceptWords('unique');
+      if (this.acceptWords('index')) return this.parseCreateIndex(unique);
+    } else if (this.acceptWords('alter', 'table')) {
+      return this.parseAlterTable();
+    } else if (this.acceptWords('comment', 'on')) {
+      return this.parseCommentOn();
+    }
+
+    const words = this.tokens.slice(0, 2).map(t => t.value.toUpperCase()).join(' ');
+    throw new UnsupportedError(`${words} statements are not part of the schema and were skipped`, this.tokens[0]);
+  }
+
+  private parseCreateTable(): void {
+    this.acceptWords('if', 'not', 'exists');
+    const tableName = this.parseQualifiedName();
+    if (this.findTable(tableName)) {
+      throw new UnsupportedError(`Table '${tableName}' is defined twice; the second definition was skipped`);
+    }
+    if (!this.checkSymbol('(')) {
+      throw new UnsupportedError('CREATE TABLE without a column list (e.g. CREATE TABLE ... AS) is not supported');
+    }
+
+    const table: Table = { name: tableName, columns: [], primaryKey: [], indexes: [], checks: [] };
+    this.expectSymbol('(');
+    while (!this.checkSymbol(')')) {
+      const start = this.pos;
+      try {
+        if (this.isTableConstraint()) {
+          this.parseTableConstraint(table);
+        } else {
+          this.parseColumn(table);
+        }
+      } catch (error) {
+        // A clause we don't understand should not lose the rest of the table
+        if (!(error instanceof UnsupportedError)) throw error;
+        this.issue(error.message, error.token ?? this.tokens[start]);
+        this.pos = start;
+        this.skipUntilSeparator();
+      }
+      if (!this.acceptSymbol(',')) break;
+    }
+    this.expectSymbol(')');
+
+    // Table options: only MySQL's COMMENT='...' carries schema information
+    while (!this.isAtEnd()) {
+      if (this.acceptWords('comment')) {
+        this.acceptSymbol('=');
+        table.note = this.expectString();
+      } else {
+        this.advance();
+      }
+    }
+
+    this.tables.push(table);
+  }
+
+  private parseColumn(table: Table): void {
+    const nameToken = this.peek();
+    const name = this.parseName();
+    const column: TableColumn = {
+      name,
+      type: this.isTypeStart() ? this.parseType(table.name, name) : 'text',
+      isPrimaryKey: false,
+      isNotNull: false,
+      isUnique: false,
+      isAutoIncrement: false,
+    };
+    if (table.columns.some(col => col.name === name)) {
+      throw new UnsupportedError(`Duplicate column '${name}' in table '${table.name}'`, nameToken);
+    }
+    column.enumType = this.enums.find(e => e.name === column.type)?.name;
+    table.columns.push(column);
+
+    while (!this.isAtEnd() && !this.checkSymbol(',') && !this.checkSymbol(')')) {
+      let constraintName: string | undefined;
+      if (this.acceptWords('constraint')) constraintName = this.parseName();
+
+      if (this.acceptWords('not', 'null')) {
+        column.isNotNull = true;
+      } else if (this.acceptWords('null')) {
+        column.isNotNull = false;
+      } else if (this.acceptWords('primary', 'key')) {
+        column.isPrimaryKey = true;
+        table.primaryKey = [name];
+        this.acceptAnyWord('asc', 'desc');
+        if (this.acceptAnyWord('autoincrement')) column.isAutoIncrement = true;
+      } else if (this.acceptWords('unique')) {
+        this.acceptWords('key');
+        column.isUnique = true;
+      } else if (this.acceptWords('default')) {
+        column.defaultValue = this.parseDefault(column);
+      } else if (this.acceptAnyWord('auto_increment', 'autoincrement')) {
+        column.isAutoIncrement = true;
+      } else if (this.acceptWords('identity')) {
+        if (this.checkSymbol('(')) this.skipGroup();
+        column.isAutoIncrement = true;
+      } else if (this.acceptWords('generated')) {
+        this.parseGenerated(column);
+      } else if (this.acceptWords('references')) {
+        this.foreignKeys.push({ ...this.parseReferences(), name: constraintName, table: table.name, columns: [name] });
+      } else if (this.acceptWords('check')) {
+        this.addCheck(table, this.parseGroupText(), constraintName, name);
+      } else if (this.acceptWords('comment')) {
+        column.note = this.expectString();
+      } else if (this.acceptWords('collate')) {
+        this.parseName();
+      } else if (this.acceptAnyWord('charset') || this.acceptWords('character', 'set')) {
+        this.parseName();
+      } else if (this.acceptWords('on', 'update')) {
+        const start = this.pos;
+        this.skipDefaultExpression();
+        this.issue(`ON UPDATE ${this.textFrom(start)} on '${table.name}.${name}' has no DBML equivalent and was dropped`);
+      } else {
+        const token = this.peek();
+        if (this.checkSymbol('(')) this.skipGroup();
+        else this.advance();
+        this.issue(`Unknown option '${token.value}' on column '${table.name}.${name}' was ignored`, token);
+      }
+    }
+  }
+
+  private parseGenerated(column: TableColumn): void {
+    if (this.acceptWords('always') || this.acceptWords('by', 'default')) {
+      this.expectWord('as');
+      if (this.acceptWords('identity')) {
+        if (this.checkSymbol('(')) this.skipGroup();
+        column.isAutoIncrement = true;
+        return;
+      }
+      // Computed column: GENERATED ALWAYS AS (expr) STORED
+      const expression = this.parseGroupText();
+      this.acceptAnyWord('stored', 'virtual');
+      this.issue(`Generated column '${column.name}' AS (${expression}) was imported as a plain column`);
+      return;
+    }
+    throw new UnsupportedError(`Unsupported GENERATED clause on column '${column.name}'`);
+  }
+
+  /**
+   * MySQL/SQLite allow indexes inside CREATE TABLE; `KEY` and `INDEX` only count
+   * when followed by an index name or a column list
+   */
+  private isTableConstraint(): boolean {
+    if (this.checkAnyWord('constraint', 'primary', 'foreign', 'check', 'fulltext', 'spatial', 'exclude')) return true;
+    if (this.checkWord('unique')) {
+      const next = this.peekAt(1);
+      return next.type !== 'word' || ['key', 'index'].includes(next.value.toLowerCase()) || this.peekAt(2).value === '(';
+    }
+    if (this.checkAnyWord('key', 'index')) {
+      return this.peekAt(1).value === '(' || this.peekAt(2).value === '(';
+    }
+    return false;
+  }
+
+  private parseTableConstraint(table: Table): void {
+    let name: string | undefined;
+    if (this.acceptWords('constraint')) name = this.parseName();
+
+    if (this.acceptWords('primary', 'key')) {
+      table.primaryKey = this.parseColumnList();
+      for (const col of table.columns) {
+        if (table.primaryKey.includes(col.name)) col.isPrimaryKey = true;
+      }
+      this.acceptAnyWord('autoincrement');
+    } else if (this.acceptWords('unique')) {
+      this.acceptAnyWord('key', 'index');
+      if (!this.checkSymbol('(')) name = this.parseName();
+      const columns = this.parseColumnList();
+      if (columns.length === 1) {
+        const col = table.columns.find(c => c.name === columns[0]);
+        if (col) col.isUnique = true;
+      } else {
+        table.indexes.push({ name, columns: columns.map(value => ({ kind: 'column', value })), unique: true });
+      }
+    } else if (this.acceptWords('foreign', 'key')) {
+      const columns = this.parseColumnList();
+      this.expectWord('references');
+      this.foreignKeys.push({ ...this.parseReferences(), name, table: table.name, columns });
+    } else if (this.acceptWords('check')) {
+      this.addCheck(table, this.parseGroupText(), name);
+    } else if (this.acceptAnyWord('key', 'index')) {
+      const indexName = this.checkSymbol('(') ? undefined : this.parseName();
+      table.indexes.push({ name: indexName, columns: this.parseIndexElements(), unique: false, type: this.parseIndexMethod() });
+    } else {
+      throw new UnsupportedError(`${this.peek().value.toUpperCase()} definitions are not supported and were skipped`);
+    }
+
+    this.skipUntilSeparator();
+  }
+
+  private parseReferences(): Omit<PendingForeignKey, 'table' | 'columns'> {
+    const token = this.peek();
+    const refTable = this.parseQualifiedName();
+    const refColumns = this.checkSymbol('(') ? this.parseColumnList() : [];
+    const fk: Omit<PendingForeignKey, 'table' | 'columns'> = { refTable, refColumns, token, statementStart: this.statementStart };
+
+    for (;;) {
+      if (this.acceptWords('on', 'delete')) {
+        fk.onDelete = this.parseAction();
+      } else if (this.acceptWords('on', 'update')) {
+        fk.onUpdate = this.parseAction();
+      } else if (this.acceptWords('match')) {
+        this.advance();
+      } else if (this.acceptWords('not', 'deferrable') || this.acceptWords('deferrable')) {
+        if (this.acceptWords('initially')) this.advance();
+      } else {
+        return fk;
+      }
+    }
+  }
+
+  private parseAction(): ReferentialAction {
+    const words = [this.advance().value.toLowerCase()];
+    if (words[0] === 'set' || words[0] === 'no') words.push(this.advance().value.toLowerCase());
+    const action = ACTIONS[words.join(' ')];
+    if (!action) throw new UnsupportedError(`Unknown referential action '${words.join(' ')}'`);
+    return action;
+  }
+
+  private parseCreateType(): void {
+    const name = this.parseQualifiedName();
+    if (!this.acceptWords('as', 'enum')) {
+      throw new UnsupportedError(`Only enum types can be imported; type '${name}' was skipped`);
+    }
+
+    const values: string[] = [];
+    this.expectSymbol('(');
+    while (!this.checkSymbol(')')) {
+      values.push(this.expectString());
+      if (!this.acceptSymbol(',')) break;
+    }
+    this.expectSymbol(')');
+    this.enums.push({ name, values });
+  }
+
+  private parseCreateIndex(unique: boolean): void {
+    this.acceptWords('concurrently');
+    this.acceptWords('if', 'not', 'exists');
+    const name = this.checkWord('on') ? undefined : this.parseQualifiedName();
+    this.expectWord('on');
+    this.acceptWords('only');
+
+    const tableName = this.parseQualifiedName();
+    const table = this.findTable(tableName);
+    if (!table) throw new UnsupportedError(`Index on unknown table '${tableName}' was skipped`);
+
+    let type = this.acceptWords('using') ? this.toIndexMethod(this.parseName()) : undefined;
+    const columns = this.parseIndexElements();
+
+    while (!this.isAtEnd()) {
+      if (this.acceptWords('where')) {
+        throw new UnsupportedError(`Partial index ${name ? `'${name}' ` : ''}cannot be expressed in DBML and was skipped`);
+      } else if (this.checkWord('using')) {
+        type = this.parseIndexMethod();
+      } else if (this.acceptAnyWord('include', 'with')) {
+        this.skipGroup();
+      } else {
+        this.advance();
+      }
+    }
+
+    const index: TableIndex = { name, columns, unique, type };
+    if (name && table.indexes.some(existing => existing.name === name)) {
+      throw new UnsupportedError(`Index '${name}' is defined twice; the second definition was skipped`);
+    }
+    table.indexes.push(index);
+  }
+
+  private parseIndexMethod(): IndexMethod | undefined {
+    return this.acceptWords('using') ? this.toIndexMethod(this.parseName()) : undefined;
+  }
+
+  private toIndexMethod(method: string): IndexMethod | undefined {
+    const normalized = method.toLowerCase() as IndexMethod;
+    if (INDEX_METHODS.includes(normalized)) return normalized;
+    this.issue(`Index method '${method}' has no DBML equivalent; imported as a btree index`);
+    return undefined;
+  }
+
+  /**
+   * Index elements are plain columns (optionally with ASC/DESC, COLLATE, operator
+   * class or a MySQL prefix length) or arbitrary expressions
+   */
+  private parseIndexElements(): IndexColumn[] {
+    const elements: IndexColumn[] = [];
+    this.expectSymbol('(');
+
+    while (!this.checkSymbol(')') && !this.isAtEnd()) {
+      const start = this.pos;
+      this.skipUntilSeparator();
+      const elementTokens = this.tokens.slice(start, this.pos);
+      const first = elementTokens[0];
+      const trailing = elementTokens.slice(1);
+      const isColumn =
+        (first.type === 'word' || first.type === 'quoted') &&
+        (trailing.length === 0 || trailing[0].type === 'word' || (trailing[0].value === '(' && trailing[1]?.type === 'number'));
+
+      elements.push(isColumn ? { kind: 'column', value: first.value } : { kind: 'expression', value: this.textBetween(start, this.pos) });
+      if (!this.acceptSymbol(',')) break;
+    }
+
+    this.expectSymbol(')');
+    return elements;
+  }
+
+  private parseAlterTable(): void {
+    this.acceptWords('if', 'exists');
+    this.acceptWords('only');
+    const tableName = this.parseQualifiedName();
+    const table = this.findTable(tableName);
+    if (!table) throw new UnsupportedError(`ALTER TABLE on unknown table '${tableName}' was skipped`);
+
+    do {
+      const start = this.pos;
+      try {
+        this.parseAlterAction(table);
+      } catch (error) {
+        if (!(error instanceof UnsupportedError)) throw error;
+        this.issue(error.message, error.token ?? this.tokens[start]);
+        this.pos = start;
+        this.skipUntilSeparator();
+      }
+    } while (this.acceptSymbol(','));
+  }
+
+  private parseAlterAction(table: Table): void {
+    if (this.acceptWords('add')) {
+      if (this.isTableConstraint()) {
+        this.parseTableConstraint(table);
+        return;
+      }
+      this.acceptWords('column');
+      this.acceptWords('if', 'not', 'exists');
+      this.parseColumn(table);
+      return;
+    }
+
+    if (this.acceptWords('alter')) {
+      this.acceptWords('column');
+      const columnName = this.parseName();
+      const column = table.columns.find(col => col.name === columnName);
+      if (!column) throw new UnsupportedError(`Unknown column '${table.name}.${columnName}'`);
+
+      if (this.acceptWords('set', 'default')) {
+        column.defaultValue = this.parseDefault(column);
+      } else if (this.acceptWords('drop', 'default')) {
+        column.defaultValue = undefined;
+      } else if (this.acceptWords('set', 'not', 'null')) {
+        column.isNotNull = true;
+      } else if (this.acceptWords('drop', 'not', 'null')) {
+        column.isNotNull = false;
+      } else if (this.acceptWords('add', 'generated')) {
+        this.parseGenerated(column);
+      } else {
+        throw new UnsupportedError(`Unsupported ALTER COLUMN action on '${table.name}.${columnName}'`);
+      }
+      return;
+    }
+
+    throw new UnsupportedError(`Unsupported ALTER TABLE action '${this.peek().value.toUpperCase()}' on '${table.name}'`);
+  }
+
+  private parseCommentOn(): void {
+    const target = this.advance().value.toLowerCase();
+    const parts = [this.parseName()];
+    while (this.acceptSymbol('.')) parts.push(this.parseName());
+    this.expectWord('is');
+    const note = this.checkWord('null') ? undefined : this.expectString();
+
+    if (target === 'table') {
+      const table = this.findTable(parts[parts.length - 1]);
+      if (!table) throw new UnsupportedError(`Comment on unknown table '${parts.join('.')}' was skipped`);
+      table.note = note;
+    } else if (target === 'column' && parts.length >= 2) {
+      const table = this.findTable(parts[parts.length - 2]);
+      const column = table?.columns.find(col => col.name === parts[parts.length - 1]);
+      if (!column) throw new UnsupportedError(`Comment on unknown column '${parts.join('.')}' was skipped`);
+      column.note = note;
+    } else {
+      throw new UnsupportedError(`Comments on ${target} objects are not supported`);
+    }
+  }
+
+  private parseType(tableName: string, columnName: string): string {
+    const words: string[] = [this.advance().value.toLowerCase()];
+    let args = '';
+
+    for (;;) {
+      if (this.checkSymbol('(')) {
+        const start = this.pos;
+        if (words[0] === 'enum') {
+          return this.parseInlineEnum(tableName, columnName);
+        }
+        this.skipGroup();
+        args = this.textBetween(start, this.pos).replace(/\s+/g, '');
+      } else if (this.peek().type === 'word' && TYPE_WORDS.has(this.peek().value.toLowerCase())) {
+        words.push(this.advance().value.toLowerCase());
+      } else {
+        break;
+      }
+    }
+
+    let arrays = '';
+    while (this.checkSymbol('[')) {
+      this.advance();
+      if (this.peek().type === 'number') this.advance();
+      this.expectSymbol(']');
+      arrays += '[]';
+    }
+    if (this.acceptWords('array')) arrays += '[]';
+
+    const base = words.filter(word => !['unsigned', 'signed', 'zerofill'].includes(word)).join(' ');
+    const enumDef = this.enums.find(e => e.name.toLowerCase() === base);
+    // MySQL display widths such as int(11) do not change the type
+    if (INTEGER_TYPES.test(base)) args = '';
+    return `${enumDef ? enumDef.name : TYPE_ALIASES[base] ?? base}${args}${arrays}`;
+  }
+
+  /**
+   * MySQL column types like ENUM('a', 'b') become a named DBML enum
+   */
+  private parseInlineEnum(tableName: string, columnName: string): string {
+    const values: string[] = [];
+    this.expectSymbol('(');
+    while (!this.checkSymbol(')')) {
+      values.push(this.expectString());
+      if (!this.acceptSymbol(',')) break;
+    }
+    this.expectSymbol(')');
+
+    let name = `${tableName}_${columnName}`;
+    while (this.enums.some(e => e.name === name)) name += '_enum';
+    this.enums.push({ name, values });
+    return name;
+  }
+
+  private parseDefault(column: TableColumn): ColumnDefault | undefined {
+    const start = this.pos;
+    this.skipDefaultExpression();
+    const text = this.textBetween(start, this.pos);
+
+    // serial columns in pg_dump output: DEFAULT nextval('users_id_seq'::regclass)
+    if (/^nextval\s*\(/i.test(text)) {
+      column.isAutoIncrement = true;
+      return undefined;
+    }
+    return toColumnDefault(text);
+  }
+
+  private skipDefaultExpression(): void {
+    // Always take the first term so that DEFAULT NULL works
+    if (this.checkSymbol('(')) this.skipGroup();
+    else this.advance();
+
+    while (!this.isAtEnd() && !this.checkSymbol(',') && !this.checkSymbol(')')) {
+      const token = this.peek();
+      if (token.type === 'word' && COLUMN_CONSTRAINT_WORDS.has(token.value.toLowerCase())) break;
+      if (this.checkSymbol('(')) this.skipGroup();
+      else this.advance();
+    }
+  }
+
+  private addCheck(table: Table, expression: string, name?: string, column?: string): void {
+    let checkName = name ?? (column ? `${table.name}_${column}_check` : `${table.name}_check`);
+    if (!name) {
+      const baseName = checkName;
+      let suffix = 2;
+      while (this.checkNames.has(checkName)) checkName = `${baseName}_${suffix++}`;
+    }
+    this.checkNames.add(checkName);
+    table.checks.push({ name: checkName, expression, column });
+  }
+
+  private resolveForeignKeys(): Relationship[] {
+    const relationships: Relationship[] = [];
+
+    for (const fk of this.foreignKeys) {
+      const table = this.findTable(fk.table) as Table;
+      const refTable = this.findTable(fk.refTable);
+      if (!refTable) {
+        this.issueAt(fk.token, `Foreign key ${fk.table}.(${fk.columns.join(', ')}) references unknown table '${fk.refTable}'`, fk.statementStart);
+        continue;
+      }
+
+      const refColumns = fk.refColumns.length > 0 ? fk.refColumns : refTable.primaryKey;
+      if (refColumns.length !== fk.columns.length) {
+        this.issueAt(fk.token, `Foreign key ${fk.table}.(${fk.columns.join(', ')}) does not match the key of '${refTable.name}'`, fk.statementStart);
+        continue;
+      }
+
+      const from = `${table.name}.${fk.columns.join(',')}`;
+      const to = `${refTable.name}.${refColumns.join(',')}`;
+      const duplicate = relationships.find(rel => rel.from === from && rel.to === to);
+      if (duplicate) {
+        duplicate.name = duplicate.name ?? fk.name;
+        this.issueAt(fk.token, `Duplicate foreign key ${from} -> ${to} was merged into the first one`, fk.statementStart);
+        continue;
+      }
+
+      relationships.push({
+        name: fk.name,
+        from,
+        to,
+        type: isUniqueKey(table, fk.columns) ? 'one-to-one' : 'many-to-one',
+        fromTable: table.name,
+        fromColumns: fk.columns,
+        toTable: refTable.name,
+        toColumns: refColumns,
+        onDelete: fk.onDelete,
+        onUpdate: fk.onUpdate,
+      });
+    }
+
+    return relationships;
+  }
+
+  private findTable(name: string): Table | undefined {
+    // Unquoted identifiers are case-insensitive in every supported engine
+    return this.tables.find(t => t.name === name) ?? this.tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private parseColumnList(): string[] {
+    const columns: string[] = [];
+    this.expectSymbol('(');
+    while (!this.checkSymbol(')')) {
+      columns.push(this.parseName());
+      // MySQL prefix lengths and sort order, e.g. KEY (name(10) DESC)
+      if (this.checkSymbol('(')) this.skipGroup();
+      this.acceptAnyWord('asc', 'desc');
+      if (!this.acceptSymbol(',')) break;
+    }
+    this.expectSymbol(')');
+    return columns;
+  }
+
+  /**
+   * Return the text inside a parenthesised group and move past it
+   */
+  private parseGroupText(): string {
+    const start = this.pos;
+    this.skipGroup();
+    return this.textBetween(start + 1, this.pos - 1);
+  }
+
+  private skipGroup(): void {
+    this.expectSymbol('(');
+    let depth = 1;
+    while (depth > 0) {
+      if (this.isAtEnd()) throw new UnsupportedError('Unbalanced parentheses');
+      const token = this.advance();
+      if (token.type === 'symbol' && token.value === '(') depth++;
+      if (token.type === 'symbol' && token.value === ')') depth--;
+    }
+  }
+
+  private skipUntilSeparator(): void {
+    while (!this.isAtEnd() && !this.checkSymbol(',') && !this.checkSymbol(')')) {
+      if (this.checkSymbol('(')) this.skipGroup();
+      else this.advance();
+    }
+  }
+
+  private parseQualifiedName(): string {
+    let name = this.parseName();
+    // Schemas are dropped; the sandbox keeps everything in one schema
+    while (this.acceptSymbol('.')) name = this.parseName();
+    return name;
+  }
+
+  private parseName(): string {
+    const token = this.peek();
+    if (token.type !== 'word' && token.type !== 'quoted') {
+      throw new UnsupportedError(`Expected a name but found '${token.value}'`, token);
+    }
+    return this.advance().value;
+  }
+
+  private isTypeStart(): boolean {
+    const token = this.peek();
+    if (token.type === 'quoted') return true;
+    return token.type === 'word' && !COLUMN_CONSTRAINT_WORDS.has(token.value.toLowerCase());
+  }
+
+  private expectString(): string {
+    const token = this.peek();
+    if (token.type !== 'string') throw new UnsupportedError(`Expected a string but found '${token.value}'`, token);
+    return this.advance().value;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw new UnsupportedError(`Expected '${symbol}' but found '${this.peek().value}'`, this.peek());
+    }
+  }
+
+  private expectWord(word: string): void {
+    if (!this.acceptWords(word)) {
+      throw new UnsupportedError(`Expected ${word.toUpperCase()} but found '${this.peek().value}'`, this.peek());
+    }
+  }
+
+  /**
+   * Consume the words only if all of them follow in order
+   */
+  private acceptWords(...words: string[]): boolean {
+    if (!words.every((word, i) => this.peekAt(i).type === 'word' && this.peekAt(i).value.toLowerCase() === word)) {
+      return false;
+    }
+    this.pos += words.length;
+    return true;
+  }
+
+  private acceptAnyWord(...words: string[]): boolean {
+    if (!this.checkAnyWord(...words)) return false;
+    this.advance();
+    return true;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.checkSymbol(symbol)) return false;
+    this.advance();
+    return true;
+  }
+
+  private checkWord(word: string): boolean {
+    return this.checkAnyWord(word);
+  }
+
+  private checkAnyWord(...words: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'word' && words.includes(token.value.toLowerCase());
+  }
+
+  private checkSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.value === symbol;
+  }
+
+  private textFrom(start: number): string {
+    return this.textBetween(start, this.pos);
+  }
+
+  private textBetween(start: number, end: number): string {
+    if (end <= start) return '';
+    return this.source.slice(this.tokens[start].start, this.tokens[end - 1].end).trim();
+  }
+
+  private issue(message: string, token: SqlToken = this.tokens[Math.min(this.pos, this.tokens.length - 1)]): void {
+    this.issueAt(token, message);
+  }
+
+  private issueAt(token: SqlToken, message: string, statementStart = this.statementStart): void {
+    const lineStart = this.source.lastIndexOf('\n', statementStart - 1) + 1;
+    const firstLine = this.source.slice(lineStart).split('\n')[0].trim();
+    this.issues.push({
+      line: token.line,
+      statement: firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine,
+      message,
+    });
+  }
+
+  private peek(): SqlToken {
+    return this.peekAt(0);
+  }
+
+  private peekAt(distance: number): SqlToken {
+    const last = this.tokens[this.tokens.length - 1];
+    return this.tokens[this.pos + distance] ?? { type: 'symbol', value: '', start: last.end, end: last.end, line: last.line };
+  }
+
+  private advance(): SqlToken {
+    const token = this.peek();
+    if (!this.isAtEnd()) this.pos++;
+    return token;
+  }
+
+  private isAtEnd(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+}
+
+function tokenizeSql(source: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let offset = 0;
+  let line = 1;
+
+  const push = (type: SqlToken['type'], value: string, start: number, startLine: number): void => {
+    tokens.push({ type, value, start, end: offset, line: startLine });
+  };
+  const readUntil = (terminator: string): string => {
+    const end = source.indexOf(terminator, offset);
+    const stop = end === -1 ? source.length : end;
+    const text = source.slice(offset, stop);
+    line += text.split('\n').length - 1;
+    offset = Math.min(source.length, stop + terminator.length);
+    return text;
+  };
+  const readQuoted = (quote: string): string => {
+    let value = '';
+    offset++;
+    while (offset < source.length) {
+      const char = source[offset];
+      if (char === quote && source[offset + 1] === quote) {
+        value += quote;
+        offset += 2;
+      } else if (char === quote) {
+        offset++;
+        break;
+      } else {
+        if (char === '\n') line++;
+        value += char;
+        offset++;
+      }
+    }
+    return value;
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const start = offset;
+    const startLine = line;
+
+    if (char === '\n') {
+      line++;
+      offset++;
+    } else if (/\s/.test(char)) {
+      offset++;
+    } else if (source.startsWith('--', offset)) {
+      readUntil('\n');
+      line++;
+    } else if (source.startsWith('/*', offset)) {
+      offset += 2;
+      readUntil('*/');
+    } else if (char === "'" || ((char === 'E' || char === 'e') && source[offset + 1] === "'")) {
+      if (char !== "'") offset++;
+      push('string', readQuoted("'"), start, startLine);
+    } else if (char === '"' || char === '`') {
+      push('quoted', readQuoted(char), start, startLine);
+    } else if (char === '$' && /^\$\w*\$/.test(source.slice(offset))) {
+      const tag = (source.slice(offset).match(/^\$\w*\$/) as RegExpMatchArray)[0];
+      offset += tag.length;
+      push('string', readUntil(tag), start, startLine);
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[offset + 1] ?? ''))) {
+      const match = source.slice(offset).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?/) as RegExpMatchArray;
+      offset += match[0].length;
+      push('number', match[0], start, startLine);
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(offset).match(/^[A-Za-z_][\w$]*/) as RegExpMatchArray;
+      offset += match[0].length;
+      push('word', match[0], start, startLine);
+    } else {
+      const symbol = MULTI_CHAR_SYMBOLS.find(s => source.startsWith(s, offset)) ?? char;
+      offset += symbol.length;
+      push('symbol', symbol, start, startLine);
+    }
+  }
+
+  return tokens;
+}
+
+function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+
+  for (const token of tokens) {
+    if (token.type === 'symbol' && token.value === ';') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
+
+function toColumnDefault(text: string): ColumnDefault {
+  const literal = text.match(/^'((?:[^']|'')*)'(?:\s*::\s*[\w\s."[\]()]+)?$/);
+  if (literal) return { kind: 'string', value: literal[1].replace(/''/g, "'") };
+  const number = text.replace(/^\((.*)\)$/, '$1').replace(/\s+/g, '');
+  if (/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(number)) return { kind: 'number', value: number.replace(/^\+/, '') };
+  if (/^(true|false)$/i.test(text)) return { kind: 'boolean', value: text.toLowerCase() };
+  if (/^null(\s*::.+)?$/i.test(text)) return { kind: 'null', value: 'null' };
+  return { kind: 'expression', value: text };
+}
+
+/**
+ * Parse a DDL script into the schema model. Statements and clauses that cannot
+ * be represented are reported in `issues` instead of being dropped silently.
+ */
+export function parseSqlDdl(sql: string): ImportedSchema {
+  return new SqlDdlImporter(sql).run();
+}
+
+/**
+ * Split a script into its statements, leaving semicolons inside strings,
+ * comments and trigger bodies (BEGIN ... END) alone
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current: SqlToken[] = [];
+  let depth = 0;
+
+  for (const token of tokenizeSql(sql)) {
+    const word = token.type === 'word' ? token.value.toUpperCase() : null;
+    // A BEGIN that starts a statement opens a transaction, not a block
+    if ((word === 'BEGIN' && current.length > 0) || word === 'CASE') depth++;
+    if (word === 'END' && depth > 0) depth--;
+
+    if (token.type === 'symbol' && token.value === ';' && depth === 0) {
+      if (current.length > 0) statements.push(sql.slice(current[0].start, current[current.length - 1].end));
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(sql.slice(current[0].start, current[current.length - 1].end));
+  return statements;
+}
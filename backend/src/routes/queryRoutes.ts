@@ -1,10 +1,22 @@
 import { Router, Request, Response } from 'express';
-import { SQLExecutor, ExecuteQueryRequest } from '../services/sqlExecutor';
-import { ContainerSandboxManager } from '../services/containerSandboxManager';
+import { SQLExecutor, ExecuteQueryRequest, QUERY_ENGINES } from '../services/sqlExecutor';
+import { SessionNotFoundError } from '../services/sandboxManager';
+import { SessionManager } from '../services/sessionManager';
+import { RowChange, RowChangeError } from '../services/rowChanges';
+import { SeedDataError } from '../services/seedValidator';
+import { QueryCancelledError, QueryTimeoutError } from '../services/engines';
+import { parseDBML } from '../parser/dbmlParser';
+import { generateSQLSchema } from '../parser/schemaGenerator';
+import { generateDBML } from '../parser/dbmlGenerator';
+import { parseSqlDdl } from '../parser/sqlDdlParser';
+import { getDialect, DialectName } from '../dialects';
+import { ResultNotFoundError } from '../services/resultStore';
+import { queryTimeoutsFromEnv, resultStoreConfigFromEnv, sandboxManagerFromEnv } from '../config';
 
 const router = Router();
-const sandboxManager = new ContainerSandboxManager();
-const sqlExecutor = new SQLExecutor(sandboxManager);
+const sandboxManager = sandboxManagerFromEnv();
+const sessionManager = new SessionManager(undefined, undefined, queryTimeoutsFromEnv());
+const sqlExecutor = new SQLExecutor(sandboxManager, sessionManager, resultStoreConfigFromEnv());
 
 /**
  * POST /api/execute-query
@@ -12,7 +24,7 @@ const sqlExecutor = new SQLExecutor(sandboxManager);
  */
 router.post('/execute-query', async (req: Request, res: Response) => {
   try {
-    const { sessionId, dbml, data, query, engine } = req.body as ExecuteQueryRequest;
+    const { sessionId, dbml, data, query, engine, limits, timeoutMs } = req.body as ExecuteQueryRequest;
 
     // Validation
     if (!dbml || !query) {
@@ -22,13 +34,28 @@ router.post('/execute-query', async (req: Request, res: Response) => {
       });
     }
 
-    if (!data || typeof data !== 'object') {
+    // A live session can be queried without resending its data
+    if (data === undefined ? !sessionId : !data || typeof data !== 'object') {
       return res.status(400).json({
         success: false,
         error: 'Data must be an object with table names as keys',
       });
     }
 
+    if (engine !== undefined && !QUERY_ENGINES.includes(engine)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported engine: ${String(engine)}. Supported engines: ${QUERY_ENGINES.join(', ')}`,
+      });
+    }
+
+    if (limits !== undefined && (typeof limits !== 'object' || limits === null || Array.isArray(limits))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Limits must be an object, e.g. { "memoryMb": 512 }',
+      });
+    }
+
     // Validate query
     const validation = sqlExecutor.validateQuery(query);
     if (!validation.valid) {
@@ -38,8 +65,18 @@ router.post('/execute-query', async (req: Request, res: Response) => {
       });
     }
 
+    // Validate DBML schema
+    const schemaValidation = sqlExecutor.validateSchema(dbml);
+    if (!schemaValidation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: schemaValidation.error,
+        diagnostics: schemaValidation.diagnostics,
+      });
+    }
+
     // Execute query (sessionId is optional - will be created if not provided)
-    const result = await sqlExecutor.execute({ sessionId, dbml, data, query, engine });
+    const result = await sqlExecutor.execute({ sessionId, dbml, data, query, engine, limits, timeoutMs });
 
     if (result.success) {
       return res.json(result);
@@ -54,16 +91,210 @@ router.post('/execute-query', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/generate-ddl
+ * Render DBML as DDL for a given dialect (postgres, mysql, sqlite, sqlserver)
+ */
+router.post('/generate-ddl', (req: Request, res: Response) => {
+  const { dbml, engine = 'postgres' } = req.body as { dbml?: string; engine?: DialectName };
+
+  if (!dbml) {
+    return res.status(400).json({ success: false, error: 'Missing required field: dbml' });
+  }
+
+  const validation = sqlExecutor.validateSchema(dbml);
+  if (!validation.valid) {
+    return res.status(400).json({ success: false, error: validation.error, diagnostics: validation.diagnostics });
+  }
+
+  try {
+    const statements = generateSQLSchema(parseDBML(dbml), getDialect(engine));
+    return res.json({ success: true, engine, statements, diagnostics: validation.diagnostics });
+  } catch (error: unknown) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate DDL',
+    });
+  }
+});
+
+/**
+ * POST /api/import-ddl
+ * Convert a CREATE TABLE script (Postgres, MySQL or SQLite) into DBML
+ */
+router.post('/import-ddl', (req: Request, res: Response) => {
+  const { sql } = req.body as { sql?: string };
+
+  if (!sql || typeof sql !== 'string') {
+    return res.status(400).json({ success: false, error: 'Missing required field: sql' });
+  }
+
+  try {
+    const imported = parseSqlDdl(sql);
+    if (imported.tables.length === 0) {
+      return res.status(400).json({ success: false, error: 'No CREATE TABLE statements found', issues: imported.issues });
+    }
+
+    const dbml = generateDBML(imported);
+    const { diagnostics } = parseDBML(dbml);
+    return res.json({ success: true, dbml, issues: imported.issues, diagnostics });
+  } catch (error: unknown) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import DDL',
+    });
+  }
+});
+
+/**
+ * GET /api/session/:sessionId/schema
+ * Introspect the session's database and return its current schema as DBML
+ */
+router.get('/session/:sessionId/schema', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    if (sessionManager.getSessionInfo(sessionId)) {
+      return res.status(400).json({ success: false, error: 'Schema sync is not supported for SQLite sessions' });
+    }
+    const { dbml, warnings } = await sandboxManager.introspectSchema(sessionId);
+    res.json({ success: true, sessionId, dbml, warnings });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(error instanceof SessionNotFoundError ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+/**
+ * POST /api/session/:sessionId/rows
+ * Insert, update or delete individual rows of the session's database
+ */
+router.post('/session/:sessionId/rows', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const { changes } = req.body as { changes?: RowChange[] };
+    if (sessionManager.getSessionInfo(sessionId)) {
+      return res.status(400).json({ success: false, error: 'Row changes are not supported for SQLite sessions' });
+    }
+    // An open result's transaction may hold locks on the rows
+    await sqlExecutor.closeResults(sessionId);
+    const applied = await sandboxManager.applyRowChanges(sessionId, changes ?? []);
+    res.json({ success: true, sessionId, applied });
+  } catch (error: unknown) {
+    if (error instanceof RowChangeError) {
+      return res.status(400).json({ success: false, error: error.message, problems: error.problems });
+    }
+    res.status(error instanceof SessionNotFoundError ? 404 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/session/:sessionId/reset
+ * Restore the session's database to its seed. With `report: true`, also
+ * return what queries changed since seeding.
+ */
+router.post('/session/:sessionId/reset', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const { report } = (req.body ?? {}) as { report?: boolean };
+    await sqlExecutor.closeResults(sessionId);
+
+    if (sessionManager.getSessionInfo(sessionId)) {
+      if (report) {
+        return res.status(400).json({ success: false, error: 'Change reports are not supported for SQLite sessions' });
+      }
+      sessionManager.resetSession(sessionId);
+      return res.json({ success: true, sessionId });
+    }
+
+    const changes = await sandboxManager.resetSandbox(sessionId, report === true);
+    res.json({ success: true, sessionId, changes });
+  } catch (error: unknown) {
+    if (error instanceof SeedDataError) {
+      return res.status(400).json({ success: false, error: error.message, seedProblems: error.problems });
+    }
+    res.status(error instanceof SessionNotFoundError ? 404 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/session/:sessionId/cancel
+ * Stop the session's running query; it fails with `cancelled: true`
+ */
+router.post('/session/:sessionId/cancel', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const cancelled = sessionManager.getSessionInfo(sessionId)
+      ? sessionManager.cancelQuery(sessionId)
+      : await sandboxManager.cancelQuery(sessionId);
+    res.json({ success: true, sessionId, cancelled });
+  } catch (error: unknown) {
+    res.status(error instanceof SessionNotFoundError ? 404 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/session/:sessionId/results/:resultId?offset=&limit=
+ * A further page of the session's last query result
+ */
+router.get('/session/:sessionId/results/:resultId', async (req: Request, res: Response) => {
+  try {
+    const { sessionId, resultId } = req.params;
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ success: false, error: 'offset must be a non-negative integer' });
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      return res.status(400).json({ success: false, error: 'limit must be a positive integer' });
+    }
+
+    const page = await sqlExecutor.fetchResultPage(sessionId, resultId, offset, limit);
+    res.json({ success: true, sessionId, ...page });
+  } catch (error: unknown) {
+    // Rows are read as pages ask for them, so a page can fail like the query itself
+    res.status(error instanceof ResultNotFoundError ? 404 : 400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+      timedOut: error instanceof QueryTimeoutError || undefined,
+      cancelled: error instanceof QueryCancelledError || undefined,
+    });
+  }
+});
+
 /**
  * GET /api/health
  * Health check endpoint
  */
-router.get('/health', (req: Request, res: Response) => {
-  res.json({ 
-    status: 'ok', 
-    message: 'SQL Executor API is running',
-    activeSandboxes: sandboxManager.getActiveSandboxesCount(),
-  });
+router.get('/health', async (req: Request, res: Response) => {
+  try {
+    res.json({ 
+      status: 'ok', 
+      message: 'SQL Executor API is running',
+      activeSandboxes: await sandboxManager.getActiveSandboxesCount(),
+      activeSqliteSessions: sessionManager.getActiveSessionsCount(),
+      ...sandboxManager.getStats(),
+    });
+  } catch (error: unknown) {
+    // The session store, e.g. Redis, is unreachable
+    res.status(503).json({
+      success: false,
+      status: 'unavailable',
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
 });
 
 /**
@@ -73,7 +304,9 @@ router.get('/health', (req: Request, res: Response) => {
 router.delete('/session/:sessionId', async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
+    await sqlExecutor.closeResults(sessionId);
     await sandboxManager.deleteSandbox(sessionId);
+    sessionManager.deleteSession(sessionId);
     res.json({ success: true, message: 'Session deleted' });
   } catch (error: unknown) {
     res.status(500).json({
@@ -83,5 +316,13 @@ router.delete('/session/:sessionId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Remove every session's database, for shutdown
+ */
+export async function cleanupSessions(): Promise<void> {
+  await sandboxManager.cleanupAll();
+  sessionManager.cleanupAll();
+}
+
 export default router;
 
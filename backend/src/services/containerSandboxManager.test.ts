@@ -0,0 +1,432 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseDBML } from '../parser/dbmlParser';
+import { ContainerSandboxManager, SandboxConfig, SandboxInstance } from './containerSandboxManager';
+import { SessionNotFoundError } from './sandboxManager';
+import { MemorySessionStore } from './sessionStore';
+
+const docker = vi.hoisted(() => {
+  const state = {
+    containers: [] as unknown[],
+    created: [] as { id: string; engine: string }[],
+    hostConfigs: {} as Record<string, Record<string, unknown>>,
+    removed: [] as string[],
+    container(id: string): unknown {
+      return {
+        id,
+        start: async () => undefined,
+        stop: async () => undefined,
+        remove: async () => {
+          state.removed.push(id);
+        },
+        inspect: async () => ({ NetworkSettings: { Networks: { 'sql-sandbox': { IPAddress: '10.0.0.2' } } } }),
+      };
+    },
+  };
+  return state;
+});
+
+// Docker as a host listing `containers`, with every image and the sandbox
+// network present, that records which containers are created and removed
+vi.mock('dockerode', () => ({
+  default: class {
+    async listContainers(): Promise<unknown[]> {
+      return docker.containers;
+    }
+
+    async listImages(): Promise<unknown[]> {
+      return [{}];
+    }
+
+    async listNetworks(): Promise<unknown[]> {
+      return [{ Name: 'sql-sandbox' }];
+    }
+
+    async createContainer(options: {
+      name: string;
+      Labels: Record<string, string>;
+      HostConfig: Record<string, unknown>;
+    }): Promise<unknown> {
+      docker.created.push({ id: options.name, engine: options.Labels['sql-sandbox.engine'] });
+      docker.hostConfigs[options.name] = options.HostConfig;
+      return docker.container(options.name);
+    }
+
+    getContainer(id: string): unknown {
+      return docker.container(id);
+    }
+  },
+}));
+
+// Databases that answer at once and take any seed
+const engines = vi.hoisted(() => ({
+  calls: [] as string[], // what the databases were asked to do, in order
+  engine(name: string): unknown {
+    return class {
+      readonly name = name;
+      readonly label = name;
+      readonly defaultImage = `${name}:test`;
+      readonly containerPort = 5432;
+      readonly dataDirectory = '/data';
+
+      containerEnv(): string[] {
+        return [];
+      }
+
+      async ping(): Promise<void> {}
+
+      async seed(): Promise<void> {
+        engines.calls.push('seed');
+      }
+
+      buildSnapshot(): unknown {
+        return { statements: [] };
+      }
+
+      async restoreSnapshot(): Promise<void> {
+        engines.calls.push('restore snapshot');
+      }
+
+      async openQueryConnection(): Promise<unknown> {
+        engines.calls.push('open connection');
+        return {
+          alive: true,
+          executeQuery: async () => ({ read: async () => ({ rows: [], columns: [] }), close: async () => undefined }),
+          close: async () => {
+            engines.calls.push('close connection');
+          },
+        };
+      }
+
+      async compareWithSnapshot(): Promise<unknown> {
+        engines.calls.push('compare');
+        return { tables: [], createdTables: ['scratch'], droppedTables: [], alteredTables: [] };
+      }
+
+      async resetToSnapshot(): Promise<void> {
+        engines.calls.push('reset');
+      }
+    };
+  },
+}));
+vi.mock('./engines/postgresEngine', () => ({ PostgresEngine: engines.engine('postgres') }));
+vi.mock('./engines/mysqlEngine', () => ({ MySQLEngine: engines.engine('mysql') }));
+
+/**
+ * Sessions in this process, standing in for a store other replicas share
+ */
+class SharedStore extends MemorySessionStore<SandboxInstance> {
+  readonly shared = true;
+}
+
+/**
+ * Lists the sessions as they were before other replicas changed them
+ */
+class StaleListStore extends MemorySessionStore<SandboxInstance> {
+  constructor(private readonly listed: SandboxInstance[]) {
+    super();
+  }
+
+  async list(): Promise<SandboxInstance[]> {
+    return this.listed;
+  }
+}
+
+const DBML = 'Table users {\n  id int [pk]\n}';
+
+/**
+ * A manager done restoring, with `sessionIds` stored afterwards as started by some replica
+ */
+async function managerWith(
+  store: MemorySessionStore<SandboxInstance>,
+  sessionIds: string[]
+): Promise<ContainerSandboxManager> {
+  const manager = new ContainerSandboxManager({ registryPath: null, instanceId: 'replica-a' }, store);
+  // Deleting waits for the restore, which would drop sessions whose containers it cannot find
+  await manager.deleteSandbox('none');
+  for (const sessionId of sessionIds) await store.set(sandbox(sessionId));
+  docker.removed = [];
+  return manager;
+}
+
+function sandbox(sessionId: string): SandboxInstance {
+  return {
+    sessionId,
+    dbml: DBML,
+    schema: parseDBML(DBML),
+    deferredRelationships: [],
+    data: {},
+    dataHash: null,
+    engine: 'postgres',
+    containerId: `container-${sessionId}`,
+    address: { host: '127.0.0.1', port: 5432 },
+    createdAt: Date.now(),
+    lastAccessed: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  docker.containers = [];
+  docker.created = [];
+  docker.hostConfigs = {};
+  docker.removed = [];
+  engines.calls = [];
+});
+
+describe('ContainerSandboxManager engines', () => {
+  it('keeps the session on its engine when a request leaves the engine out', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+    const created = await manager.getOrCreateSandbox({ dbml: DBML, data: {}, engine: 'mysql' });
+
+    const reused = await manager.getOrCreateSandbox({ sessionId: created.sessionId, dbml: DBML });
+
+    expect(reused).toMatchObject({ sessionId: created.sessionId, engine: 'mysql', containerId: created.containerId });
+    expect(docker.created).toEqual([{ id: `sql-sandbox-${created.sessionId}`, engine: 'mysql' }]);
+    expect(docker.removed).toEqual([]);
+  });
+
+  it('moves the session and its rows to a new container when the engine changes', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+    const data = { users: [{ id: 1 }] };
+    const created = await manager.getOrCreateSandbox({ dbml: DBML, data, engine: 'mysql' });
+    docker.created = [];
+
+    const moved = await manager.getOrCreateSandbox({ sessionId: created.sessionId, dbml: DBML, engine: 'postgres' });
+
+    expect(moved).toMatchObject({ sessionId: created.sessionId, engine: 'postgres', data });
+    expect(docker.removed).toEqual([created.containerId]);
+    expect(docker.created).toEqual([{ id: `sql-sandbox-${created.sessionId}`, engine: 'postgres' }]);
+  });
+
+  it('starts new sessions on Postgres', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+
+    expect(await manager.getOrCreateSandbox({ dbml: DBML, data: {} })).toMatchObject({ engine: 'postgres' });
+  });
+});
+
+describe('ContainerSandboxManager limits', () => {
+  const MB = 1024 * 1024;
+
+  it('runs containers with the default limits, few capabilities and no route out', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+
+    const { containerId } = await manager.getOrCreateSandbox({ dbml: DBML, data: {} });
+
+    expect(docker.hostConfigs[containerId]).toEqual({
+      AutoRemove: false,
+      Memory: 1024 * MB,
+      MemorySwap: 1024 * MB,
+      NanoCpus: 1e9,
+      PidsLimit: 256,
+      Tmpfs: { '/data': 'rw,nosuid,nodev,size=512m' },
+      CapDrop: ['ALL'],
+      CapAdd: ['CHOWN', 'DAC_OVERRIDE', 'FOWNER', 'SETGID', 'SETUID'],
+      SecurityOpt: ['no-new-privileges'],
+      NetworkMode: 'sql-sandbox',
+    });
+  });
+
+  it('applies configured limits, per-exam overrides up to maxLimits and a storage quota', async () => {
+    const manager = new ContainerSandboxManager({
+      registryPath: null,
+      limits: { memoryMb: 256, cpus: 0.5 },
+      maxLimits: { memoryMb: 2048 },
+      storageSize: '1G',
+    });
+
+    const { containerId } = await manager.getOrCreateSandbox({ dbml: DBML, data: {}, limits: { memoryMb: 2048 } });
+
+    expect(docker.hostConfigs[containerId]).toMatchObject({
+      Memory: 2048 * MB,
+      NanoCpus: 5e8,
+      PidsLimit: 256,
+      StorageOpt: { size: '1G' },
+    });
+  });
+
+  it.each([
+    [{ memoryMb: 4096 }, 'limits.memoryMb must be a positive number no greater than 2048'],
+    [{ cpus: 2 }, 'limits.cpus must be a positive number no greater than 1'],
+    [{ pids: 0 }, 'limits.pids must be a positive number no greater than 256'],
+    [{ tmpfsMb: '64' as unknown as number }, 'limits.tmpfsMb must be a positive number no greater than 512'],
+  ])('rejects limits %o without starting a container', async (limits, message) => {
+    const manager = new ContainerSandboxManager({ registryPath: null, maxLimits: { memoryMb: 2048 } });
+
+    await expect(manager.getOrCreateSandbox({ dbml: DBML, data: {}, limits })).rejects.toThrow(message);
+    expect(docker.created).toEqual([]);
+  });
+
+  it('publishes the database port on the loopback interface only without a sandbox network', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null, network: null });
+
+    const { containerId, address } = await manager.getOrCreateSandbox({ dbml: DBML, data: {} });
+
+    expect(address.host).toBe('127.0.0.1');
+    expect(docker.hostConfigs[containerId]).toMatchObject({
+      PortBindings: { '5432/tcp': [{ HostIp: '127.0.0.1', HostPort: String(address.port) }] },
+    });
+    expect(docker.hostConfigs[containerId]).not.toHaveProperty('NetworkMode');
+  });
+});
+
+describe('ContainerSandboxManager warm pool', () => {
+  const createdIds = (): string[] => docker.created.map(c => c.id);
+
+  async function warmedManager(config: Partial<SandboxConfig>): Promise<ContainerSandboxManager> {
+    const manager = new ContainerSandboxManager({ registryPath: null, ...config });
+    // The pool starts filling once the restore is done, which deleting waits for
+    await manager.deleteSandbox('none');
+    await vi.waitFor(() => {
+      const { engines } = manager.getWarmPoolStats();
+      expect(Object.values(engines).every(engine => engine.starting === 0)).toBe(true);
+    });
+    return manager;
+  }
+
+  it('gives a new session a ready container and starts another in its place', async () => {
+    const manager = await warmedManager({ warmPoolSize: { postgres: 2 } });
+    const warm = createdIds();
+    expect(warm).toHaveLength(2);
+    expect(warm.every(id => id.startsWith('sql-sandbox-warm-'))).toBe(true);
+
+    const session = await manager.getOrCreateSandbox({ dbml: DBML, data: {} });
+
+    expect(session.containerId).toBe(warm[0]);
+    await vi.waitFor(() =>
+      expect(manager.getWarmPoolStats().engines.postgres).toEqual({ target: 2, ready: 2, starting: 0 })
+    );
+    expect(createdIds()).toHaveLength(3);
+  });
+
+  it('starts a container of its own for a session with other limits', async () => {
+    const manager = await warmedManager({ warmPoolSize: { postgres: 1 } });
+
+    const session = await manager.getOrCreateSandbox({ dbml: DBML, data: {}, limits: { memoryMb: 128 } });
+
+    expect(session.containerId).toBe(`sql-sandbox-${session.sessionId}`);
+    expect(manager.getWarmPoolStats().engines.postgres).toMatchObject({ ready: 1 });
+  });
+
+  it('keeps no more warm containers than maxWarmContainers across engines', async () => {
+    const manager = await warmedManager({ warmPoolSize: { postgres: 2, mysql: 2 }, maxWarmContainers: 3 });
+
+    const { engines } = manager.getWarmPoolStats();
+    expect(engines.postgres.ready + engines.mysql.ready).toBe(3);
+    expect(createdIds()).toHaveLength(3);
+  });
+
+  it('removes its warm containers on shutdown', async () => {
+    const manager = await warmedManager({ warmPoolSize: { mysql: 2 } });
+    const warm = createdIds();
+
+    await manager.cleanupAll();
+
+    expect(docker.removed.sort()).toEqual(warm.sort());
+    expect(manager.getWarmPoolStats().engines.mysql).toEqual({ target: 2, ready: 0, starting: 0 });
+  });
+});
+
+describe('ContainerSandboxManager templates', () => {
+  it('loads the snapshot of the first session into later ones with the same schema and data', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+    const data = { users: [{ id: 1 }] };
+
+    await manager.getOrCreateSandbox({ dbml: DBML, data });
+    await manager.getOrCreateSandbox({ dbml: DBML, data });
+    await manager.getOrCreateSandbox({ dbml: DBML, data: { users: [{ id: 2 }] } });
+
+    expect(engines.calls).toEqual(['seed', 'restore snapshot', 'seed']);
+    expect(manager.getStats().templates).toEqual({ entries: 2, maxEntries: 20, hits: 1, misses: 2 });
+  });
+
+  it('seeds every session with a templateCacheSize of 0', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null, templateCacheSize: 0 });
+
+    await manager.getOrCreateSandbox({ dbml: DBML, data: {} });
+    await manager.getOrCreateSandbox({ dbml: DBML, data: {} });
+
+    expect(engines.calls).toEqual(['seed', 'seed']);
+  });
+});
+
+describe('ContainerSandboxManager.resetSandbox', () => {
+  const QUERY = { maxRows: 10 };
+
+  async function sessionWithConnection(manager: ContainerSandboxManager): Promise<string> {
+    const { sessionId } = await manager.getOrCreateSandbox({ dbml: DBML, data: { users: [{ id: 1 }] } });
+    await manager.executeQuery(sessionId, 'CREATE TABLE scratch (n int)', QUERY);
+    engines.calls = [];
+    return sessionId;
+  }
+
+  it('closes the query connection, then reports the changes and restores the seed', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+    const sessionId = await sessionWithConnection(manager);
+
+    const changes = await manager.resetSandbox(sessionId, true);
+
+    expect(changes).toEqual({ tables: [], createdTables: ['scratch'], droppedTables: [], alteredTables: [] });
+    expect(engines.calls).toEqual(['close connection', 'compare', 'reset']);
+  });
+
+  it('skips the comparison without a report and reconnects for the next query', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+    const sessionId = await sessionWithConnection(manager);
+
+    expect(await manager.resetSandbox(sessionId, false)).toBeUndefined();
+    await manager.executeQuery(sessionId, 'SELECT 1', QUERY);
+
+    expect(engines.calls).toEqual(['close connection', 'reset', 'open connection']);
+  });
+
+  it('rejects sessions it does not know', async () => {
+    const manager = new ContainerSandboxManager({ registryPath: null });
+
+    await expect(manager.resetSandbox('missing', false)).rejects.toBeInstanceOf(SessionNotFoundError);
+  });
+});
+
+describe('ContainerSandboxManager restore', () => {
+  it('acts on the stored session, not on the listing it started from', async () => {
+    const store = new StaleListStore([sandbox('moved'), sandbox('gone')]);
+    // Another replica recreated both sessions in new containers after the listing
+    await store.set({ ...sandbox('moved'), containerId: 'container-moved-2' });
+    await store.set({ ...sandbox('gone'), containerId: 'container-gone-2' });
+    docker.containers = [
+      {
+        Id: 'container-moved',
+        State: 'running',
+        Labels: { 'sql-sandbox.managed': 'true', 'sql-sandbox.engine': 'postgres', 'sql-sandbox.owner': 'replica-b' },
+      },
+    ];
+
+    const manager = new ContainerSandboxManager({ registryPath: null, instanceId: 'replica-a' }, store);
+    await manager.deleteSandbox('none');
+
+    expect(await store.get('moved')).toMatchObject({ containerId: 'container-moved-2' });
+    expect(await store.get('gone')).toMatchObject({ containerId: 'container-gone-2' });
+    expect(docker.removed).toEqual([]);
+  });
+});
+
+describe('ContainerSandboxManager.cleanupAll', () => {
+  it('leaves the sessions of a shared store to the other replicas', async () => {
+    const store = new SharedStore();
+    const manager = await managerWith(store, ['ours', 'theirs']);
+
+    await manager.cleanupAll();
+
+    expect((await store.list()).map(s => s.sessionId)).toEqual(['ours', 'theirs']);
+    expect(docker.removed).toEqual([]);
+  });
+
+  it('removes every session of a store of its own', async () => {
+    const store = new MemorySessionStore<SandboxInstance>();
+    const manager = await managerWith(store, ['a', 'b']);
+
+    await manager.cleanupAll();
+
+    expect(await store.list()).toEqual([]);
+    expect(docker.removed.sort()).toEqual(['container-a', 'container-b']);
+  });
+});
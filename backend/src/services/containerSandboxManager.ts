@@ -1,13 +1,56 @@
-import Docker, { Container } from 'dockerode';
-import { Client, FieldDef } from 'pg';
+import Docker, { Container, ContainerInspectInfo } from 'dockerode';
 import * as net from 'net';
+import * as os from 'os';
 import { Readable } from 'stream';
-import { parseDBML, generateSQLSchema } from '../parser/dbmlParser';
-
-export type SupportedEngine = 'postgres';
+import { ParsedDBML, Relationship, parseDBML } from '../parser/dbmlParser';
+import { generateDBML } from '../parser/dbmlGenerator';
+import { SeedData, SeedDataError } from './seedValidator';
+import { planSeed } from './seedPlanner';
+import { RowChange, RowChangeError, applyRowChangesToData, orderRowChanges, validateRowChanges } from './rowChanges';
+import { TemplateCache, TemplateCacheStats } from './templateCache';
+import { SandboxRegistry } from './sandboxRegistry';
+import { MemorySessionStore, SessionStore } from './sessionStore';
+import {
+  ContainerLimits,
+  QueryConnections,
+  RunningQueries,
+  SandboxManager,
+  SandboxQueryOptions,
+  SandboxRequest,
+  SessionNotFoundError,
+  resolveQueryTimeout,
+  seedDataHash,
+} from './sandboxManager';
+import {
+  PreparedSeed,
+  ResultCursor,
+  SUPPORTED_ENGINES,
+  SandboxAddress,
+  SandboxEngine,
+  SeedChanges,
+  SupportedEngine,
+  createEngines,
+} from './engines';
+
+export type { SupportedEngine } from './engines';
+
+const DEFAULT_LIMITS: ContainerLimits = {
+  memoryMb: 1024,
+  cpus: 1,
+  pids: 256,
+  tmpfsMb: 512,
+};
+
+// What the images' entrypoints need to prepare the data directory and drop to the database user
+const CAPABILITIES = ['CHOWN', 'DAC_OVERRIDE', 'FOWNER', 'SETGID', 'SETUID'];
+
+// Marks every container this manager starts
+const MANAGED_LABEL = 'sql-sandbox.managed';
+const ENGINE_LABEL = 'sql-sandbox.engine';
+const OWNER_LABEL = 'sql-sandbox.owner';
 
 export interface SandboxConfig {
-  image: string;
+  images: Partial<Record<SupportedEngine, string>>; // defaults to each engine's own image
   username: string;
   password: string;
   database: string;
@@ -15,42 +58,75 @@ export interface SandboxConfig {
   readinessTimeoutMs: number;
   readinessRetryDelayMs: number;
   cleanupIntervalMs: number;
+  warmPoolSize: Partial<Record<SupportedEngine, number>>; // ready containers kept per engine for new sessions
+  maxWarmContainers: number; // across engines, counting ones still starting
+  warmPoolRefillIntervalMs: number;
+  templateCacheSize: number; // seeded database snapshots kept for new sessions; 0 disables cloning
+  templateTtlMs: number;
+  queryTimeoutMs: number; // for requests that set none
+  maxQueryTimeoutMs: number;
+  limits: Partial<ContainerLimits>; // over DEFAULT_LIMITS, for every container
+  maxLimits: Partial<ContainerLimits>; // ceiling for per-exam overrides; defaults to `limits`
+  storageSize: string | null; // writable layer size such as '1G'; needs a storage driver with quota support
+  network: string | null; // internal Docker network without egress; null publishes ports on 127.0.0.1 instead
+  registryPath: string | null; // file the in-memory store saves sessions to, for adoption after a restart; null turns that off
+  instanceId: string; // owner label of the containers this process starts; stable across restarts
 }
 
-export interface SandboxRequest {
-  sessionId?: string;
-  dbml: string;
-  data: Record<string, Record<string, unknown>[]>;
-  engine?: SupportedEngine;
-}
-
-interface SandboxInstance {
+/**
+ * A session as kept in the session store
+ */
+export interface SandboxInstance {
   sessionId: string;
   dbml: string;
-  dataHash: string;
+  schema: ParsedDBML; // what the database was last built or migrated to
+  deferredRelationships: Relationship[];
+  data: SeedData; // seed rows with row changes applied, used whenever the database is rebuilt
+  dataHash: string | null; // null after row changes until full data is compared again
   engine: SupportedEngine;
   containerId: string;
-  hostPort: number;
+  address: SandboxAddress;
   createdAt: number;
   lastAccessed: number;
 }
 
-interface QueryResult {
-  rows: unknown[];
-  columns: string[];
+/**
+ * A started container whose database accepts connections but has no schema yet
+ */
+interface WarmContainer {
+  container: Container;
+  address: SandboxAddress;
+}
+
+export interface WarmPoolStats {
+  maxContainers: number;
+  engines: Record<SupportedEngine, { target: number; ready: number; starting: number }>;
 }
 
-export class ContainerSandboxManager {
+export class ContainerSandboxManager implements SandboxManager {
   private docker: Docker;
-  private sandboxes: Map<string, SandboxInstance> = new Map();
-  private ensureImagePromise: Promise<void> | null = null;
+  private engines: Record<SupportedEngine, SandboxEngine>;
+  private store: SessionStore<SandboxInstance>;
+  private ensureImagePromises: Map<string, Promise<void>> = new Map();
+  private networkReady: Promise<void> | null = null;
+  private warmPool: Map<SupportedEngine, WarmContainer[]> = new Map();
+  private warmStarting: Map<SupportedEngine, number> = new Map();
+  private templates: TemplateCache;
+  private runningQueries = new RunningQueries();
+  private queryConnections = new QueryConnections();
+  private restored: Promise<void>;
+  private closed = false;
   private cleanupTimer: NodeJS.Timeout;
+  private refillTimer: NodeJS.Timeout;
   private config: SandboxConfig;
 
-  constructor(config?: Partial<SandboxConfig>) {
+  /**
+   * `store` defaults to this process's memory, saved to `registryPath`
+   */
+  constructor(config?: Partial<SandboxConfig>, store?: SessionStore<SandboxInstance>) {
     this.docker = new Docker();
     this.config = {
-      image: 'wodby/postgres:15',
+      images: {},
       username: 'sandbox',
       password: 'sandbox',
       database: 'sandbox',
@@ -58,99 +134,370 @@ export class ContainerSandboxManager {
       readinessTimeoutMs: 60 * 1000, // 60s
       readinessRetryDelayMs: 2000, // 2s
       cleanupIntervalMs: 5 * 60 * 1000, // 5 minutes
+      warmPoolSize: {},
+      maxWarmContainers: 10,
+      warmPoolRefillIntervalMs: 30 * 1000, // 30s
+      templateCacheSize: 20,
+      templateTtlMs: 60 * 60 * 1000, // 1 hour
+      queryTimeoutMs: 30 * 1000, // 30s
+      maxQueryTimeoutMs: 5 * 60 * 1000, // 5 minutes
+      limits: {},
+      maxLimits: {},
+      storageSize: null,
+      network: 'sql-sandbox',
+      registryPath: './sessions/sandboxes.json',
+      instanceId: os.hostname(),
       ...config,
     };
+    this.engines = createEngines(this.config);
+    this.templates = new TemplateCache(this.config.templateCacheSize, this.config.templateTtlMs);
+    this.store =
+      store ?? new MemorySessionStore(this.config.registryPath ? new SandboxRegistry(this.config.registryPath) : null);
 
     this.cleanupTimer = setInterval(() => {
       void this.cleanupExpiredSandboxes();
+      this.templates.evictExpired();
     }, this.config.cleanupIntervalMs).unref();
+
+    // Also retries containers that failed to start, e.g. while Docker was unavailable
+    this.refillTimer = setInterval(() => {
+      this.replenishWarmPool();
+    }, this.config.warmPoolRefillIntervalMs).unref();
+
+    // Warm containers of an earlier process are removed before new ones start
+    this.restored = this.restoreSandboxes()
+      .catch(error => console.error('Failed to restore sandboxes from a previous run:', error))
+      .then(() => this.replenishWarmPool());
   }
 
   async getOrCreateSandbox(request: SandboxRequest): Promise<SandboxInstance> {
-    const engine: SupportedEngine = request.engine ?? 'postgres';
-    const normalizedSessionId =
-      request.sessionId && this.sandboxes.has(request.sessionId)
-        ? request.sessionId
-        : this.generateSessionId();
-
-    const existing = this.sandboxes.get(normalizedSessionId);
-    const dataHash = this.computeDataHash(request.dbml, request.data);
-
-    if (existing) {
-      if (existing.dbml !== request.dbml || existing.dataHash !== dataHash) {
-        return await this.replaceSandbox(existing.sessionId, request.dbml, request.data, engine, dataHash);
-      } else {
-        existing.lastAccessed = Date.now();
-        return existing;
+    await this.restored;
+    const limits = this.resolveLimits(request.limits);
+
+    const known = request.sessionId ? await this.store.get(request.sessionId) : undefined;
+    if (!known) {
+      if (request.data === undefined) {
+        throw new SessionNotFoundError();
       }
+      const seed = this.prepareSeed(request.dbml, request.data);
+      const dataHash = seedDataHash(request.data);
+      const engine = request.engine ?? 'postgres';
+      return await this.createSandbox(this.generateSessionId(), request.dbml, seed, engine, limits, dataHash);
     }
 
-    return await this.createSandbox(normalizedSessionId, request.dbml, request.data, engine, dataHash);
+    // Replicas sharing the store must not rebuild the same session at once
+    return await this.store.withLock(known.sessionId, async () => {
+      const existing = await this.store.get(known.sessionId);
+      if (!existing) throw new SessionNotFoundError();
+      // Follow-up requests may leave the engine out
+      const engine = request.engine ?? existing.engine;
+
+      // Without data the session keeps its rows, including row changes applied since seeding
+      let dataHash = existing.dataHash;
+      let dataChanged = false;
+      if (request.data !== undefined) {
+        existing.dataHash ??= seedDataHash(existing.data);
+        dataHash = seedDataHash(request.data);
+        dataChanged = dataHash !== existing.dataHash;
+      }
+
+      if (existing.engine !== engine) {
+        // Switching engines needs a different container, seeded with the session's rows
+        const seed = this.prepareSeed(request.dbml, request.data ?? existing.data);
+        return await this.replaceSandbox(existing, request.dbml, seed, engine, limits, dataHash);
+      }
+
+      if (existing.dbml !== request.dbml || dataChanged) {
+        const seed = this.prepareSeed(request.dbml, request.data ?? existing.data);
+        if (await this.migrateSandbox(existing, request.dbml, seed, dataHash)) {
+          return existing;
+        }
+        return await this.replaceSandbox(existing, request.dbml, seed, engine, limits, dataHash);
+      }
+
+      existing.lastAccessed = Date.now();
+      await this.store.touch(existing.sessionId);
+      return existing;
+    });
   }
 
-  async executeQuery(sessionId: string, query: string): Promise<QueryResult> {
-    const sandbox = this.sandboxes.get(sessionId);
-    if (!sandbox) {
-      throw new Error('Sandbox session not found or expired');
-    }
+  async executeQuery(sessionId: string, query: string, options: SandboxQueryOptions): Promise<ResultCursor> {
+    const sandbox = await this.getSandbox(sessionId);
+    const timeout = resolveQueryTimeout(options.timeoutMs, this.config.queryTimeoutMs, this.config.maxQueryTimeoutMs);
+    const connection = await this.queryConnections.get(sessionId, () =>
+      this.engines[sandbox.engine].openQueryConnection(sandbox.address)
+    );
+    const cursor = await this.runningQueries.run(sessionId, signal =>
+      connection.executeQuery(query, { timeoutMs: timeout, signal, maxRows: options.maxRows })
+    );
+    return this.runningQueries.track(sessionId, cursor);
+  }
 
-    sandbox.lastAccessed = Date.now();
+  /**
+   * Only reaches queries this process runs; replicas do not share them
+   */
+  async cancelQuery(sessionId: string): Promise<boolean> {
+    await this.getSandbox(sessionId);
+    return this.runningQueries.cancel(sessionId);
+  }
 
-    switch (sandbox.engine) {
-      case 'postgres':
-        return await this.executePostgresQuery(sandbox.hostPort, query);
-      default:
-        throw new Error(`Unsupported engine: ${sandbox.engine}`);
-    }
+  /**
+   * Describe the sandbox's current schema as DBML, including changes made by
+   * queries since seeding. The result becomes the session's DBML so sending it
+   * back with the same data reuses the sandbox instead of reseeding it.
+   */
+  async introspectSchema(sessionId: string): Promise<{ dbml: string; warnings: string[] }> {
+    return await this.store.withLock(sessionId, async () => {
+      const sandbox = await this.getSandbox(sessionId);
+
+      const schema = await this.engines[sandbox.engine].introspect(sandbox.address, sandbox.schema);
+      const dbml = generateDBML(schema);
+      sandbox.dbml = dbml;
+      // Deferrability is not introspected; the next migration re-adds foreign keys a seed needs deferred
+      sandbox.schema = { tables: schema.tables, relationships: schema.relationships, enums: schema.enums, diagnostics: [] };
+      sandbox.deferredRelationships = [];
+      await this.store.set(sandbox);
+      return { dbml, warnings: schema.warnings };
+    });
+  }
+
+  /**
+   * Apply row-level edits to the live database in one transaction and keep the
+   * session's seed data in step, so later requests can leave `data` out
+   */
+  async applyRowChanges(sessionId: string, changes: RowChange[]): Promise<number> {
+    return await this.store.withLock(sessionId, async () => {
+      const sandbox = await this.getSandbox(sessionId);
+
+      const problems = validateRowChanges(sandbox.schema, changes);
+      if (problems.length > 0) {
+        throw new RowChangeError(problems);
+      }
+
+      const ordered = orderRowChanges(sandbox.schema, changes);
+      // A transaction left open by a query could hold locks on the rows
+      await this.queryConnections.release(sessionId);
+      const generated = await this.engines[sandbox.engine].applyRowChanges(
+        sandbox.address,
+        sandbox.schema,
+        ordered,
+        changes
+      );
+
+      applyRowChangesToData(sandbox.schema, sandbox.data, ordered, generated);
+      sandbox.dataHash = null;
+      await this.store.set(sandbox);
+      return changes.length;
+    });
+  }
+
+  /**
+   * Reload the session's seed into its running container, from the template
+   * cache when an identical session seeded it already
+   */
+  async resetSandbox(sessionId: string, report: boolean): Promise<SeedChanges | undefined> {
+    return await this.store.withLock(sessionId, async () => {
+      const sandbox = await this.getSandbox(sessionId);
+      const engine = this.engines[sandbox.engine];
+
+      const seed = this.prepareSeed(sandbox.dbml, sandbox.data);
+      const templateKey = TemplateCache.key(sandbox.engine, sandbox.dbml, sandbox.data);
+      const snapshot = this.templates.get(templateKey) ?? engine.buildSnapshot(seed);
+
+      // Ends a transaction left open by a query, and the temporary tables on its connection
+      await this.queryConnections.release(sessionId);
+      const changes = report
+        ? await engine.compareWithSnapshot(sandbox.address, snapshot, seed.parsed.tables.map(t => t.name))
+        : undefined;
+      await engine.resetToSnapshot(sandbox.address, snapshot);
+      this.templates.set(templateKey, snapshot);
+      return changes;
+    });
   }
 
   async deleteSandbox(sessionId: string): Promise<void> {
-    const sandbox = this.sandboxes.get(sessionId);
-    if (!sandbox) return;
+    await this.restored;
+    await this.store.withLock(sessionId, async () => {
+      const sandbox = await this.store.get(sessionId);
+      if (sandbox) await this.removeSandbox(sandbox);
+    });
+  }
 
-    await this.removeContainer(sandbox.containerId);
-    this.sandboxes.delete(sessionId);
+  async getActiveSandboxesCount(): Promise<number> {
+    return (await this.store.list()).length;
+  }
+
+  getStats(): { warmPool: WarmPoolStats; templates: TemplateCacheStats } {
+    return { warmPool: this.getWarmPoolStats(), templates: this.getTemplateCacheStats() };
+  }
+
+  getWarmPoolStats(): WarmPoolStats {
+    const engines = {} as WarmPoolStats['engines'];
+    for (const engine of SUPPORTED_ENGINES) {
+      engines[engine] = {
+        target: this.config.warmPoolSize[engine] ?? 0,
+        ready: this.warmPool.get(engine)?.length ?? 0,
+        starting: this.warmStarting.get(engine) ?? 0,
+      };
+    }
+    return { maxContainers: this.config.maxWarmContainers, engines };
   }
 
-  getActiveSandboxesCount(): number {
-    return this.sandboxes.size;
+  getTemplateCacheStats(): TemplateCacheStats {
+    return this.templates.getStats();
   }
 
+  /**
+   * Remove the warm pool and, with a store of this process only, every
+   * session. Sessions in a shared store stay for the other replicas to serve,
+   * and their expiry cleanup removes them in time.
+   */
   async cleanupAll(): Promise<void> {
-    const deletions = Array.from(this.sandboxes.keys()).map(sessionId => this.deleteSandbox(sessionId));
-    await Promise.allSettled(deletions);
+    await this.restored;
+    this.closed = true;
+    clearInterval(this.refillTimer);
+    this.templates.clear();
+
+    const warm = Array.from(this.warmPool.values()).flat();
+    this.warmPool.clear();
+
+    const sessions = this.store.shared ? [] : await this.store.list();
+    const deletions = sessions.map(sandbox => this.deleteSandbox(sandbox.sessionId));
+    await Promise.allSettled([
+      ...deletions,
+      ...warm.map(({ container }) => this.safeRemoveContainer(container)),
+      this.queryConnections.releaseAll(),
+    ]);
+    await this.store.close();
+  }
+
+  /**
+   * The session's sandbox, counting this as a use of it
+   */
+  private async getSandbox(sessionId: string): Promise<SandboxInstance> {
+    await this.restored;
+    const sandbox = await this.store.get(sessionId);
+    if (!sandbox) {
+      throw new SessionNotFoundError();
+    }
+
+    sandbox.lastAccessed = Date.now();
+    await this.store.touch(sessionId);
+    return sandbox;
+  }
+
+  /**
+   * Remove the session's container and forget it; the caller holds the session's lock
+   */
+  private async removeSandbox(sandbox: SandboxInstance): Promise<void> {
+    await this.queryConnections.release(sandbox.sessionId);
+    await this.removeContainer(sandbox.containerId);
+    await this.store.delete(sandbox.sessionId);
+  }
+
+  /**
+   * Parse, validate and order the seed before any container is touched
+   */
+  private prepareSeed(dbml: string, data: SeedData): PreparedSeed {
+    const parsed = parseDBML(dbml);
+    const plan = planSeed(parsed, data);
+    if (plan.problems.length > 0) {
+      throw new SeedDataError(plan.problems);
+    }
+    return { parsed, plan, data };
+  }
+
+  /**
+   * Bring a running sandbox up to date without a new container. Returns false
+   * when the engine cannot make the change in place or the database rejects
+   * the migration; it is rolled back and the caller recreates the sandbox instead.
+   */
+  private async migrateSandbox(
+    sandbox: SandboxInstance,
+    dbml: string,
+    seed: PreparedSeed,
+    dataHash: string | null
+  ): Promise<boolean> {
+    const engine = this.engines[sandbox.engine];
+    const statements = engine.planMigration(
+      { parsed: sandbox.schema, deferredRelationships: sandbox.deferredRelationships },
+      seed
+    );
+    if (!statements) return false;
+
+    // Formatting or comment-only DBML edits keep the data, including changes made by queries
+    if (statements.length > 0 || sandbox.dataHash !== dataHash) {
+      try {
+        // The reseed would wait on locks held by a transaction left open by a query
+        await this.queryConnections.release(sandbox.sessionId);
+        await engine.reseed(sandbox.address, sandbox.schema, statements, seed);
+      } catch (error) {
+        // Rows the new schema rejects would be rejected by a fresh container too
+        if (error instanceof SeedDataError) throw error;
+        console.error(`Failed to migrate sandbox ${sandbox.sessionId}, recreating it:`, error);
+        return false;
+      }
+    }
+
+    sandbox.dbml = dbml;
+    sandbox.schema = seed.parsed;
+    sandbox.deferredRelationships = seed.plan.deferred;
+    sandbox.data = seed.data;
+    sandbox.dataHash = dataHash;
+    sandbox.lastAccessed = Date.now();
+    await this.store.set(sandbox);
+    return true;
   }
 
   private async replaceSandbox(
-    sessionId: string,
+    sandbox: SandboxInstance,
     dbml: string,
-    data: Record<string, Record<string, unknown>[]>,
+    seed: PreparedSeed,
     engine: SupportedEngine,
-    dataHash: string
+    limits: ContainerLimits,
+    dataHash: string | null
   ): Promise<SandboxInstance> {
-    await this.deleteSandbox(sessionId);
-    return await this.createSandbox(sessionId, dbml, data, engine, dataHash);
+    await this.removeSandbox(sandbox);
+    return await this.createSandbox(sandbox.sessionId, dbml, seed, engine, limits, dataHash);
   }
 
   private async createSandbox(
     sessionId: string,
     dbml: string,
-    data: Record<string, Record<string, unknown>[]>,
+    seed: PreparedSeed,
     engine: SupportedEngine,
-    dataHash: string
+    limits: ContainerLimits,
+    dataHash: string | null
   ): Promise<SandboxInstance> {
-    if (engine !== 'postgres') {
-      throw new Error(`Engine ${engine} is not supported yet`);
+    const sandboxEngine = this.engines[engine];
+    if (!sandboxEngine) {
+      throw new Error(`Unsupported engine: ${engine}`);
     }
 
-    await this.ensureImage(engine);
-    const hostPort = await this.allocatePort();
-    const container = await this.launchPostgresContainer(sessionId, hostPort);
+    // Warm containers were started with the default limits
+    const warm = this.isDefaultLimits(limits) ? await this.claimWarmContainer(sandboxEngine) : null;
+    this.replenishWarmPool();
+    const labels = {
+      'sql-sandbox.session': sessionId,
+      'sql-sandbox.data-hash': dataHash ?? '',
+    };
+    const { container, address } =
+      warm ?? (await this.startContainer(sandboxEngine, `sql-sandbox-${sessionId}`, limits, labels));
+
+    // Sessions of the same exam share DBML and data, so after the first one they load a snapshot in bulk
+    const templateKey = TemplateCache.key(engine, dbml, seed.data);
+    const snapshot = this.templates.get(templateKey);
 
     try {
-      await this.waitForPostgresReady(hostPort);
-      await this.seedPostgresDatabase(hostPort, dbml, data);
+      if (snapshot) {
+        await sandboxEngine.restoreSnapshot(address, snapshot);
+      } else {
+        await sandboxEngine.seed(address, seed);
+        this.templates.set(templateKey, sandboxEngine.buildSnapshot(seed));
+      }
     } catch (error) {
+      // A snapshot that failed to restore is not offered again
+      if (snapshot) this.templates.delete(templateKey);
       await this.safeRemoveContainer(container);
       throw error;
     }
@@ -158,33 +505,201 @@ export class ContainerSandboxManager {
     const sandbox: SandboxInstance = {
       sessionId,
       dbml,
+      schema: seed.parsed,
+      deferredRelationships: seed.plan.deferred,
+      data: seed.data,
       dataHash,
       engine,
       containerId: container.id,
-      hostPort,
+      address,
       createdAt: Date.now(),
       lastAccessed: Date.now(),
     };
 
-    this.sandboxes.set(sessionId, sandbox);
+    await this.store.set(sandbox);
     return sandbox;
   }
 
-  private async ensureImage(engine: SupportedEngine): Promise<void> {
-    if (engine !== 'postgres') return;
-    if (this.ensureImagePromise) {
-      await this.ensureImagePromise;
+  /**
+   * Adopt the containers of stored sessions that have not expired and still
+   * answer, and remove the rest of the containers an earlier run of this
+   * process left: orphans, expired sessions and warm containers. Containers
+   * of other replicas that no stored session names are theirs to manage.
+   * Sessions are matched by the container id they stored, not by labels: a
+   * claimed warm container keeps its pool labels, as Docker cannot relabel it.
+   */
+  private async restoreSandboxes(): Promise<void> {
+    const listed = new Map((await this.store.list()).map(sandbox => [sandbox.containerId, sandbox.sessionId]));
+    const containers = await this.docker.listContainers({ all: true, filters: { label: [MANAGED_LABEL] } });
+    let adopted = 0;
+    let removed = 0;
+
+    await Promise.all(
+      containers.map(async info => {
+        const container = this.docker.getContainer(info.Id);
+        const sessionId = listed.get(info.Id);
+        listed.delete(info.Id);
+
+        // Containers from before owner labels count as this process's own
+        const removeIfOwn = async (): Promise<void> => {
+          const owner = info.Labels[OWNER_LABEL];
+          if (owner === undefined || owner === this.config.instanceId) {
+            await this.safeRemoveContainer(container);
+            removed++;
+          }
+        };
+
+        if (sessionId === undefined) {
+          await removeIfOwn();
+          return;
+        }
+
+        await this.store.withLock(sessionId, async () => {
+          // Another replica or request may have changed or removed the session since it was listed
+          const sandbox = await this.store.get(sessionId);
+          if (sandbox?.containerId !== info.Id) {
+            await removeIfOwn();
+            return;
+          }
+
+          const live = Date.now() - sandbox.lastAccessed <= this.config.ttlMs;
+          if (info.State === 'running' && info.Labels[ENGINE_LABEL] === sandbox.engine && live) {
+            const engine = this.engines[sandbox.engine];
+            try {
+              sandbox.address = this.addressOf(engine, await container.inspect());
+              await engine.ping(sandbox.address);
+              await this.store.set(sandbox);
+              adopted++;
+              return;
+            } catch (error) {
+              console.error(`Not adopting unresponsive sandbox container ${info.Id}:`, error);
+            }
+          }
+          await this.removeSandbox(sandbox);
+          removed++;
+        });
+      })
+    );
+
+    // Sessions whose container is gone, unless they have moved to another one meanwhile
+    for (const [containerId, sessionId] of listed) {
+      await this.store.withLock(sessionId, async () => {
+        const sandbox = await this.store.get(sessionId);
+        if (sandbox?.containerId === containerId) await this.store.delete(sessionId);
+      });
+    }
+
+    if (adopted + removed > 0) {
+      console.log(`Adopted ${adopted} sandbox container(s), removed ${removed}`);
+    }
+  }
+
+  /**
+   * Launch a container and wait until its database accepts connections
+   */
+  private async startContainer(
+    engine: SandboxEngine,
+    containerName: string,
+    limits: ContainerLimits,
+    labels: Record<string, string> = {}
+  ): Promise<WarmContainer> {
+    const image = this.imageFor(engine);
+    await this.ensureImage(image);
+    if (this.config.network) await this.ensureNetwork(this.config.network);
+    const hostPort = this.config.network ? null : await this.allocatePort();
+    const container = await this.launchContainer(engine, image, containerName, limits, hostPort, labels);
+
+    try {
+      const address = await this.containerAddress(engine, container, hostPort);
+      await this.waitForReady(engine, address);
+      return { container, address };
+    } catch (error) {
+      await this.safeRemoveContainer(container);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a ready container from the pool, skipping any that stopped answering
+   * while they waited
+   */
+  private async claimWarmContainer(engine: SandboxEngine): Promise<WarmContainer | null> {
+    const ready = this.warmPool.get(engine.name) ?? [];
+
+    let warm: WarmContainer | undefined;
+    while ((warm = ready.shift())) {
+      try {
+        await engine.ping(warm.address);
+        return warm;
+      } catch (error) {
+        console.error(`Discarding unresponsive warm ${engine.label} container ${warm.container.id}:`, error);
+        await this.safeRemoveContainer(warm.container);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Start containers in the background until every engine's pool is at its
+   * target size, without exceeding the overall limit
+   */
+  private replenishWarmPool(): void {
+    if (this.closed) return;
+
+    const total = (): number =>
+      SUPPORTED_ENGINES.reduce(
+        (sum, engine) => sum + (this.warmPool.get(engine)?.length ?? 0) + (this.warmStarting.get(engine) ?? 0),
+        0
+      );
+
+    for (const engine of SUPPORTED_ENGINES) {
+      const target = this.config.warmPoolSize[engine] ?? 0;
+      const count = (): number => (this.warmPool.get(engine)?.length ?? 0) + (this.warmStarting.get(engine) ?? 0);
+      while (count() < target && total() < this.config.maxWarmContainers) {
+        void this.startWarmContainer(engine);
+      }
+    }
+  }
+
+  private async startWarmContainer(engine: SupportedEngine): Promise<void> {
+    // Counted before the first await so replenishWarmPool sees it straight away
+    this.warmStarting.set(engine, (this.warmStarting.get(engine) ?? 0) + 1);
+
+    try {
+      const name = `sql-sandbox-warm-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+      const warm = await this.startContainer(this.engines[engine], name, this.resolveLimits());
+      if (this.closed) {
+        await this.safeRemoveContainer(warm.container);
+        return;
+      }
+      this.warmPool.set(engine, [...(this.warmPool.get(engine) ?? []), warm]);
+    } catch (error) {
+      // Retried on the next refill
+      console.error(`Failed to start a warm ${this.engines[engine].label} container:`, error);
+    } finally {
+      this.warmStarting.set(engine, (this.warmStarting.get(engine) ?? 1) - 1);
+    }
+  }
+
+  private imageFor(engine: SandboxEngine): string {
+    return this.config.images[engine.name] ?? engine.defaultImage;
+  }
+
+  private async ensureImage(image: string): Promise<void> {
+    const pending = this.ensureImagePromises.get(image);
+    if (pending) {
+      await pending;
       return;
     }
 
-    this.ensureImagePromise = (async () => {
+    const promise = (async () => {
       const images = await this.docker.listImages({
-        filters: { reference: [this.config.image] },
+        filters: { reference: [image] },
       });
 
       if (images.length === 0) {
         await new Promise<void>((resolve, reject) => {
-          this.docker.pull(this.config.image, (err: Error | null, stream?: Readable) => {
+          this.docker.pull(image, (err: Error | null, stream?: Readable) => {
             if (err) {
               reject(err);
               return;
@@ -210,36 +725,69 @@ export class ContainerSandboxManager {
         });
       }
     })();
+    this.ensureImagePromises.set(image, promise);
 
     try {
-      await this.ensureImagePromise;
+      await promise;
     } finally {
-      this.ensureImagePromise = null;
+      this.ensureImagePromises.delete(image);
     }
   }
 
-  private async launchPostgresContainer(sessionId: string, hostPort: number): Promise<Container> {
-    const containerName = `sql-sandbox-${sessionId}`;
+  /**
+   * Create and start a container within its resource limits. On the sandbox
+   * network nothing is published; otherwise the database port is published on
+   * the loopback interface only.
+   */
+  private async launchContainer(
+    engine: SandboxEngine,
+    image: string,
+    containerName: string,
+    limits: ContainerLimits,
+    hostPort: number | null,
+    labels: Record<string, string>
+  ): Promise<Container> {
+    const port = `${engine.containerPort}/tcp`;
+    const memory = Math.round(limits.memoryMb * 1024 * 1024);
     const container = await this.docker.createContainer({
-      Image: this.config.image,
+      Image: image,
       name: containerName,
-      Env: [
-        `POSTGRES_USER=${this.config.username}`,
-        `POSTGRES_PASSWORD=${this.config.password}`,
-        `POSTGRES_DB=${this.config.database}`,
-      ],
+      Env: engine.containerEnv(),
+      Labels: {
+        [MANAGED_LABEL]: 'true',
+        [ENGINE_LABEL]: engine.name,
+        [OWNER_LABEL]: this.config.instanceId,
+        'sql-sandbox.created-at': new Date().toISOString(),
+        ...labels,
+      },
       ExposedPorts: {
-        '5432/tcp': {},
+        [port]: {},
       },
       HostConfig: {
         AutoRemove: false,
-        PortBindings: {
-          '5432/tcp': [
-            {
-              HostPort: hostPort.toString(),
-            },
-          ],
+        Memory: memory,
+        MemorySwap: memory, // no swap on top
+        NanoCpus: Math.round(limits.cpus * 1e9),
+        PidsLimit: limits.pids,
+        Tmpfs: {
+          [engine.dataDirectory]: `rw,nosuid,nodev,size=${Math.round(limits.tmpfsMb)}m`,
         },
+        ...(this.config.storageSize ? { StorageOpt: { size: this.config.storageSize } } : {}),
+        CapDrop: ['ALL'],
+        CapAdd: CAPABILITIES,
+        SecurityOpt: ['no-new-privileges'],
+        ...(this.config.network
+          ? { NetworkMode: this.config.network }
+          : {
+              PortBindings: {
+                [port]: [
+                  {
+                    HostIp: '127.0.0.1',
+                    HostPort: String(hostPort),
+                  },
+                ],
+              },
+            }),
       },
     });
 
@@ -247,111 +795,125 @@ export class ContainerSandboxManager {
     return container;
   }
 
-  private async waitForPostgresReady(hostPort: number): Promise<void> {
-    const start = Date.now();
-    let lastError: unknown = null;
+  /**
+   * The container's address on the sandbox network, or its published port
+   */
+  private async containerAddress(
+    engine: SandboxEngine,
+    container: Container,
+    hostPort: number | null
+  ): Promise<SandboxAddress> {
+    if (hostPort !== null) {
+      return { host: '127.0.0.1', port: hostPort };
+    }
 
-    while (Date.now() - start < this.config.readinessTimeoutMs) {
-      try {
-        const client = new Client({
-          host: '127.0.0.1',
-          port: hostPort,
-          user: this.config.username,
-          password: this.config.password,
-          database: this.config.database,
-        });
+    const info = await container.inspect();
+    const ip = info.NetworkSettings.Networks[this.config.network as string]?.IPAddress;
+    if (!ip) {
+      throw new Error(`Container ${container.id} has no address on network ${this.config.network}`);
+    }
+    return { host: ip, port: engine.containerPort };
+  }
 
-        await client.connect();
-        await client.end();
-        return;
-      } catch (error) {
-        lastError = error;
-        await this.delay(this.config.readinessRetryDelayMs);
-      }
+  /**
+   * Where a running container's database is reached, from its inspect data
+   */
+  private addressOf(engine: SandboxEngine, info: ContainerInspectInfo): SandboxAddress {
+    const ip = this.config.network ? info.NetworkSettings.Networks[this.config.network]?.IPAddress : undefined;
+    if (ip) {
+      return { host: ip, port: engine.containerPort };
     }
 
-    throw new Error(
-      `Postgres sandbox failed to become ready within ${this.config.readinessTimeoutMs}ms: ${String(lastError)}`
-    );
+    const binding = info.HostConfig.PortBindings?.[`${engine.containerPort}/tcp`]?.[0];
+    if (!binding?.HostPort) {
+      throw new Error(`Container ${info.Id} has neither a sandbox network address nor a published port`);
+    }
+    return { host: '127.0.0.1', port: Number(binding.HostPort) };
   }
 
-  private async seedPostgresDatabase(
-    hostPort: number,
-    dbml: string,
-    data: Record<string, Record<string, unknown>[]>
-  ): Promise<void> {
-    const parsed = parseDBML(dbml);
-    const schemaStatements = generateSQLSchema(parsed);
-    const client = new Client({
-      host: '127.0.0.1',
-      port: hostPort,
-      user: this.config.username,
-      password: this.config.password,
-      database: this.config.database,
-    });
-
-    await client.connect();
+  /**
+   * Create the internal network sandboxes join, once. Docker gives an internal
+   * network no route out, so queries cannot reach other hosts.
+   */
+  private async ensureNetwork(name: string): Promise<void> {
+    this.networkReady ??= (async () => {
+      const networks = await this.docker.listNetworks({ filters: { name: [name] } });
+      if (networks.some(network => network.Name === name)) return;
 
-    try {
-      for (const statement of schemaStatements) {
-        await client.query(statement);
+      try {
+        await this.docker.createNetwork({
+          Name: name,
+          Driver: 'bridge',
+          Internal: true,
+          Labels: { [MANAGED_LABEL]: 'true' },
+        });
+      } catch (error) {
+        // Another API process created it first
+        if ((error as { statusCode?: number }).statusCode !== 409) throw error;
       }
+    })().catch(error => {
+      // Retried by the next container
+      this.networkReady = null;
+      throw error;
+    });
+    await this.networkReady;
+  }
 
-      for (const [tableName, rows] of Object.entries(data)) {
-        if (!Array.isArray(rows) || rows.length === 0) continue;
-
-        const columns = Object.keys(rows[0]);
-        if (columns.length === 0) continue;
+  /**
+   * The configured limits with a request's overrides, which may not exceed
+   * the configured maximum
+   */
+  private resolveLimits(overrides: Partial<ContainerLimits> = {}): ContainerLimits {
+    const limits: ContainerLimits = { ...DEFAULT_LIMITS, ...this.config.limits };
 
-        const quotedColumns = columns.map(col => `"${col}"`).join(', ');
-        const placeholders = columns.map((_, idx) => `$${idx + 1}`).join(', ');
-        const insertSQL = `INSERT INTO "${tableName}" (${quotedColumns}) VALUES (${placeholders})`;
+    for (const key of Object.keys(DEFAULT_LIMITS) as (keyof ContainerLimits)[]) {
+      const value = overrides[key];
+      if (value === undefined) continue;
 
-        for (const row of rows) {
-          const values = columns.map(col => row[col]);
-          await client.query(insertSQL, values);
-        }
+      const max = this.config.maxLimits[key] ?? limits[key];
+      if (typeof value !== 'number' || !(value > 0) || value > max) {
+        throw new Error(`limits.${key} must be a positive number no greater than ${max}`);
       }
-    } finally {
-      await client.end();
+      limits[key] = value;
     }
+    return limits;
   }
 
-  private async executePostgresQuery(hostPort: number, query: string): Promise<QueryResult> {
-    const client = new Client({
-      host: '127.0.0.1',
-      port: hostPort,
-      user: this.config.username,
-      password: this.config.password,
-      database: this.config.database,
-    });
+  private isDefaultLimits(limits: ContainerLimits): boolean {
+    const defaults = this.resolveLimits();
+    return (Object.keys(defaults) as (keyof ContainerLimits)[]).every(key => limits[key] === defaults[key]);
+  }
 
-    await client.connect();
+  private async waitForReady(engine: SandboxEngine, address: SandboxAddress): Promise<void> {
+    const start = Date.now();
+    let lastError: unknown = null;
 
-    try {
-      const result = await client.query(query);
-      const columns = result.fields ? result.fields.map((field: FieldDef) => field.name) : [];
-      return {
-        rows: result.rows,
-        columns,
-      };
-    } finally {
-      await client.end();
+    while (Date.now() - start < this.config.readinessTimeoutMs) {
+      try {
+        await engine.ping(address);
+        return;
+      } catch (error) {
+        lastError = error;
+        await this.delay(this.config.readinessRetryDelayMs);
+      }
     }
+
+    throw new Error(
+      `${engine.label} sandbox failed to become ready within ${this.config.readinessTimeoutMs}ms: ${String(lastError)}`
+    );
   }
 
   private async cleanupExpiredSandboxes(): Promise<void> {
-    const now = Date.now();
-    const expired: string[] = [];
+    const isExpired = (sandbox: SandboxInstance) => Date.now() - sandbox.lastAccessed > this.config.ttlMs;
 
-    for (const [sessionId, sandbox] of this.sandboxes.entries()) {
-      if (now - sandbox.lastAccessed > this.config.ttlMs) {
-        expired.push(sessionId);
-      }
-    }
+    for (const sandbox of await this.store.list()) {
+      if (!isExpired(sandbox)) continue;
 
-    for (const sessionId of expired) {
-      await this.deleteSandbox(sessionId);
+      // Another request or replica may have used or replaced the session meanwhile
+      await this.store.withLock(sandbox.sessionId, async () => {
+        const current = await this.store.get(sandbox.sessionId);
+        if (current && isExpired(current)) await this.removeSandbox(current);
+      });
     }
   }
 
@@ -400,17 +962,8 @@ export class ContainerSandboxManager {
     return `sandbox_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
   }
 
-  private computeDataHash(dbml: string, data: Record<string, Record<string, unknown>[]>): string {
-    const normalized = {
-      dbml,
-      data,
-    };
-    return JSON.stringify(normalized);
-  }
-
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
 
-
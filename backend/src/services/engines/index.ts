@@ -0,0 +1,38 @@
+import { EngineCredentials, SandboxEngine, SupportedEngine } from './sandboxEngine';
+import { PostgresEngine } from './postgresEngine';
+import { MySQLEngine } from './mysqlEngine';
+
+export type {
+  SandboxEngine,
+  SupportedEngine,
+  EngineCredentials,
+  PreparedSeed,
+  AppliedSchema,
+  QueryConnection,
+  QueryOptions,
+  QueryResult,
+  ResultCursor,
+  SandboxAddress,
+  SeedChanges,
+  SeedSnapshot,
+  TableChanges,
+} from './sandboxEngine';
+
+export { QueryTimeoutError, QueryCancelledError } from './queryGuard';
+export { bufferedCursor } from './resultCursor';
+
+export const SUPPORTED_ENGINES: SupportedEngine[] = ['postgres', 'mysql'];
+
+/**
+ * One engine per supported database, all connecting with the same credentials
+ */
+export function createEngines(credentials: EngineCredentials): Record<SupportedEngine, SandboxEngine> {
+  return {
+    postgres: new PostgresEngine(credentials),
+    mysql: new MySQLEngine(credentials),
+  };
+}
+
+export function isSupportedEngine(value: unknown): value is SupportedEngine {
+  return typeof value === 'string' && (SUPPORTED_ENGINES as string[]).includes(value);
+}
@@ -0,0 +1,506 @@
+import mysql, { Connection, FieldPacket, QueryError, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { ConnectionOptions, Connection as StreamingConnection, createConnection as createStreamingConnection } from 'mysql2';
+import { ParsedDBML, Table } from '../../parser/dbmlParser';
+import { generateSQLSchema } from '../../parser/schemaGenerator';
+import { getDialect } from '../../dialects';
+import { SeedDataError, SeedProblem, checkViolationProblem } from '../seedValidator';
+import { RowChange, RowChangeError } from '../rowChanges';
+import { IntrospectedSchema } from '../schemaIntrospector';
+import { introspectMySQLSchema } from '../mysqlSchemaIntrospector';
+import { bulkInsertStatements } from './seedSnapshot';
+import { QueryTimeoutError, guardQuery } from './queryGuard';
+import { bufferedCursor } from './resultCursor';
+import {
+  AppliedSchema,
+  EngineCredentials,
+  PreparedSeed,
+  QueryConnection,
+  QueryOptions,
+  QueryResult,
+  ResultCursor,
+  SandboxAddress,
+  SandboxEngine,
+  SeedChanges,
+  SeedSnapshot,
+  SnapshotStatement,
+  TableChanges,
+} from './sandboxEngine';
+
+const dialect = getDialect('mysql');
+const q = (name: string): string => dialect.quoteIdentifier(name);
+
+interface ColumnRow extends RowDataPacket {
+  db: string;
+  name: string;
+  col: string;
+}
+
+export class MySQLEngine implements SandboxEngine {
+  readonly name = 'mysql';
+  readonly label = 'MySQL';
+  readonly defaultImage = 'mysql:8.0';
+  readonly containerPort = 3306;
+  readonly dataDirectory = '/var/lib/mysql';
+
+  constructor(private readonly credentials: EngineCredentials) {}
+
+  containerEnv(): string[] {
+    return [
+      `MYSQL_ROOT_PASSWORD=${this.credentials.password}`,
+      `MYSQL_USER=${this.credentials.username}`,
+      `MYSQL_PASSWORD=${this.credentials.password}`,
+      `MYSQL_DATABASE=${this.credentials.database}`,
+    ];
+  }
+
+  async ping(address: SandboxAddress): Promise<void> {
+    // The image's init script runs a server without networking first, so a TCP connection means setup is done
+    const connection = await this.connect(address);
+    await connection.end();
+  }
+
+  async seed(address: SandboxAddress, seed: PreparedSeed): Promise<void> {
+    const connection = await this.connect(address);
+
+    try {
+      for (const statement of generateSQLSchema(seed.parsed, dialect)) {
+        await connection.query(statement);
+      }
+      await this.loadSeed(connection, seed, []);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  buildSnapshot(seed: PreparedSeed): SeedSnapshot {
+    const schema = generateSQLSchema(seed.parsed, dialect);
+    const inserts = bulkInsertStatements(seed, { quote: q, placeholder: () => '?', toValue: toMySqlValue });
+
+    return {
+      statements: [
+        ...schema.map(sql => ({ sql, values: [] })),
+        ...inserts,
+        ...tableMaintenanceStatements(seed.parsed.tables),
+      ],
+    };
+  }
+
+  async restoreSnapshot(address: SandboxAddress, snapshot: SeedSnapshot): Promise<void> {
+    const connection = await this.connect(address);
+
+    try {
+      await loadSnapshot(connection, snapshot);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Recreating the database also drops the views, routines and events
+   * queries created. DDL commits on its own, so a reset that fails part way
+   * leaves the database partly loaded; resetting again starts over.
+   */
+  async resetToSnapshot(address: SandboxAddress, snapshot: SeedSnapshot): Promise<void> {
+    const database = q(this.credentials.database);
+    const connection = await this.connect(address);
+
+    try {
+      await connection.query(`DROP DATABASE ${database}`);
+      await connection.query(`CREATE DATABASE ${database}`);
+      await connection.query(`USE ${database}`);
+      await loadSnapshot(connection, snapshot);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * The snapshot is loaded into a scratch database next to the session's,
+   * which only root may create, and dropped once compared. EXCEPT ALL needs
+   * MySQL 8.0.31 or later.
+   */
+  async compareWithSnapshot(address: SandboxAddress, snapshot: SeedSnapshot, tables: string[]): Promise<SeedChanges> {
+    const database = this.credentials.database;
+    const scratch = `${database}_seed`;
+    const connection = await mysql.createConnection({ ...this.connectionOptions(address, {}), user: 'root', database: undefined });
+
+    try {
+      await connection.query(`DROP DATABASE IF EXISTS ${q(scratch)}`);
+      await connection.query(`CREATE DATABASE ${q(scratch)}`);
+      await connection.query(`USE ${q(scratch)}`);
+      await loadSnapshot(connection, snapshot);
+
+      const [rows] = await connection.query<ColumnRow[]>(
+        `SELECT c.TABLE_SCHEMA AS db, c.TABLE_NAME AS name, c.COLUMN_NAME AS col
+           FROM information_schema.COLUMNS c
+           JOIN information_schema.TABLES t ON t.TABLE_SCHEMA = c.TABLE_SCHEMA AND t.TABLE_NAME = c.TABLE_NAME
+           WHERE t.TABLE_TYPE = 'BASE TABLE' AND c.TABLE_SCHEMA IN (?, ?)
+           ORDER BY c.TABLE_SCHEMA, c.TABLE_NAME, c.ORDINAL_POSITION`,
+        [database, scratch]
+      );
+      const live = new Map<string, string[]>();
+      const seeded = new Map<string, string[]>();
+      for (const row of rows) {
+        const columns = row.db === database ? live : seeded;
+        columns.set(row.name, [...(columns.get(row.name) ?? []), row.col]);
+      }
+
+      const changes: SeedChanges = {
+        tables: [],
+        createdTables: [...live.keys()].filter(table => !tables.includes(table)),
+        droppedTables: tables.filter(table => !live.has(table)),
+        alteredTables: [],
+      };
+
+      for (const table of tables) {
+        const columns = live.get(table);
+        if (!columns) continue;
+        if (columns.join('\0') !== seeded.get(table)?.join('\0')) {
+          changes.alteredTables.push(table);
+          continue;
+        }
+
+        const current = `${q(database)}.${q(table)}`;
+        const original = `${q(scratch)}.${q(table)}`;
+        const [counts] = await connection.query<(TableChanges & RowDataPacket)[]>(
+          `SELECT
+             (SELECT COUNT(*) FROM (SELECT * FROM ${current} EXCEPT ALL SELECT * FROM ${original}) d) AS rowsAdded,
+             (SELECT COUNT(*) FROM (SELECT * FROM ${original} EXCEPT ALL SELECT * FROM ${current}) d) AS rowsRemoved`
+        );
+        const rowsAdded = Number(counts[0].rowsAdded);
+        const rowsRemoved = Number(counts[0].rowsRemoved);
+        if (rowsAdded > 0 || rowsRemoved > 0) changes.tables.push({ table, rowsAdded, rowsRemoved });
+      }
+
+      return changes;
+    } finally {
+      await connection.query(`DROP DATABASE IF EXISTS ${q(scratch)}`).catch(() => undefined);
+      await connection.end();
+    }
+  }
+
+  /**
+   * MySQL commits DDL statements immediately, so a failed migration could not
+   * be rolled back. Only data changes are applied in place; any schema change
+   * gets a fresh container.
+   */
+  planMigration(previous: AppliedSchema, seed: PreparedSeed): string[] | null {
+    const before = generateSQLSchema(previous.parsed, dialect).join('\n');
+    const after = generateSQLSchema(seed.parsed, dialect).join('\n');
+    return before === after ? [] : null;
+  }
+
+  async reseed(address: SandboxAddress, previous: ParsedDBML, statements: string[], seed: PreparedSeed): Promise<void> {
+    const connection = await this.connect(address);
+    // DELETE rather than TRUNCATE, which would commit on its own
+    const clear = previous.tables.map(t => `DELETE FROM ${q(t.name)}`);
+
+    try {
+      await this.loadSeed(connection, seed, [...clear, ...statements]);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  async openQueryConnection(address: SandboxAddress): Promise<QueryConnection> {
+    const connection = createStreamingConnection(this.connectionOptions(address, { multipleStatements: true }));
+    const queryConnection = new MySQLQueryConnection(connection, () => this.killQuery(address, connection.threadId));
+    // The streaming API connects lazily; fail here rather than on the first query
+    try {
+      await connection.promise().connect();
+    } catch (error) {
+      await queryConnection.close();
+      throw error;
+    }
+    return queryConnection;
+  }
+
+  async introspect(address: SandboxAddress, known: ParsedDBML): Promise<IntrospectedSchema> {
+    const connection = await this.connect(address);
+
+    try {
+      return await introspectMySQLSchema(connection, known);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  async applyRowChanges(
+    address: SandboxAddress,
+    parsed: ParsedDBML,
+    changes: RowChange[],
+    original: RowChange[]
+  ): Promise<Map<RowChange, Record<string, unknown>>> {
+    const connection = await this.connect(address);
+    const generated = new Map<RowChange, Record<string, unknown>>();
+
+    try {
+      // Without deferrable constraints, rows referencing each other in a cycle need checks off
+      await connection.query('SET FOREIGN_KEY_CHECKS = 0');
+      await connection.query('START TRANSACTION');
+
+      for (const change of changes) {
+        const table = parsed.tables.find(t => t.name === change.table) as Table;
+        const label = `change ${original.indexOf(change) + 1} (${change.op} ${table.name})`;
+        const values: unknown[] = [];
+        const param = (col: string, value: unknown): string => {
+          values.push(toMySqlValue(table, col, value));
+          return '?';
+        };
+        const where = (key: Record<string, unknown>): string =>
+          table.primaryKey.map(col => `${q(col)} = ${param(col, key[col])}`).join(' AND ');
+
+        let sql: string;
+        if (change.op === 'insert') {
+          const columns = Object.keys(change.row).filter(col => change.row[col] !== undefined);
+          sql = `INSERT INTO ${q(table.name)} (${columns.map(q).join(', ')}) VALUES (${columns.map(col => param(col, change.row[col])).join(', ')})`;
+        } else if (change.op === 'update') {
+          const columns = Object.keys(change.values).filter(col => change.values[col] !== undefined);
+          if (columns.length === 0) continue;
+          const assignments = columns.map(col => `${q(col)} = ${param(col, change.values[col])}`);
+          sql = `UPDATE ${q(table.name)} SET ${assignments.join(', ')} WHERE ${where(change.key)}`;
+        } else {
+          sql = `DELETE FROM ${q(table.name)} WHERE ${where(change.key)}`;
+        }
+
+        let result: ResultSetHeader;
+        try {
+          [result] = await connection.query<ResultSetHeader>(sql, values);
+        } catch (error) {
+          if (isServerError(error)) throw new RowChangeError([`${label}: ${error.message}`]);
+          throw error;
+        }
+
+        if (change.op !== 'insert' && result.affectedRows === 0) {
+          const key = table.primaryKey.map(col => `${col} = ${String(change.key[col])}`).join(', ');
+          throw new RowChangeError([`${label}: no row with ${key}`]);
+        }
+        // MySQL reports the generated value of the table's single AUTO_INCREMENT column
+        const increment = table.columns.find(col => col.isAutoIncrement);
+        if (change.op === 'insert' && increment && change.row[increment.name] === undefined) {
+          generated.set(change, { [increment.name]: result.insertId });
+        }
+      }
+
+      await connection.query('COMMIT');
+      return generated;
+    } catch (error) {
+      await connection.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      await connection.end();
+    }
+  }
+
+  private async killQuery(address: SandboxAddress, threadId: number): Promise<void> {
+    const connection = await this.connect(address);
+
+    try {
+      await connection.query('KILL QUERY ?', [threadId]);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  private async connect(address: SandboxAddress, options: { multipleStatements?: boolean } = {}): Promise<Connection> {
+    return await mysql.createConnection(this.connectionOptions(address, options));
+  }
+
+  private connectionOptions(address: SandboxAddress, options: { multipleStatements?: boolean }): ConnectionOptions {
+    return {
+      host: address.host,
+      port: address.port,
+      user: this.credentials.username,
+      password: this.credentials.password,
+      database: this.credentials.database,
+      ...options,
+    };
+  }
+
+  /**
+   * Insert the seed rows after running `preamble`, in one transaction. MySQL has
+   * no deferrable constraints, so foreign key checks are off while seeding;
+   * references were already checked against the seed data itself.
+   */
+  private async loadSeed(connection: Connection, seed: PreparedSeed, preamble: string[]): Promise<void> {
+    const { parsed, plan, data } = seed;
+
+    try {
+      await connection.query('SET FOREIGN_KEY_CHECKS = 0');
+      await connection.query('START TRANSACTION');
+      for (const statement of preamble) {
+        await connection.query(statement);
+      }
+
+      const checkProblems: SeedProblem[] = [];
+
+      for (const tableName of plan.order) {
+        const table = parsed.tables.find(t => t.name === tableName) as Table;
+
+        for (const [rowIndex, row] of data[tableName].entries()) {
+          // Omitted columns fall back to their defaults
+          const columns = Object.keys(row).filter(col => row[col] !== undefined);
+          const values = columns.map(col => toMySqlValue(table, col, row[col]));
+          const insertSQL = `INSERT INTO ${q(tableName)} (${columns.map(q).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+
+          await connection.query('SAVEPOINT seed_row');
+          try {
+            await connection.query(insertSQL, values);
+            await connection.query('RELEASE SAVEPOINT seed_row');
+          } catch (error) {
+            // Keep going so every row failing a CHECK is reported at once
+            const problem = checkViolationProblem(table, rowIndex, checkConstraintName(error));
+            if (!problem) throw error;
+            checkProblems.push(problem);
+            await connection.query('ROLLBACK TO SAVEPOINT seed_row');
+          }
+        }
+      }
+
+      if (checkProblems.length > 0) {
+        throw new SeedDataError(checkProblems);
+      }
+      await connection.query('COMMIT');
+    } catch (error) {
+      await connection.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      await connection.query('SET FOREIGN_KEY_CHECKS = 1').catch(() => undefined);
+    }
+
+    for (const { sql } of tableMaintenanceStatements(parsed.tables)) {
+      await connection.query(sql);
+    }
+  }
+}
+
+/**
+ * Rows are in plan order, but tables of a reference cycle still point forward,
+ * so foreign key checks are off while loading
+ */
+async function loadSnapshot(connection: Connection, snapshot: SeedSnapshot): Promise<void> {
+  await connection.query('SET FOREIGN_KEY_CHECKS = 0');
+  for (const { sql, values } of snapshot.statements) {
+    await connection.query(sql, values);
+  }
+}
+
+/**
+ * Run after loading rows: rows carry explicit ids, and an AUTO_INCREMENT set
+ * below the largest one is raised to MAX + 1. Fresh statistics make EXPLAIN
+ * reflect the seeded data and its indexes.
+ */
+function tableMaintenanceStatements(tables: Table[]): SnapshotStatement[] {
+  return tables.flatMap(table => [
+    ...(table.columns.some(col => col.isAutoIncrement)
+      ? [{ sql: `ALTER TABLE ${q(table.name)} AUTO_INCREMENT = 1`, values: [] }]
+      : []),
+    { sql: `ANALYZE TABLE ${q(table.name)}`, values: [] },
+  ]);
+}
+
+function isServerError(error: unknown): error is QueryError {
+  return error instanceof Error && typeof (error as QueryError).sqlState === 'string';
+}
+
+/**
+ * The constraint named by an ER_CHECK_CONSTRAINT_VIOLATED error, e.g.
+ * "Check constraint 'users_age_check' is violated."
+ */
+function checkConstraintName(error: unknown): string | undefined {
+  if (!isServerError(error) || error.code !== 'ER_CHECK_CONSTRAINT_VIOLATED') return undefined;
+  return error.message.match(/constraint '([^']+)'/i)?.[1];
+}
+
+/**
+ * Arrays are stored as JSON (see the MySQL dialect), as are objects for json columns
+ */
+function toMySqlValue(table: Table, column: string, value: unknown): unknown {
+  const type = table.columns.find(col => col.name === column)?.type;
+  if (value !== null && typeof value === 'object' && type && (Array.isArray(value) || /^jsonb?$/i.test(type))) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * A session's query connection. Rows are streamed off it and only the first
+ * `maxRows` of the last result set are kept, so the count is exact without
+ * holding the rest.
+ */
+class MySQLQueryConnection implements QueryConnection {
+  alive = true;
+
+  constructor(private readonly connection: StreamingConnection, private readonly kill: () => Promise<void>) {
+    // Errors that end the connection, such as the server going away between runs
+    connection.on('error', error => {
+      this.alive = false;
+      console.error('MySQL query connection failed:', error);
+    });
+    connection.on('end', () => {
+      this.alive = false;
+    });
+  }
+
+  async executeQuery(query: string, options: QueryOptions): Promise<ResultCursor> {
+    try {
+      // Only bounds SELECT statements; the guard covers the rest
+      await this.connection.promise().query(`SET SESSION max_execution_time = ${Math.ceil(options.timeoutMs)}`);
+
+      const { result, totalRows } = await guardQuery(
+        () => streamLastResult(this.connection, query, options.maxRows),
+        options,
+        {
+          cancel: this.kill,
+          abandon: () => {
+            this.alive = false;
+            this.connection.destroy();
+          },
+        }
+      );
+      return bufferedCursor(result, totalRows);
+    } catch (error) {
+      if (isServerError(error) && error.code === 'ER_QUERY_TIMEOUT') {
+        throw new QueryTimeoutError(options.timeoutMs);
+      }
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.alive = false;
+    await this.connection.promise().end().catch(() => undefined);
+  }
+}
+
+/**
+ * A script returns one result per statement; keep the last one that returned
+ * rows, up to `maxRows` of them, and count the rest
+ */
+function streamLastResult(
+  connection: StreamingConnection,
+  query: string,
+  maxRows: number
+): Promise<{ result: QueryResult; totalRows: number }> {
+  return new Promise((resolve, reject) => {
+    let result: QueryResult = { rows: [], columns: [] };
+    let totalRows = 0;
+
+    connection
+      .query(query)
+      // Statements that return no rows report undefined fields
+      .on('fields', (fields: FieldPacket[] | undefined) => {
+        if (!fields) return;
+        result = { rows: [], columns: fields.map(field => field.name) };
+        totalRows = 0;
+      })
+      .on('result', (row: unknown, index?: number) => {
+        // OK packets come without a result index
+        if (index === undefined) return;
+        totalRows++;
+        if (result.rows.length < maxRows) result.rows.push(row);
+      })
+      .on('error', reject)
+      .on('end', () => resolve({ result, totalRows }));
+  });
+}
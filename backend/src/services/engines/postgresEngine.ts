@@ -0,0 +1,598 @@
+import { Client, DatabaseError, FieldDef } from 'pg';
+import Cursor from 'pg-cursor';
+import { ParsedDBML, Table } from '../../parser/dbmlParser';
+import { generateSQLSchema } from '../../parser/schemaGenerator';
+import { diffSchemas } from '../../parser/schemaDiff';
+import { splitSqlStatements } from '../../parser/sqlDdlParser';
+import { getDialect } from '../../dialects';
+import { SeedDataError, SeedProblem, checkViolationProblem } from '../seedValidator';
+import { RowChange, RowChangeError } from '../rowChanges';
+import { IntrospectedSchema, introspectPostgresSchema } from '../schemaIntrospector';
+import { bulkInsertStatements } from './seedSnapshot';
+import { QueryTimeoutError, guardQuery } from './queryGuard';
+import { bufferedCursor } from './resultCursor';
+import {
+  AppliedSchema,
+  EngineCredentials,
+  PreparedSeed,
+  QueryConnection,
+  QueryOptions,
+  QueryResult,
+  ResultCursor,
+  SandboxAddress,
+  SandboxEngine,
+  SeedChanges,
+  SeedSnapshot,
+  SnapshotStatement,
+  TableChanges,
+} from './sandboxEngine';
+
+const dialect = getDialect('postgres');
+const q = (name: string): string => dialect.quoteIdentifier(name);
+
+// SQLSTATEs for check_violation, query_canceled and in_failed_sql_transaction
+const CHECK_VIOLATION = '23514';
+const QUERY_CANCELED = '57014';
+const IN_FAILED_TRANSACTION = '25P02';
+
+// DROP statements for what a session may have created: schemas of its own, then the extensions,
+// relations, routines and types of its current schema. Dependents go first, and IF EXISTS skips
+// objects an earlier CASCADE already dropped.
+const CLEAR_SCHEMA_QUERY = `
+SELECT format('DROP SCHEMA IF EXISTS %I CASCADE', n.nspname) AS sql, 0 AS step
+  FROM pg_namespace n
+  WHERE n.nspname <> current_schema() AND n.nspname NOT LIKE 'pg\\_%' AND n.nspname <> 'information_schema'
+    AND n.nspowner = (SELECT oid FROM pg_roles WHERE rolname = current_user)
+UNION ALL
+SELECT format('DROP EXTENSION IF EXISTS %I CASCADE', e.extname), 1
+  FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace
+  WHERE n.nspname = current_schema()
+UNION ALL
+SELECT format(
+    'DROP %s IF EXISTS %I.%I CASCADE',
+    CASE c.relkind WHEN 'v' THEN 'VIEW' WHEN 'm' THEN 'MATERIALIZED VIEW' WHEN 'S' THEN 'SEQUENCE' WHEN 'f' THEN 'FOREIGN TABLE' ELSE 'TABLE' END,
+    n.nspname,
+    c.relname
+  ),
+  CASE c.relkind WHEN 'v' THEN 2 WHEN 'm' THEN 2 WHEN 'S' THEN 4 ELSE 3 END
+  FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = current_schema() AND c.relkind IN ('r', 'p', 'v', 'm', 'S', 'f')
+UNION ALL
+SELECT format('DROP %s IF EXISTS %s CASCADE', CASE p.prokind WHEN 'a' THEN 'AGGREGATE' ELSE 'ROUTINE' END, p.oid::regprocedure), 5
+  FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+  WHERE n.nspname = current_schema()
+UNION ALL
+SELECT format('DROP %s IF EXISTS %I.%I CASCADE', CASE t.typtype WHEN 'd' THEN 'DOMAIN' ELSE 'TYPE' END, n.nspname, t.typname), 6
+  FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace LEFT JOIN pg_class c ON c.oid = t.typrelid
+  WHERE n.nspname = current_schema() AND t.typtype IN ('e', 'r', 'c', 'd') AND (t.typtype <> 'c' OR c.relkind = 'c')
+ORDER BY step`;
+
+// Columns of each table in a schema, in order
+const TABLE_COLUMNS_QUERY = `
+SELECT c.relname AS table, array_agg(a.attname::text ORDER BY a.attnum) AS columns
+  FROM pg_class c JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+  WHERE c.relnamespace = $1::oid AND c.relkind IN ('r', 'p') AND NOT c.relispartition
+  GROUP BY c.relname`;
+
+export class PostgresEngine implements SandboxEngine {
+  readonly name = 'postgres';
+  readonly label = 'Postgres';
+  readonly defaultImage = 'wodby/postgres:15';
+  readonly containerPort = 5432;
+  readonly dataDirectory = '/var/lib/postgresql/data';
+
+  constructor(private readonly credentials: EngineCredentials) {}
+
+  containerEnv(): string[] {
+    return [
+      `POSTGRES_USER=${this.credentials.username}`,
+      `POSTGRES_PASSWORD=${this.credentials.password}`,
+      `POSTGRES_DB=${this.credentials.database}`,
+    ];
+  }
+
+  async ping(address: SandboxAddress): Promise<void> {
+    const client = this.createClient(address);
+    await client.connect();
+    await client.end();
+  }
+
+  async seed(address: SandboxAddress, seed: PreparedSeed): Promise<void> {
+    const schemaStatements = generateSQLSchema(seed.parsed, dialect, {
+      deferredRelationships: seed.plan.deferred,
+    });
+    const client = this.createClient(address);
+
+    await client.connect();
+
+    try {
+      for (const statement of schemaStatements) {
+        await client.query(statement);
+      }
+      await this.loadSeed(client, seed, []);
+    } finally {
+      await client.end();
+    }
+  }
+
+  buildSnapshot(seed: PreparedSeed): SeedSnapshot {
+    const schema = generateSQLSchema(seed.parsed, dialect, {
+      deferredRelationships: seed.plan.deferred,
+    });
+    const inserts = bulkInsertStatements(seed, {
+      quote: q,
+      placeholder: index => `$${index}`,
+      toValue: toPostgresValue,
+    });
+
+    return {
+      statements: [
+        ...schema.map(sql => ({ sql, values: [] })),
+        ...inserts,
+        ...sequenceSyncStatements(seed.parsed.tables),
+        ...analyzeStatements(seed.parsed.tables),
+      ],
+    };
+  }
+
+  async restoreSnapshot(address: SandboxAddress, snapshot: SeedSnapshot): Promise<void> {
+    const client = this.createClient(address);
+
+    await client.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const { sql, values } of snapshot.statements) {
+        await client.query(sql, values);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  /**
+   * Clears the current schema rather than the database, so the same reset
+   * works for a session's own schema on a shared server. One transaction, so
+   * a failed reset leaves the database as it was.
+   */
+  async resetToSnapshot(address: SandboxAddress, snapshot: SeedSnapshot): Promise<void> {
+    const client = this.createClient(address);
+
+    await client.connect();
+
+    try {
+      await client.query('BEGIN');
+      const { rows: drops } = await client.query<{ sql: string }>(CLEAR_SCHEMA_QUERY);
+      for (const { sql } of drops) {
+        await client.query(sql);
+      }
+      for (const { sql, values } of snapshot.statements) {
+        await client.query(sql, values);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  /**
+   * The snapshot is loaded into temporary tables, which come first on the
+   * search path so its unqualified names resolve to them, and rolled back
+   * once compared. Rows are compared as text, which every type has.
+   */
+  async compareWithSnapshot(address: SandboxAddress, snapshot: SeedSnapshot, tables: string[]): Promise<SeedChanges> {
+    const client = this.createClient(address);
+
+    await client.connect();
+
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query<{ schema: string; namespace: number }>(
+        'SELECT current_schema() AS schema, oid AS namespace FROM pg_namespace WHERE nspname = current_schema()'
+      );
+      const { schema, namespace } = rows[0];
+      const live = await this.tableColumns(client, namespace);
+
+      await client.query(`SET LOCAL search_path = pg_temp, ${q(schema)}`);
+      for (const { sql, values } of snapshot.statements) {
+        await client.query(sql, values);
+      }
+      const { rows: temp } = await client.query<{ namespace: number }>('SELECT pg_my_temp_schema() AS namespace');
+      const seeded = await this.tableColumns(client, temp[0].namespace);
+
+      const changes: SeedChanges = {
+        tables: [],
+        createdTables: [...live.keys()].filter(table => !tables.includes(table)),
+        droppedTables: tables.filter(table => !live.has(table)),
+        alteredTables: [],
+      };
+
+      for (const table of tables) {
+        const columns = live.get(table);
+        if (!columns) continue;
+        if (columns.join('\0') !== seeded.get(table)?.join('\0')) {
+          changes.alteredTables.push(table);
+          continue;
+        }
+
+        const current = `${q(schema)}.${q(table)}`;
+        const original = `pg_temp.${q(table)}`;
+        const { rows: counts } = await client.query<TableChanges>(
+          `SELECT
+             (SELECT count(*) FROM (SELECT r::text FROM ${current} r EXCEPT ALL SELECT r::text FROM ${original} r) d)::int AS "rowsAdded",
+             (SELECT count(*) FROM (SELECT r::text FROM ${original} r EXCEPT ALL SELECT r::text FROM ${current} r) d)::int AS "rowsRemoved"`
+        );
+        const { rowsAdded, rowsRemoved } = counts[0];
+        if (rowsAdded > 0 || rowsRemoved > 0) changes.tables.push({ table, rowsAdded, rowsRemoved });
+      }
+
+      return changes;
+    } finally {
+      await client.query('ROLLBACK').catch(() => undefined);
+      await client.end();
+    }
+  }
+
+  planMigration(previous: AppliedSchema, seed: PreparedSeed): string[] {
+    return diffSchemas(
+      previous.parsed,
+      seed.parsed,
+      { deferredRelationships: previous.deferredRelationships },
+      { deferredRelationships: seed.plan.deferred }
+    );
+  }
+
+  /**
+   * Empty the tables, migrate the schema and reseed in one transaction, so a
+   * rejected migration leaves the database exactly as it was
+   */
+  async reseed(address: SandboxAddress, previous: ParsedDBML, statements: string[], seed: PreparedSeed): Promise<void> {
+    const client = this.createClient(address);
+    const tables = previous.tables.map(t => q(t.name));
+    const truncate = tables.length > 0 ? [`TRUNCATE ${tables.join(', ')} RESTART IDENTITY CASCADE`] : [];
+
+    await client.connect();
+
+    try {
+      await this.loadSeed(client, seed, [...truncate, ...statements]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async openQueryConnection(address: SandboxAddress): Promise<QueryConnection> {
+    const client = this.createClient(address);
+    await client.connect();
+
+    try {
+      const { rows } = await client.query<{ pid: number }>('SELECT pg_backend_pid() AS pid');
+      return new PostgresQueryConnection(client, () => this.cancelBackend(address, rows[0].pid));
+    } catch (error) {
+      await client.end();
+      throw error;
+    }
+  }
+
+  async introspect(address: SandboxAddress): Promise<IntrospectedSchema> {
+    const client = this.createClient(address);
+
+    await client.connect();
+
+    try {
+      return await introspectPostgresSchema(client);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async applyRowChanges(
+    address: SandboxAddress,
+    parsed: ParsedDBML,
+    changes: RowChange[],
+    original: RowChange[]
+  ): Promise<Map<RowChange, Record<string, unknown>>> {
+    const client = this.createClient(address);
+    const generated = new Map<RowChange, Record<string, unknown>>();
+    const touched = new Set<Table>();
+
+    await client.connect();
+
+    try {
+      try {
+        await client.query('BEGIN');
+        // Lets rows of a cycle that was seeded with deferred constraints be edited in any order
+        await client.query('SET CONSTRAINTS ALL DEFERRED');
+
+        for (const change of changes) {
+          const table = parsed.tables.find(t => t.name === change.table) as Table;
+          const label = `change ${original.indexOf(change) + 1} (${change.op} ${table.name})`;
+          const values: unknown[] = [];
+          const param = (col: string, value: unknown): string => {
+            values.push(toPostgresValue(table, col, value));
+            return `$${values.length}`;
+          };
+          const where = (key: Record<string, unknown>): string =>
+            table.primaryKey.map(col => `${q(col)} = ${param(col, key[col])}`).join(' AND ');
+
+          let sql: string;
+          if (change.op === 'insert') {
+            const columns = Object.keys(change.row).filter(col => change.row[col] !== undefined);
+            const returning = table.columns.filter(col => col.isAutoIncrement && !columns.includes(col.name));
+            sql =
+              (columns.length === 0
+                ? `INSERT INTO ${q(table.name)} DEFAULT VALUES`
+                : `INSERT INTO ${q(table.name)} (${columns.map(q).join(', ')}) VALUES (${columns.map(col => param(col, change.row[col])).join(', ')})`) +
+              (returning.length > 0 ? ` RETURNING ${returning.map(col => q(col.name)).join(', ')}` : '');
+            touched.add(table);
+          } else if (change.op === 'update') {
+            const columns = Object.keys(change.values).filter(col => change.values[col] !== undefined);
+            if (columns.length === 0) continue;
+            const assignments = columns.map(col => `${q(col)} = ${param(col, change.values[col])}`);
+            sql = `UPDATE ${q(table.name)} SET ${assignments.join(', ')} WHERE ${where(change.key)}`;
+            touched.add(table);
+          } else {
+            sql = `DELETE FROM ${q(table.name)} WHERE ${where(change.key)}`;
+          }
+
+          let result;
+          try {
+            result = await client.query(sql, values);
+          } catch (error) {
+            if (error instanceof DatabaseError) throw new RowChangeError([`${label}: ${error.message}`]);
+            throw error;
+          }
+          if (change.op !== 'insert' && result.rowCount === 0) {
+            const key = table.primaryKey.map(col => `${col} = ${String(change.key[col])}`).join(', ');
+            throw new RowChangeError([`${label}: no row with ${key}`]);
+          }
+          if (result.rows.length > 0) generated.set(change, result.rows[0]);
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+
+      await this.syncSequences(client, Array.from(touched));
+      return generated;
+    } finally {
+      await client.end();
+    }
+  }
+
+  private async cancelBackend(address: SandboxAddress, pid: number): Promise<void> {
+    const client = this.createClient(address);
+    await client.connect();
+
+    try {
+      await client.query('SELECT pg_cancel_backend($1)', [pid]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  private async tableColumns(client: Client, namespace: number): Promise<Map<string, string[]>> {
+    const { rows } = await client.query<{ table: string; columns: string[] }>(TABLE_COLUMNS_QUERY, [namespace]);
+    return new Map(rows.map(row => [row.table, row.columns]));
+  }
+
+  private createClient(address: SandboxAddress): Client {
+    return new Client({
+      host: address.host,
+      port: address.port,
+      user: this.credentials.username,
+      password: this.credentials.password,
+      database: this.credentials.database,
+    });
+  }
+
+  /**
+   * Insert the seed rows after running `preamble`, all in one transaction so
+   * deferred foreign keys are checked once every row is in
+   */
+  private async loadSeed(client: Client, seed: PreparedSeed, preamble: string[]): Promise<void> {
+    const { parsed, plan, data } = seed;
+
+    try {
+      await client.query('BEGIN');
+      for (const statement of preamble) {
+        await client.query(statement);
+      }
+
+      const checkProblems: SeedProblem[] = [];
+
+      for (const tableName of plan.order) {
+        const table = parsed.tables.find(t => t.name === tableName) as Table;
+
+        for (const [rowIndex, row] of data[tableName].entries()) {
+          // Omitted columns fall back to their defaults
+          const columns = Object.keys(row).filter(col => row[col] !== undefined);
+          const values = columns.map(col => toPostgresValue(table, col, row[col]));
+          const insertSQL =
+            columns.length === 0
+              ? `INSERT INTO ${q(tableName)} DEFAULT VALUES`
+              : `INSERT INTO ${q(tableName)} (${columns.map(q).join(', ')}) VALUES (${columns.map((_, idx) => `$${idx + 1}`).join(', ')})`;
+
+          await client.query('SAVEPOINT seed_row');
+          try {
+            await client.query(insertSQL, values);
+            await client.query('RELEASE SAVEPOINT seed_row');
+          } catch (error) {
+            // Keep going so every row failing a CHECK is reported at once
+            const problem =
+              error instanceof DatabaseError && error.code === CHECK_VIOLATION
+                ? checkViolationProblem(table, rowIndex, error.constraint)
+                : null;
+            if (!problem) throw error;
+            checkProblems.push(problem);
+            await client.query('ROLLBACK TO SAVEPOINT seed_row');
+          }
+        }
+      }
+
+      if (checkProblems.length > 0) {
+        throw new SeedDataError(checkProblems);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    }
+
+    await this.syncSequences(client, parsed.tables);
+
+    for (const { sql } of analyzeStatements(parsed.tables)) {
+      await client.query(sql);
+    }
+  }
+
+  private async syncSequences(client: Client, tables: Table[]): Promise<void> {
+    for (const { sql, values } of sequenceSyncStatements(tables)) {
+      await client.query(sql, values);
+    }
+  }
+}
+
+/**
+ * A session's query connection. Statements before the last run as one simple
+ * query; the last one is read through a portal, a server-side cursor, so only
+ * the rows asked for leave the server. The portal stays open until the cursor
+ * is closed, and the connection takes no other query until then.
+ */
+class PostgresQueryConnection implements QueryConnection {
+  alive = true;
+  private cursor: ResultCursor | null = null;
+
+  constructor(private readonly client: Client, private readonly cancel: () => Promise<void>) {
+    // The server or container may go away while the connection waits between runs
+    client.on('error', error => {
+      this.alive = false;
+      console.error('Postgres query connection failed:', error);
+    });
+    client.on('end', () => {
+      this.alive = false;
+    });
+  }
+
+  async executeQuery(query: string, options: QueryOptions): Promise<ResultCursor> {
+    await this.cursor?.close();
+
+    const guard = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+      try {
+        return await guardQuery(run, { ...options, signal }, {
+          cancel: this.cancel,
+          // Ending a client with a query in flight drops its socket
+          abandon: () => void this.client.end().catch(() => undefined),
+        });
+      } catch (error) {
+        if (error instanceof DatabaseError && error.code === QUERY_CANCELED && /statement timeout/.test(error.message)) {
+          throw new QueryTimeoutError(options.timeoutMs);
+        }
+        throw error;
+      }
+    };
+
+    try {
+      await this.client.query(`SET statement_timeout = ${Math.ceil(options.timeoutMs)}`);
+    } catch (error) {
+      // A failed transaction only takes ROLLBACK, this SET included; the guard still bounds the script
+      if (!(error instanceof DatabaseError && error.code === IN_FAILED_TRANSACTION)) throw error;
+    }
+
+    const statements = splitSqlStatements(query);
+    const last = statements.pop();
+    if (statements.length > 0) {
+      await guard(() => this.client.query(statements.join(';\n')), options.signal);
+    }
+    if (last === undefined) {
+      return bufferedCursor({ rows: [], columns: [] });
+    }
+
+    const cursor = this.client.query(new Cursor(last));
+    let closed = false;
+    const result: ResultCursor = {
+      read: (count, signal) => guard(() => readCursor(cursor, count), signal),
+      close: async () => {
+        if (closed) return;
+        closed = true;
+        if (this.cursor === result) this.cursor = null;
+        await this.closeCursor(cursor);
+      },
+    };
+    this.cursor = result;
+    return result;
+  }
+
+  async close(): Promise<void> {
+    this.alive = false;
+    await this.client.end().catch(() => undefined);
+  }
+
+  /**
+   * Close the portal so the connection takes queries again. A connection lost
+   * meanwhile never answers, so its end counts as closed too.
+   */
+  private async closeCursor(cursor: Cursor): Promise<void> {
+    if (!this.alive) return;
+
+    await new Promise<void>(resolve => {
+      const ended = (): void => resolve();
+      this.client.once('end', ended);
+      cursor.close(() => {
+        this.client.removeListener('end', ended);
+        resolve();
+      });
+    });
+  }
+}
+
+function readCursor(cursor: Cursor, count: number): Promise<QueryResult> {
+  return new Promise((resolve, reject) => {
+    cursor.read(count, (error, rows, result) => {
+      if (error) reject(error);
+      else resolve({ rows, columns: result ? result.fields.map((field: FieldDef) => field.name) : [] });
+    });
+  });
+}
+
+/**
+ * Rows carry explicit ids, so move identity sequences past them
+ */
+function sequenceSyncStatements(tables: Table[]): SnapshotStatement[] {
+  return tables.flatMap(table =>
+    table.columns
+      .filter(col => col.isAutoIncrement)
+      .map(col => ({
+        sql: `SELECT setval(pg_get_serial_sequence($1, $2), COALESCE(MAX(${q(col.name)}), 0) + 1, false) FROM ${q(table.name)}`,
+        values: [q(table.name), col.name],
+      }))
+  );
+}
+
+/**
+ * Fresh statistics so EXPLAIN reflects the seeded data and its indexes. The
+ * tables are named so a session on a shared server only analyzes its own.
+ */
+function analyzeStatements(tables: Table[]): SnapshotStatement[] {
+  if (tables.length === 0) return [];
+  return [{ sql: `ANALYZE ${tables.map(t => q(t.name)).join(', ')}`, values: [] }];
+}
+
+/**
+ * node-postgres sends JS arrays as Postgres arrays; json columns need the JSON text instead
+ */
+function toPostgresValue(table: Table, column: string, value: unknown): unknown {
+  const type = table.columns.find(col => col.name === column)?.type.toLowerCase();
+  if ((type === 'json' || type === 'jsonb') && value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value;
+}
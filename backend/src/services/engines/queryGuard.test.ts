@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryCancelledError, QueryTimeoutError, guardQuery } from './queryGuard';
+
+interface FakeServer {
+  cancels: number;
+  abandoned: boolean;
+  hooks: { cancel: () => Promise<void>; abandon: () => void };
+  /** A query that runs until cancelled, or forever when the server ignores cancels */
+  run: () => Promise<string>;
+}
+
+function fakeServer(stopsOnCancel = true): FakeServer {
+  let fail: (error: Error) => void = () => undefined;
+  const server: FakeServer = {
+    cancels: 0,
+    abandoned: false,
+    hooks: {
+      cancel: async () => {
+        server.cancels++;
+        if (stopsOnCancel) fail(new Error('canceling statement due to user request'));
+      },
+      abandon: () => {
+        server.abandoned = true;
+      },
+    },
+    run: () =>
+      new Promise<string>((_, reject) => {
+        fail = reject;
+      }),
+  };
+  return server;
+}
+
+describe('guardQuery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns what the query returns', async () => {
+    const server = fakeServer();
+
+    await expect(guardQuery(async () => 'rows', { timeoutMs: 1000, maxRows: 10 }, server.hooks)).resolves.toBe('rows');
+    expect(server.cancels).toBe(0);
+  });
+
+  it('passes on errors of the query itself', async () => {
+    const server = fakeServer();
+    const run = async (): Promise<string> => {
+      throw new Error('syntax error');
+    };
+
+    await expect(guardQuery(run, { timeoutMs: 1000, maxRows: 10 }, server.hooks)).rejects.toThrow('syntax error');
+  });
+
+  it('cancels a query still running a second past its timeout', async () => {
+    const server = fakeServer();
+    const query = guardQuery(server.run, { timeoutMs: 5000, maxRows: 10 }, server.hooks);
+    const outcome = expect(query).rejects.toThrow(new QueryTimeoutError(5000));
+
+    await vi.advanceTimersByTimeAsync(5999);
+    expect(server.cancels).toBe(0);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await outcome;
+    expect(server.cancels).toBe(1);
+    expect(server.abandoned).toBe(false);
+  });
+
+  it('cancels a query when its signal is aborted', async () => {
+    const server = fakeServer();
+    const controller = new AbortController();
+    const query = guardQuery(server.run, { timeoutMs: 5000, maxRows: 10, signal: controller.signal }, server.hooks);
+
+    controller.abort();
+
+    await expect(query).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(server.cancels).toBe(1);
+  });
+
+  it('does not start a query whose signal was aborted before', async () => {
+    const server = fakeServer();
+    const run = vi.fn(server.run);
+    const controller = new AbortController();
+    controller.abort();
+
+    const query = guardQuery(run, { timeoutMs: 5000, maxRows: 10, signal: controller.signal }, server.hooks);
+
+    await expect(query).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(run).not.toHaveBeenCalled();
+    expect(server.cancels).toBe(0);
+  });
+
+  it('drops the connection of a query that does not stop when cancelled', async () => {
+    const server = fakeServer(false);
+    const controller = new AbortController();
+    const query = guardQuery(server.run, { timeoutMs: 5000, maxRows: 10, signal: controller.signal }, server.hooks);
+    const outcome = expect(query).rejects.toBeInstanceOf(QueryCancelledError);
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(server.abandoned).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await outcome;
+    expect(server.abandoned).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { QueryOptions } from './sandboxEngine';
+
+// How long past its deadline a query may run before it is cancelled from outside
+const DEADLINE_GRACE_MS = 1000;
+// How long a cancelled query may take to stop before its connection is dropped
+const ABANDON_AFTER_MS = 2000;
+
+export class QueryTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Query timed out after ${timeoutMs / 1000}s`);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('Query was cancelled');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+interface GuardHooks {
+  /** Ask the server to stop the running statement, from another connection */
+  cancel: () => Promise<void>;
+  /** Drop the query's connection when the server does not stop it */
+  abandon: () => void;
+}
+
+/**
+ * Wall-clock guard around a query, on top of the engine's own statement
+ * timeout: past the deadline, or once `options.signal` is aborted, the query
+ * is cancelled and then abandoned. Errors caused by either come back as
+ * QueryTimeoutError or QueryCancelledError.
+ */
+export async function guardQuery<T>(run: () => Promise<T>, options: QueryOptions, hooks: GuardHooks): Promise<T> {
+  // A cancel sent before the query would not reach it
+  if (options.signal?.aborted) throw new QueryCancelledError();
+
+  let reason: 'timeout' | 'cancelled' | null = null;
+  let abandonTimer: NodeJS.Timeout | undefined;
+  let rejectAbandoned: (error: Error) => void = () => undefined;
+  const abandoned = new Promise<never>((_, reject) => {
+    rejectAbandoned = reject;
+  });
+
+  const stop = (why: 'timeout' | 'cancelled'): void => {
+    if (reason) return;
+    reason = why;
+    hooks.cancel().catch(error => console.error('Failed to cancel query:', error));
+    abandonTimer = setTimeout(() => {
+      hooks.abandon();
+      rejectAbandoned(new Error('Query did not stop'));
+    }, ABANDON_AFTER_MS);
+  };
+
+  const deadline = setTimeout(() => stop('timeout'), options.timeoutMs + DEADLINE_GRACE_MS);
+  const onAbort = (): void => stop('cancelled');
+  options.signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await Promise.race([run(), abandoned]);
+  } catch (error) {
+    if (reason === 'timeout') throw new QueryTimeoutError(options.timeoutMs);
+    if (reason === 'cancelled') throw new QueryCancelledError();
+    throw error;
+  } finally {
+    clearTimeout(deadline);
+    clearTimeout(abandonTimer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,18 @@
+import { QueryResult, ResultCursor } from './sandboxEngine';
+
+/**
+ * A cursor over rows already read into memory
+ */
+export function bufferedCursor(result: QueryResult, totalRows?: number): ResultCursor {
+  let position = 0;
+
+  return {
+    totalRows,
+    read: async count => {
+      const rows = result.rows.slice(position, position + count);
+      position += rows.length;
+      return { rows, columns: result.columns };
+    },
+    close: async () => undefined,
+  };
+}
@@ -0,0 +1,168 @@
+import { ParsedDBML, Relationship } from '../../parser/dbmlParser';
+import { SeedData } from '../seedValidator';
+import { SeedPlan } from '../seedPlanner';
+import { RowChange } from '../rowChanges';
+import { IntrospectedSchema } from '../schemaIntrospector';
+
+export type SupportedEngine = 'postgres' | 'mysql';
+
+export interface EngineCredentials {
+  username: string;
+  password: string;
+  database: string;
+}
+
+/**
+ * Seed data that passed validation, with the order to insert it in
+ */
+export interface PreparedSeed {
+  parsed: ParsedDBML;
+  plan: SeedPlan;
+  data: SeedData;
+}
+
+/**
+ * The schema a sandbox database was last built or migrated to
+ */
+export interface AppliedSchema {
+  parsed: ParsedDBML;
+  deferredRelationships: Relationship[];
+}
+
+export interface SnapshotStatement {
+  sql: string;
+  values: unknown[];
+}
+
+/**
+ * Everything needed to rebuild a seeded database in bulk: schema, rows and
+ * follow-up statements such as identity resets, in order
+ */
+export interface SeedSnapshot {
+  statements: SnapshotStatement[];
+}
+
+/**
+ * How a seed table's rows differ from the seed. Rows are compared whole, so an
+ * updated row counts as one removed and one added.
+ */
+export interface TableChanges {
+  table: string;
+  rowsAdded: number;
+  rowsRemoved: number;
+}
+
+/**
+ * What queries changed in a database since it was seeded
+ */
+export interface SeedChanges {
+  tables: TableChanges[]; // seed tables whose rows differ
+  createdTables: string[];
+  droppedTables: string[];
+  alteredTables: string[]; // seed tables whose columns changed; their rows are not compared
+}
+
+/**
+ * Where a sandbox database accepts connections
+ */
+export interface SandboxAddress {
+  host: string;
+  port: number;
+}
+
+export interface QueryOptions {
+  timeoutMs: number;
+  signal?: AbortSignal; // aborted to cancel the query
+  /**
+   * The most rows the caller will read. An engine that reads the result up
+   * front keeps one more, or reports totalRows, so a cut result can be told.
+   */
+  maxRows: number;
+}
+
+export interface QueryResult {
+  rows: unknown[];
+  columns: string[];
+}
+
+/**
+ * The result of a script, read in batches. An engine may keep the query open
+ * on the server between reads; `close` releases it.
+ */
+export interface ResultCursor {
+  /** Set when the engine knows the row count before the rows are read */
+  readonly totalRows?: number;
+  /** Up to `count` more rows; fewer once the result is exhausted. Guarded like the query itself. */
+  read(count: number, signal?: AbortSignal): Promise<QueryResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * A connection kept open for one session's queries, so what a script leaves
+ * behind on it (an open transaction, temporary tables, SET) is there for the
+ * next one
+ */
+export interface QueryConnection {
+  /** False once the connection is gone, dropped by the query guard or by the server */
+  readonly alive: boolean;
+  /**
+   * Run a user's script within the timeout (see guardQuery) and open a cursor
+   * over its result. A cursor still open from the previous script is closed first.
+   */
+  executeQuery(query: string, options: QueryOptions): Promise<ResultCursor>;
+  close(): Promise<void>;
+}
+
+/**
+ * Everything engine specific about a sandbox: the container it runs in and
+ * how to build, seed, query and read back the database inside it. The
+ * container manager owns the lifecycle and calls these with the address the
+ * container's database can be reached at.
+ */
+export interface SandboxEngine {
+  readonly name: SupportedEngine;
+  /** Shown in messages, e.g. "MySQL" */
+  readonly label: string;
+  readonly defaultImage: string;
+  /** Port the database listens on inside the container */
+  readonly containerPort: number;
+  /** Where the image keeps its database files, mounted as tmpfs */
+  readonly dataDirectory: string;
+
+  /** Environment for the container, creating the database and user the engine connects as */
+  containerEnv(): string[];
+  /** Resolves once the database accepts connections */
+  ping(address: SandboxAddress): Promise<void>;
+  /** Create the schema and insert the seed rows into a fresh database */
+  seed(address: SandboxAddress, seed: PreparedSeed): Promise<void>;
+  /** Bulk load statements rebuilding what `seed` loads; only valid once it has loaded without problems */
+  buildSnapshot(seed: PreparedSeed): SeedSnapshot;
+  /** Load a snapshot into a fresh database */
+  restoreSnapshot(address: SandboxAddress, snapshot: SeedSnapshot): Promise<void>;
+  /** Drop everything in the database, including what queries created, and load the snapshot */
+  resetToSnapshot(address: SandboxAddress, snapshot: SeedSnapshot): Promise<void>;
+  /** Compare the database with the state the snapshot loads; `tables` are the snapshot's */
+  compareWithSnapshot(address: SandboxAddress, snapshot: SeedSnapshot, tables: string[]): Promise<SeedChanges>;
+  /**
+   * Statements that bring a database built from `previous` to the seed's
+   * schema, or null when the engine cannot make that change in place
+   */
+  planMigration(previous: AppliedSchema, seed: PreparedSeed): string[] | null;
+  /** Empty the tables of `previous`, run the migration statements and insert the seed rows */
+  reseed(address: SandboxAddress, previous: ParsedDBML, statements: string[], seed: PreparedSeed): Promise<void>;
+  /** Open the connection a session's queries run on */
+  openQueryConnection(address: SandboxAddress): Promise<QueryConnection>;
+  /** `known` is the schema the sandbox was built from, used to keep names the catalog loses */
+  introspect(address: SandboxAddress, known: ParsedDBML): Promise<IntrospectedSchema>;
+  /**
+   * Apply already validated and ordered changes in one transaction. Returns the
+   * values the database generated for inserted rows, such as auto-increment ids.
+   * `original` is the order the caller sent, for messages.
+   */
+  applyRowChanges(
+    address: SandboxAddress,
+    parsed: ParsedDBML,
+    changes: RowChange[],
+    original: RowChange[]
+  ): Promise<Map<RowChange, Record<string, unknown>>>;
+}
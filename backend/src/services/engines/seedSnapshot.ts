@@ -0,0 +1,49 @@
+import { Table } from '../../parser/dbmlParser';
+import { PreparedSeed, SnapshotStatement } from './sandboxEngine';
+
+// Bind parameter limit of both the Postgres and MySQL protocols
+const MAX_PARAMETERS = 65535;
+
+interface BulkInsertOptions {
+  quote: (name: string) => string;
+  placeholder: (index: number) => string; // 1-based
+  toValue: (table: Table, column: string, value: unknown) => unknown;
+}
+
+/**
+ * Multi-row INSERTs loading a seed in plan order, as few statements as the
+ * parameter limit allows. A value a row leaves out is written as DEFAULT.
+ */
+export function bulkInsertStatements(seed: PreparedSeed, options: BulkInsertOptions): SnapshotStatement[] {
+  const { quote, placeholder, toValue } = options;
+  const statements: SnapshotStatement[] = [];
+
+  for (const tableName of seed.plan.order) {
+    const table = seed.parsed.tables.find(t => t.name === tableName) as Table;
+    const rows = seed.data[tableName];
+    if (rows.length === 0) continue;
+
+    // Rows that set no column at all still need one to list, all DEFAULT
+    const given = table.columns.map(col => col.name).filter(col => rows.some(row => row[col] !== undefined));
+    const columns = given.length > 0 ? given : [table.columns[0].name];
+
+    const rowsPerStatement = Math.floor(MAX_PARAMETERS / columns.length);
+    for (let start = 0; start < rows.length; start += rowsPerStatement) {
+      const values: unknown[] = [];
+      const tuples = rows.slice(start, start + rowsPerStatement).map(row => {
+        const cells = columns.map(col => {
+          if (row[col] === undefined) return 'DEFAULT';
+          values.push(toValue(table, col, row[col]));
+          return placeholder(values.length);
+        });
+        return `(${cells.join(', ')})`;
+      });
+      statements.push({
+        sql: `INSERT INTO ${quote(tableName)} (${columns.map(quote).join(', ')}) VALUES ${tuples.join(', ')}`,
+        values,
+      });
+    }
+  }
+
+  return statements;
+}
@@ -0,0 +1,333 @@
+import { Connection, RowDataPacket } from 'mysql2/promise';
+import {
+  ColumnDefault,
+  DBMLEnum,
+  IndexColumn,
+  IndexMethod,
+  ParsedDBML,
+  ReferentialAction,
+  Relationship,
+  Table,
+  TableColumn,
+  isUniqueKey,
+} from '../parser/dbmlParser';
+import { IntrospectedSchema, isWrapped } from './schemaIntrospector';
+
+// REFERENTIAL_CONSTRAINTS rules; NO ACTION is the default and omitted
+const REFERENTIAL_ACTIONS: Record<string, ReferentialAction | undefined> = {
+  RESTRICT: 'restrict',
+  CASCADE: 'cascade',
+  'SET NULL': 'set null',
+  'SET DEFAULT': 'set default',
+};
+
+// MySQL type names that the MySQL dialect only produces from a different DBML name
+const TYPE_ALIASES: Record<string, string> = {
+  float: 'real',
+  timestamp: 'timestamptz',
+};
+
+const NUMERIC_TYPES = /^(tinyint|smallint|mediumint|int|integer|bigint|real|float|double|decimal|numeric)/;
+
+const TABLES_SQL = `
+  SELECT TABLE_NAME AS name, TABLE_COMMENT AS note
+  FROM information_schema.TABLES
+  WHERE TABLE_SCHEMA = DATABASE() AND TABLE_TYPE = 'BASE TABLE'
+  ORDER BY CREATE_TIME, TABLE_NAME`;
+
+const COLUMNS_SQL = `
+  SELECT TABLE_NAME AS table_name, COLUMN_NAME AS name, COLUMN_TYPE AS type,
+    IS_NULLABLE = 'NO' AS not_null, COLUMN_DEFAULT AS default_value, EXTRA AS extra, COLUMN_COMMENT AS note
+  FROM information_schema.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+  ORDER BY TABLE_NAME, ORDINAL_POSITION`;
+
+const INDEXES_SQL = `
+  SELECT TABLE_NAME AS table_name, INDEX_NAME AS name, NON_UNIQUE = 0 AS is_unique, INDEX_TYPE AS method,
+    COLUMN_NAME AS column_name, EXPRESSION AS expression
+  FROM information_schema.STATISTICS
+  WHERE TABLE_SCHEMA = DATABASE()
+  ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`;
+
+const FOREIGN_KEYS_SQL = `
+  SELECT k.TABLE_NAME AS table_name, k.CONSTRAINT_NAME AS name, k.COLUMN_NAME AS column_name,
+    k.REFERENCED_TABLE_NAME AS ref_table, k.REFERENCED_COLUMN_NAME AS ref_column,
+    r.DELETE_RULE AS on_delete, r.UPDATE_RULE AS on_update
+  FROM information_schema.KEY_COLUMN_USAGE k
+  JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+    ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME AND r.TABLE_NAME = k.TABLE_NAME
+  WHERE k.TABLE_SCHEMA = DATABASE() AND k.REFERENCED_TABLE_NAME IS NOT NULL
+  ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`;
+
+const CHECKS_SQL = `
+  SELECT t.TABLE_NAME AS table_name, c.CONSTRAINT_NAME AS name, c.CHECK_CLAUSE AS clause
+  FROM information_schema.CHECK_CONSTRAINTS c
+  JOIN information_schema.TABLE_CONSTRAINTS t
+    ON t.CONSTRAINT_SCHEMA = c.CONSTRAINT_SCHEMA AND t.CONSTRAINT_NAME = c.CONSTRAINT_NAME
+  WHERE c.CONSTRAINT_SCHEMA = DATABASE() AND t.CONSTRAINT_TYPE = 'CHECK'
+  ORDER BY t.TABLE_NAME, c.CONSTRAINT_NAME`;
+
+interface TableRow extends RowDataPacket {
+  name: string;
+  note: string;
+}
+
+interface ColumnRow extends RowDataPacket {
+  table_name: string;
+  name: string;
+  type: string;
+  not_null: number;
+  default_value: string | null;
+  extra: string;
+  note: string;
+}
+
+interface IndexRow extends RowDataPacket {
+  table_name: string;
+  name: string;
+  is_unique: number;
+  method: string;
+  column_name: string | null;
+  expression: string | null;
+}
+
+interface ForeignKeyRow extends RowDataPacket {
+  table_name: string;
+  name: string;
+  column_name: string;
+  ref_table: string;
+  ref_column: string;
+  on_delete: string;
+  on_update: string;
+}
+
+interface CheckRow extends RowDataPacket {
+  table_name: string;
+  name: string;
+  clause: string;
+}
+
+/**
+ * Read the current database of a live MySQL server back into the DBML schema
+ * model. MySQL enums are column types rather than named types, so they are
+ * named after the enum of `known` (the schema the database was built from)
+ * with the same values, or after their table and column.
+ */
+export async function introspectMySQLSchema(connection: Connection, known: ParsedDBML): Promise<IntrospectedSchema> {
+  const warnings: string[] = [];
+
+  const [tableRows] = await connection.query<TableRow[]>(TABLES_SQL);
+  const [columnRows] = await connection.query<ColumnRow[]>(COLUMNS_SQL);
+  const [indexRows] = await connection.query<IndexRow[]>(INDEXES_SQL);
+  const [foreignKeyRows] = await connection.query<ForeignKeyRow[]>(FOREIGN_KEYS_SQL);
+  const [checkRows] = await connection.query<CheckRow[]>(CHECKS_SQL);
+
+  const enums: DBMLEnum[] = [];
+  const tablesByName = new Map<string, Table>();
+
+  for (const row of tableRows) {
+    tablesByName.set(row.name, {
+      name: row.name,
+      columns: [],
+      primaryKey: [],
+      indexes: [],
+      checks: [],
+      note: row.note || undefined,
+    });
+  }
+
+  for (const row of columnRows) {
+    const table = tablesByName.get(row.table_name);
+    if (!table) continue;
+
+    const enumValues = parseEnumValues(row.type);
+    let enumType: string | undefined;
+    if (enumValues) {
+      enumType = enumName(known, enums, table.name, row.name, enumValues);
+      if (!enums.some(e => e.name === enumType)) enums.push({ name: enumType, values: enumValues });
+    }
+    if (/on update/i.test(row.extra)) {
+      warnings.push(`Column '${table.name}.${row.name}' has an ON UPDATE clause, which DBML cannot express`);
+    }
+    table.columns.push(toColumn(row, enumType));
+  }
+
+  // Groups STATISTICS rows (one per indexed column) by table and index
+  const indexes = new Map<string, IndexRow[]>();
+  for (const row of indexRows) {
+    const key = JSON.stringify([row.table_name, row.name]);
+    indexes.set(key, [...(indexes.get(key) ?? []), row]);
+  }
+
+  // Each foreign key gets an index named after it unless one already covers its columns
+  const foreignKeyNames = new Set(foreignKeyRows.map(row => JSON.stringify([row.table_name, row.name])));
+
+  for (const [key, rows] of indexes) {
+    const { table_name: tableName, name, is_unique: isUnique, method } = rows[0];
+    const table = tablesByName.get(tableName);
+    if (!table || foreignKeyNames.has(key)) continue;
+
+    if (name === 'PRIMARY') {
+      table.primaryKey = rows.map(row => row.column_name as string);
+      for (const col of table.columns) {
+        if (table.primaryKey.includes(col.name)) col.isPrimaryKey = true;
+      }
+      continue;
+    }
+
+    const columns: IndexColumn[] = rows.map(row =>
+      row.column_name !== null
+        ? { kind: 'column', value: row.column_name }
+        : { kind: 'expression', value: stripIdentifierQuotes(row.expression ?? '') }
+    );
+
+    // A UNIQUE column constraint creates an index named after the column
+    if (isUnique && columns.length === 1 && columns[0].kind === 'column' && columns[0].value === name) {
+      const col = table.columns.find(c => c.name === name);
+      if (col) {
+        col.isUnique = true;
+        continue;
+      }
+    }
+
+    let type: IndexMethod | undefined;
+    if (method === 'HASH') {
+      type = 'hash';
+    } else if (method !== 'BTREE') {
+      warnings.push(`Index '${name}' on '${table.name}' uses ${method}; DBML records it as a btree index`);
+    }
+
+    const defaultName = `${table.name}_${columns.map(col => (col.kind === 'column' ? col.value : 'expr')).join('_')}_idx`;
+    table.indexes.push({ name: name === defaultName ? undefined : name, columns, unique: isUnique === 1, type });
+  }
+
+  for (const row of checkRows) {
+    const table = tablesByName.get(row.table_name);
+    if (!table) continue;
+
+    const expression = unwrapCheck(row.clause);
+    const referenced = table.columns.filter(col => row.clause.includes(`\`${col.name}\``));
+    table.checks.push({
+      name: row.name,
+      expression,
+      column: referenced.length === 1 ? referenced[0].name : undefined,
+    });
+  }
+
+  const relationships: Relationship[] = [];
+  const foreignKeys = new Map<string, ForeignKeyRow[]>();
+  for (const row of foreignKeyRows) {
+    const key = JSON.stringify([row.table_name, row.name]);
+    foreignKeys.set(key, [...(foreignKeys.get(key) ?? []), row]);
+  }
+
+  for (const rows of foreignKeys.values()) {
+    const { table_name: tableName, name, ref_table: refTable, on_delete: onDelete, on_update: onUpdate } = rows[0];
+    const table = tablesByName.get(tableName);
+    if (!table) continue;
+
+    const columns = rows.map(row => row.column_name);
+    const refColumns = rows.map(row => row.ref_column);
+    const isDefaultName = name === `fk_${table.name}_${columns.join('_')}` || /_ibfk_\d+$/.test(name);
+
+    relationships.push({
+      name: isDefaultName ? undefined : name,
+      from: `${table.name}.${columns.join(',')}`,
+      to: `${refTable}.${refColumns.join(',')}`,
+      type: isUniqueKey(table, columns) ? 'one-to-one' : 'many-to-one',
+      fromTable: table.name,
+      fromColumns: columns,
+      toTable: refTable,
+      toColumns: refColumns,
+      onDelete: REFERENTIAL_ACTIONS[onDelete],
+      onUpdate: REFERENTIAL_ACTIONS[onUpdate],
+    });
+  }
+
+  return { tables: Array.from(tablesByName.values()), relationships, enums, warnings };
+}
+
+function toColumn(row: ColumnRow, enumType: string | undefined): TableColumn {
+  const type = enumType ?? toDBMLType(row.type);
+
+  return {
+    name: row.name,
+    type,
+    isPrimaryKey: false,
+    isNotNull: row.not_null === 1,
+    isUnique: false,
+    isAutoIncrement: /auto_increment/i.test(row.extra),
+    defaultValue: row.default_value !== null ? toColumnDefault(row.default_value, row.extra, type) : undefined,
+    enumType,
+    note: row.note || undefined,
+  };
+}
+
+/**
+ * Map COLUMN_TYPE back to the DBML type the MySQL dialect renders it from,
+ * e.g. "tinyint(1)" -> "boolean", "int unsigned" -> "int"
+ */
+function toDBMLType(mysqlType: string): string {
+  const type = mysqlType.toLowerCase().replace(/\s+(unsigned|zerofill)/g, '');
+  if (type === 'tinyint(1)') return 'boolean';
+
+  const args = type.match(/\([^)]*\)/)?.[0] ?? '';
+  const base = type.replace(args, '').trim();
+  // Display widths such as int(11) are not part of the type
+  if (/int$/.test(base)) return base;
+  return `${TYPE_ALIASES[base] ?? base}${args}`;
+}
+
+/**
+ * Values of an "enum('a','b')" column type, or null for other types
+ */
+function parseEnumValues(mysqlType: string): string[] | null {
+  const match = mysqlType.match(/^enum\((.*)\)$/i);
+  if (!match) return null;
+  return Array.from(match[1].matchAll(/'((?:[^'\\]|''|\\.)*)'/g), m => m[1].replace(/''/g, "'").replace(/\\(.)/g, '$1'));
+}
+
+function enumName(known: ParsedDBML, found: DBMLEnum[], table: string, column: string, values: string[]): string {
+  const sameValues = (e: DBMLEnum): boolean =>
+    e.values.length === values.length && e.values.every((value, i) => value === values[i]);
+
+  const knownType = known.tables.find(t => t.name === table)?.columns.find(c => c.name === column)?.enumType;
+  const knownEnum = known.enums.find(e => e.name === knownType);
+  if (knownEnum && sameValues(knownEnum)) return knownEnum.name;
+
+  return found.find(sameValues)?.name ?? `${table}_${column}`;
+}
+
+/**
+ * Turn a COLUMN_DEFAULT back into a DBML default value. Literal defaults are
+ * stored unquoted; expression defaults are flagged DEFAULT_GENERATED.
+ */
+function toColumnDefault(value: string, extra: string, type: string): ColumnDefault {
+  if (/DEFAULT_GENERATED/i.test(extra)) {
+    // String defaults of TEXT/JSON columns are expressions, e.g. _utf8mb4\'draft\'
+    const literal = value.match(/^(?:_\w+)?\\'((?:[^\\]|\\.)*)\\'$/);
+    if (literal) return { kind: 'string', value: literal[1].replace(/\\(.)/g, '$1') };
+    return { kind: 'expression', value };
+  }
+  if (type === 'boolean' && (value === '0' || value === '1')) {
+    return { kind: 'boolean', value: value === '1' ? 'true' : 'false' };
+  }
+  if (NUMERIC_TYPES.test(type) && /^-?\d+(\.\d+)?$/.test(value)) return { kind: 'number', value };
+  return { kind: 'string', value };
+}
+
+/**
+ * CHECK_CLAUSE is stored as "(`age` > 0)" with charset introducers on string
+ * literals; keep a plain expression
+ */
+function unwrapCheck(clause: string): string {
+  let expression = stripIdentifierQuotes(clause).replace(/\b_\w+'/g, "'");
+  while (expression.startsWith('(') && expression.endsWith(')') && isWrapped(expression)) {
+    expression = expression.slice(1, -1).trim();
+  }
+  return expression;
+}
+
+function stripIdentifierQuotes(expression: string): string {
+  return expression.replace(/`((?:[^`]|``)+)`/g, (_, name: string) => name.replace(/``/g, '`'));
+}
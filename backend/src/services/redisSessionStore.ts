@@ -0,0 +1,135 @@
+import Redis from 'ioredis';
+import * as crypto from 'crypto';
+import { SessionStore, StoredSession } from './sessionStore';
+
+export interface RedisSessionStoreConfig {
+  url: string;
+  keyPrefix: string;
+  expireAfterMs: number; // a session not used for this long is dropped by Redis itself
+  lockTtlMs: number; // renewed while the holder runs, so only a crashed holder's lock expires
+  lockWaitMs: number;
+  lockRetryMs: number;
+}
+
+// Only the holder that set a lock may renew or release it
+const RENEW_LOCK = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LOCK = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+// Never recreates a session that was deleted meanwhile
+const TOUCH_SESSION = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  redis.call('HSET', KEYS[1], 'lastAccessed', ARGV[1])
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Sessions in Redis, shared by every API replica that points at the same
+ * server and prefix. Each session is a hash of its JSON record and its last
+ * use, so touching one does not rewrite the record; a set indexes them for
+ * listing. Locks are plain keys set with NX and a token.
+ */
+export class RedisSessionStore<T extends StoredSession> implements SessionStore<T> {
+  readonly shared = true;
+  private redis: Redis;
+  private config: RedisSessionStoreConfig;
+
+  constructor(config: Pick<RedisSessionStoreConfig, 'url'> & Partial<RedisSessionStoreConfig>) {
+    this.config = {
+      keyPrefix: 'sql-sandbox:',
+      expireAfterMs: 2 * 60 * 60 * 1000, // 2 hours, past the sandbox TTL so cleanup still finds expired sessions
+      lockTtlMs: 30 * 1000, // 30s
+      lockWaitMs: 3 * 60 * 1000, // 3 minutes, long enough for another replica to start a container
+      lockRetryMs: 100,
+      ...config,
+    };
+    this.redis = new Redis(this.config.url);
+    this.redis.on('error', error => console.error('Redis session store error:', error));
+  }
+
+  async get(sessionId: string): Promise<T | undefined> {
+    const [record, lastAccessed] = await this.redis.hmget(this.sessionKey(sessionId), 'record', 'lastAccessed');
+    if (record === null) return undefined;
+    return { ...(JSON.parse(record) as T), lastAccessed: Number(lastAccessed) };
+  }
+
+  async set(session: T): Promise<void> {
+    const key = this.sessionKey(session.sessionId);
+    await this.redis
+      .multi()
+      .hset(key, { record: JSON.stringify(session), lastAccessed: String(session.lastAccessed) })
+      .pexpire(key, this.config.expireAfterMs)
+      .sadd(this.indexKey(), session.sessionId)
+      .exec();
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    await this.redis.eval(TOUCH_SESSION, 1, this.sessionKey(sessionId), Date.now(), this.config.expireAfterMs);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.redis.multi().del(this.sessionKey(sessionId)).srem(this.indexKey(), sessionId).exec();
+  }
+
+  async list(): Promise<T[]> {
+    const sessionIds = await this.redis.smembers(this.indexKey());
+    const sessions: T[] = [];
+    const gone: string[] = [];
+    for (const sessionId of sessionIds) {
+      const session = await this.get(sessionId);
+      if (session) sessions.push(session);
+      else gone.push(sessionId);
+    }
+
+    // Sessions Redis expired are still in the index
+    if (gone.length > 0) await this.redis.srem(this.indexKey(), ...gone);
+    return sessions;
+  }
+
+  async withLock<R>(sessionId: string, task: () => Promise<R>): Promise<R> {
+    const key = `${this.config.keyPrefix}lock:${sessionId}`;
+    const token = crypto.randomBytes(16).toString('hex');
+    const deadline = Date.now() + this.config.lockWaitMs;
+
+    while ((await this.redis.set(key, token, 'PX', this.config.lockTtlMs, 'NX')) !== 'OK') {
+      if (Date.now() > deadline) {
+        throw new Error(`Session ${sessionId} is busy with another request; try again`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.config.lockRetryMs));
+    }
+
+    const renewal = setInterval(() => {
+      this.redis
+        .eval(RENEW_LOCK, 1, key, token, this.config.lockTtlMs)
+        .catch(error => console.error(`Failed to renew the lock of session ${sessionId}:`, error));
+    }, this.config.lockTtlMs / 3);
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(renewal);
+      await this.redis
+        .eval(RELEASE_LOCK, 1, key, token)
+        .catch(error => console.error(`Failed to release the lock of session ${sessionId}:`, error));
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.config.keyPrefix}session:${sessionId}`;
+  }
+
+  private indexKey(): string {
+    return `${this.config.keyPrefix}sessions`;
+  }
+}
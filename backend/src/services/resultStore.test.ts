@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResultNotFoundError, ResultStore } from './resultStore';
+import { ResultCursor } from './engines';
+
+interface TestCursor extends ResultCursor {
+  closed: boolean;
+  reads: number[];
+}
+
+// A cursor over `count` numbered rows that records its reads
+function cursorOver(count: number, totalRows?: number): TestCursor {
+  const rows = Array.from({ length: count }, (_, n) => ({ n }));
+  let position = 0;
+
+  const cursor: TestCursor = {
+    totalRows,
+    closed: false,
+    reads: [],
+    read: async wanted => {
+      cursor.reads.push(wanted);
+      const page = rows.slice(position, position + wanted);
+      position += page.length;
+      return { rows: page, columns: ['n'] };
+    },
+    close: async () => {
+      cursor.closed = true;
+    },
+  };
+  return cursor;
+}
+
+describe('ResultStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the first page and reads further pages only when asked', async () => {
+    const store = new ResultStore({ pageSize: 2 });
+    const cursor = cursorOver(5);
+
+    const first = await store.open('s1', cursor);
+    expect(first).toMatchObject({ rows: [{ n: 0 }, { n: 1 }], columns: ['n'], offset: 0, truncated: false });
+    expect(first.totalRows).toBeUndefined();
+    expect(first.resultId).toBeDefined();
+    expect(cursor.reads).toEqual([2]);
+
+    const second = await store.page('s1', first.resultId as string, 2);
+    expect(second.rows).toEqual([{ n: 2 }, { n: 3 }]);
+    expect(second.resultId).toBe(first.resultId);
+
+    const last = await store.page('s1', first.resultId as string, 4);
+    expect(last).toMatchObject({ rows: [{ n: 4 }], totalRows: 5, resultId: undefined });
+    expect(cursor.closed).toBe(true);
+  });
+
+  it('serves earlier pages again from the rows it kept', async () => {
+    const store = new ResultStore({ pageSize: 2 });
+    const first = await store.open('s1', cursorOver(5));
+    await store.page('s1', first.resultId as string, 2);
+
+    const again = await store.page('s1', first.resultId as string, 0, 3);
+    expect(again.rows).toEqual([{ n: 0 }, { n: 1 }, { n: 2 }]);
+  });
+
+  it('forgets a result once it has been read to the end', async () => {
+    const store = new ResultStore({ pageSize: 10 });
+
+    const page = await store.open('s1', cursorOver(3));
+    expect(page).toMatchObject({ totalRows: 3, resultId: undefined });
+    await expect(store.page('s1', 'any', 0)).rejects.toBeInstanceOf(ResultNotFoundError);
+  });
+
+  it('truncates results past maxRows and closes their cursor', async () => {
+    const store = new ResultStore({ maxRows: 3, pageSize: 2 });
+    const cursor = cursorOver(5);
+
+    const first = await store.open('s1', cursor);
+    const last = await store.page('s1', first.resultId as string, 2, 10);
+
+    expect(last).toMatchObject({ rows: [{ n: 2 }], truncated: true, totalRows: undefined });
+    expect(cursor.closed).toBe(true);
+  });
+
+  it('relies on a total the engine counted', async () => {
+    const store = new ResultStore({ maxRows: 3, pageSize: 3 });
+    const cursor = cursorOver(3, 3);
+
+    const page = await store.open('s1', cursor);
+
+    expect(page).toMatchObject({ totalRows: 3, truncated: false, resultId: undefined });
+    expect(cursor.reads).toEqual([3]);
+  });
+
+  it('rejects ids of results that were replaced', async () => {
+    const store = new ResultStore({ pageSize: 1 });
+    const first = await store.open('s1', cursorOver(3));
+    await store.close('s1');
+    await store.open('s1', cursorOver(3));
+
+    await expect(store.page('s1', first.resultId as string, 1)).rejects.toBeInstanceOf(ResultNotFoundError);
+  });
+
+  it('closes the result when reading from its cursor fails', async () => {
+    const store = new ResultStore({ pageSize: 1 });
+    const cursor = cursorOver(3);
+    const first = await store.open('s1', cursor);
+    cursor.read = async () => {
+      throw new Error('connection lost');
+    };
+
+    await expect(store.page('s1', first.resultId as string, 1)).rejects.toThrow('connection lost');
+    expect(cursor.closed).toBe(true);
+    await expect(store.page('s1', first.resultId as string, 0)).rejects.toBeInstanceOf(ResultNotFoundError);
+  });
+
+  it('waits for a read in progress before closing the cursor', async () => {
+    const store = new ResultStore({ pageSize: 1 });
+    const cursor = cursorOver(3);
+    const first = await store.open('s1', cursor);
+
+    let finishRead: () => void = () => undefined;
+    const read = cursor.read;
+    cursor.read = async count => {
+      await new Promise<void>(resolve => {
+        finishRead = resolve;
+      });
+      return await read(count);
+    };
+
+    const page = store.page('s1', first.resultId as string, 1);
+    const closing = store.close('s1');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(cursor.closed).toBe(false);
+
+    finishRead();
+    await expect(page).resolves.toMatchObject({ rows: [{ n: 1 }] });
+    await closing;
+    expect(cursor.closed).toBe(true);
+  });
+
+  it('closes a result whose cursor sits idle for cursorIdleMs', async () => {
+    const store = new ResultStore({ pageSize: 1, cursorIdleMs: 60 * 1000 });
+    const idle = cursorOver(5);
+    const first = await store.open('idle', idle);
+    const busy = await store.open('busy', cursorOver(5));
+
+    for (let offset = 1; offset <= 3; offset++) {
+      await vi.advanceTimersByTimeAsync(40 * 1000);
+      await store.page('busy', busy.resultId as string, offset);
+    }
+
+    expect(idle.closed).toBe(true);
+    await expect(store.page('idle', first.resultId as string, 1)).rejects.toBeInstanceOf(ResultNotFoundError);
+    await expect(store.page('busy', busy.resultId as string, 0)).resolves.toMatchObject({ rows: [{ n: 0 }] });
+  });
+});
@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import { ResultCursor } from './engines';
+
+export class ResultNotFoundError extends Error {
+  constructor() {
+    super('Result not found or expired; run the query again');
+    this.name = 'ResultNotFoundError';
+  }
+}
+
+export interface ResultStoreConfig {
+  maxRows: number; // rows kept per result; the rest are reported as truncated
+  pageSize: number; // rows per page when a request sets no limit
+  ttlMs: number; // results not read for this long are closed
+  // Sooner for results still reading from the database, whose open cursor
+  // holds a transaction and its locks
+  cursorIdleMs: number;
+}
+
+export interface ResultPage {
+  rows: unknown[];
+  columns: string[];
+  offset: number;
+  totalRows?: number; // when known: the result was read to the end, or the engine counted it
+  truncated: boolean; // the result has more than maxRows rows
+  resultId?: string; // set while rows past this page remain
+}
+
+interface OpenResult {
+  id: string;
+  cursor: ResultCursor | null; // null once the result is read to the end or up to maxRows
+  columns: string[];
+  rows: unknown[];
+  totalRows?: number;
+  truncated: boolean;
+  lastAccessed: number;
+  pending: Promise<unknown>; // reads of one cursor run one at a time
+}
+
+/**
+ * The open result of each session's last query. Rows are read from the
+ * cursor as pages ask for them and kept, up to `maxRows`, so any page can be
+ * served again; the cursor is closed once that many are read.
+ */
+export class ResultStore {
+  private results: Map<string, OpenResult> = new Map();
+  private config: ResultStoreConfig;
+
+  constructor(config?: Partial<ResultStoreConfig>) {
+    this.config = {
+      maxRows: 10000,
+      pageSize: 500,
+      ttlMs: 10 * 60 * 1000, // 10 minutes
+      cursorIdleMs: 60 * 1000, // 1 minute
+      ...config,
+    };
+
+    const sweepMs = Math.min(this.config.ttlMs, this.config.cursorIdleMs, 60 * 1000) / 2;
+    setInterval(() => void this.closeExpired(), sweepMs).unref();
+  }
+
+  get maxRows(): number {
+    return this.config.maxRows;
+  }
+
+  /**
+   * Keep `cursor` as the session's result and return its first page. The
+   * session's previous result should already be closed.
+   */
+  async open(sessionId: string, cursor: ResultCursor): Promise<ResultPage> {
+    const result: OpenResult = {
+      id: crypto.randomBytes(8).toString('hex'),
+      cursor,
+      columns: [],
+      rows: [],
+      totalRows: cursor.totalRows,
+      truncated: false,
+      lastAccessed: Date.now(),
+      pending: Promise.resolve(),
+    };
+    this.results.set(sessionId, result);
+    return await this.read(sessionId, result, 0, this.config.pageSize);
+  }
+
+  /**
+   * `limit` defaults to the page size and is capped at maxRows
+   */
+  async page(sessionId: string, resultId: string, offset: number, limit?: number): Promise<ResultPage> {
+    const result = this.results.get(sessionId);
+    if (!result || result.id !== resultId) {
+      throw new ResultNotFoundError();
+    }
+
+    result.lastAccessed = Date.now();
+    return await this.read(sessionId, result, offset, Math.min(limit ?? this.config.pageSize, this.config.maxRows));
+  }
+
+  async close(sessionId: string): Promise<void> {
+    const result = this.results.get(sessionId);
+    if (!result) return;
+
+    this.results.delete(sessionId);
+    // Closing the cursor under a read in progress would break that read
+    await result.pending;
+    await this.closeCursor(result);
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.results.keys()].map(sessionId => this.close(sessionId)));
+  }
+
+  private async read(sessionId: string, result: OpenResult, offset: number, limit: number): Promise<ResultPage> {
+    const filled = result.pending.then(() => this.fill(result, offset + limit));
+    result.pending = filled.catch(() => undefined);
+
+    try {
+      await filled;
+    } catch (error) {
+      if (this.results.get(sessionId) === result) await this.close(sessionId);
+      throw error;
+    }
+
+    const more = result.cursor !== null || offset + limit < result.rows.length;
+    // Nothing is left to fetch, so the rows need not be kept
+    if (!more && this.results.get(sessionId) === result) this.results.delete(sessionId);
+
+    return {
+      rows: result.rows.slice(offset, offset + limit),
+      columns: result.columns,
+      offset,
+      totalRows: result.totalRows,
+      truncated: result.truncated,
+      resultId: more ? result.id : undefined,
+    };
+  }
+
+  /**
+   * Read until `count` rows are buffered, the result ends or maxRows is reached
+   */
+  private async fill(result: OpenResult, count: number): Promise<void> {
+    const cursor = result.cursor;
+    if (!cursor) return;
+
+    const target = Math.min(count, this.config.maxRows);
+    while (result.rows.length < target) {
+      const wanted = target - result.rows.length;
+      const { rows, columns } = await cursor.read(wanted);
+      if (columns.length > 0) result.columns = columns;
+      result.rows.push(...rows);
+
+      if (rows.length < wanted || (result.totalRows !== undefined && result.rows.length >= result.totalRows)) {
+        result.totalRows = result.rows.length;
+        await this.closeCursor(result);
+        return;
+      }
+    }
+
+    if (result.rows.length >= this.config.maxRows) {
+      result.truncated =
+        result.totalRows !== undefined
+          ? result.totalRows > this.config.maxRows
+          : (await cursor.read(1)).rows.length > 0;
+      if (!result.truncated) result.totalRows = result.rows.length;
+      await this.closeCursor(result);
+    }
+  }
+
+  private async closeCursor(result: OpenResult): Promise<void> {
+    const cursor = result.cursor;
+    if (!cursor) return;
+
+    result.cursor = null;
+    await cursor.close().catch(error => console.error('Failed to close result cursor:', error));
+  }
+
+  private async closeExpired(): Promise<void> {
+    const now = Date.now();
+    for (const [sessionId, result] of this.results) {
+      const idleLimit = result.cursor ? this.config.cursorIdleMs : this.config.ttlMs;
+      if (now - result.lastAccessed > idleLimit) {
+        await this.close(sessionId);
+      }
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { parseDBML } from '../parser/dbmlParser';
+import { RowChange, applyRowChangesToData, orderRowChanges, validateRowChanges } from './rowChanges';
+import { SeedData } from './seedValidator';
+
+const BLOG = parseDBML(`
+  Table users {
+    id int [pk, increment]
+    name varchar
+  }
+
+  Table posts {
+    id int [pk]
+    author_id int [ref: > users.id]
+  }
+
+  Table log {
+    message text
+  }
+`);
+
+describe('validateRowChanges', () => {
+  it('accepts changes that name known tables, columns and keys', () => {
+    expect(
+      validateRowChanges(BLOG, [
+        { op: 'insert', table: 'users', row: { name: 'Ann' } },
+        { op: 'update', table: 'users', key: { id: 1 }, values: { name: 'Bo' } },
+        { op: 'delete', table: 'posts', key: { id: 3 } },
+        { op: 'insert', table: 'log', row: {} },
+      ])
+    ).toEqual([]);
+  });
+
+  it('rejects anything but a non-empty array', () => {
+    expect(validateRowChanges(BLOG, [])).toEqual(['changes must be a non-empty array']);
+    expect(validateRowChanges(BLOG, { op: 'insert' })).toEqual(['changes must be a non-empty array']);
+  });
+
+  it('reports one problem per rejected change, numbered from 1', () => {
+    expect(
+      validateRowChanges(BLOG, [
+        { op: 'upsert', table: 'users' },
+        { op: 'insert', table: 'comments', row: {} },
+        { op: 'insert', table: 'users', row: { nickname: 'A' } },
+        { op: 'update', table: 'users', key: {}, values: { name: 'Bo' } },
+        { op: 'update', table: 'users', key: { id: 1 }, values: [] },
+        { op: 'delete', table: 'log', key: { message: 'x' } },
+      ])
+    ).toEqual([
+      'change 1: op must be insert, update or delete',
+      "change 2: table 'comments' is not defined in the schema",
+      "change 3: column 'nickname' is not defined in table 'users'",
+      'change 4: key must give id',
+      'change 5: values must be an object of column values',
+      "change 6: table 'log' has no primary key, so its rows can only be replaced as a whole",
+    ]);
+  });
+});
+
+describe('orderRowChanges', () => {
+  it('deletes children first, then updates, then inserts parents first', () => {
+    const changes: RowChange[] = [
+      { op: 'insert', table: 'posts', row: { id: 2, author_id: 2 } },
+      { op: 'delete', table: 'users', key: { id: 1 } },
+      { op: 'insert', table: 'users', row: { id: 2 } },
+      { op: 'update', table: 'posts', key: { id: 3 }, values: { author_id: 2 } },
+      { op: 'delete', table: 'posts', key: { id: 1 } },
+    ];
+
+    expect(orderRowChanges(BLOG, changes)).toEqual([changes[4], changes[1], changes[3], changes[2], changes[0]]);
+  });
+});
+
+describe('applyRowChangesToData', () => {
+  it('mirrors changes in the seed data, with values the database generated', () => {
+    const data: SeedData = {
+      users: [
+        { id: 1, name: 'Ann' },
+        { id: 2, name: 'Bo' },
+      ],
+    };
+    const insert: RowChange = { op: 'insert', table: 'users', row: { name: 'Cy' } };
+    const changes: RowChange[] = [
+      { op: 'delete', table: 'users', key: { id: 1 } },
+      { op: 'update', table: 'users', key: { id: '2' }, values: { name: 'Bob' } },
+      insert,
+      { op: 'insert', table: 'posts', row: { id: 1, author_id: 3 } },
+    ];
+
+    applyRowChangesToData(BLOG, data, changes, new Map([[insert, { id: 3 }]]));
+
+    expect(data).toEqual({
+      users: [
+        { id: 2, name: 'Bob' },
+        { id: 3, name: 'Cy' },
+      ],
+      posts: [{ id: 1, author_id: 3 }],
+    });
+  });
+
+  it('ignores changes to rows the data does not have', () => {
+    const data: SeedData = { users: [{ id: 1, name: 'Ann' }] };
+
+    applyRowChangesToData(BLOG, data, [{ op: 'delete', table: 'users', key: { id: 9 } }], new Map());
+
+    expect(data).toEqual({ users: [{ id: 1, name: 'Ann' }] });
+  });
+});
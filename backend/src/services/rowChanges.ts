@@ -0,0 +1,122 @@
+import { ParsedDBML, Table } from '../parser/dbmlParser';
+import { SeedData } from './seedValidator';
+import { planSeed } from './seedPlanner';
+
+/**
+ * One edit to a sandbox's rows; update and delete find their row by primary key
+ */
+export type RowChange =
+  | { op: 'insert'; table: string; row: Record<string, unknown> }
+  | { op: 'update'; table: string; key: Record<string, unknown>; values: Record<string, unknown> }
+  | { op: 'delete'; table: string; key: Record<string, unknown> };
+
+/**
+ * Row changes that cannot be applied; carries one message per rejected change
+ */
+export class RowChangeError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Row changes were not applied:\n${problems.map(p => `- ${p}`).join('\n')}`);
+    this.name = 'RowChangeError';
+  }
+}
+
+/**
+ * Check changes against the schema before any of them touches the database.
+ * Values are left to the database, like CHECK expressions during seeding.
+ */
+export function validateRowChanges(parsed: ParsedDBML, changes: unknown): string[] {
+  if (!Array.isArray(changes) || changes.length === 0) {
+    return ['changes must be a non-empty array'];
+  }
+
+  const problems: string[] = [];
+  changes.forEach((change: Partial<RowChange> | null, index) => {
+    const label = `change ${index + 1}`;
+    if (!change || typeof change !== 'object' || !['insert', 'update', 'delete'].includes(String(change.op))) {
+      problems.push(`${label}: op must be insert, update or delete`);
+      return;
+    }
+
+    const table = parsed.tables.find(t => t.name === change.table);
+    if (!table) {
+      problems.push(`${label}: table '${String(change.table)}' is not defined in the schema`);
+      return;
+    }
+
+    const unknownColumns = (values: unknown, field: string): void => {
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        problems.push(`${label}: ${field} must be an object of column values`);
+        return;
+      }
+      for (const column of Object.keys(values)) {
+        if (!table.columns.some(col => col.name === column)) {
+          problems.push(`${label}: column '${column}' is not defined in table '${table.name}'`);
+        }
+      }
+    };
+
+    if (change.op === 'insert') {
+      unknownColumns(change.row, 'row');
+      return;
+    }
+
+    if (table.primaryKey.length === 0) {
+      problems.push(`${label}: table '${table.name}' has no primary key, so its rows can only be replaced as a whole`);
+      return;
+    }
+    const key = (change as { key?: Record<string, unknown> }).key;
+    if (!key || typeof key !== 'object' || table.primaryKey.some(col => key[col] === undefined || key[col] === null)) {
+      problems.push(`${label}: key must give ${table.primaryKey.join(', ')}`);
+    }
+    if (change.op === 'update') unknownColumns(change.values, 'values');
+  });
+
+  return problems;
+}
+
+/**
+ * Deletes go first, children before parents, then updates, then inserts with
+ * parents before children, so foreign keys hold after every statement
+ */
+export function orderRowChanges(parsed: ParsedDBML, changes: RowChange[]): RowChange[] {
+  const tables = Array.from(new Set(changes.map(change => change.table)));
+  const { order } = planSeed(parsed, Object.fromEntries(tables.map(table => [table, []])));
+  const byTable = (a: RowChange, b: RowChange): number => order.indexOf(a.table) - order.indexOf(b.table);
+
+  return [
+    ...changes.filter(change => change.op === 'delete').sort((a, b) => byTable(b, a)),
+    ...changes.filter(change => change.op === 'update').sort(byTable),
+    ...changes.filter(change => change.op === 'insert').sort(byTable),
+  ];
+}
+
+/**
+ * Mirror applied changes in the session's copy of the seed data, which is what
+ * the sandbox is rebuilt from. `generated` holds values the database filled in
+ * for inserted rows, such as auto-increment ids.
+ */
+export function applyRowChangesToData(
+  parsed: ParsedDBML,
+  data: SeedData,
+  changes: RowChange[],
+  generated: Map<RowChange, Record<string, unknown>>
+): void {
+  for (const change of changes) {
+    const rows = (data[change.table] ??= []);
+
+    if (change.op === 'insert') {
+      rows.push({ ...change.row, ...generated.get(change) });
+      continue;
+    }
+
+    const table = parsed.tables.find(t => t.name === change.table) as Table;
+    const index = rows.findIndex(row => table.primaryKey.every(col => String(row[col]) === String(change.key[col])));
+    if (index === -1) continue;
+
+    if (change.op === 'update') {
+      rows[index] = { ...rows[index], ...change.values };
+    } else {
+      rows.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { QueryConnection } from './engines';
+import { QueryConnections, RunningQueries, resolveQueryTimeout } from './sandboxManager';
+
+describe('resolveQueryTimeout', () => {
+  it('uses the default when the request sets no timeout', () => {
+    expect(resolveQueryTimeout(undefined, 30000, 300000)).toBe(30000);
+  });
+
+  it('uses the request timeout up to the maximum', () => {
+    expect(resolveQueryTimeout(300000, 30000, 300000)).toBe(300000);
+  });
+
+  it.each([0, -1, 300001, Number.NaN, '5000' as unknown as number])('rejects %s', timeout => {
+    expect(() => resolveQueryTimeout(timeout, 30000, 300000)).toThrow(
+      'timeoutMs must be a positive number no greater than 300000'
+    );
+  });
+});
+
+describe('RunningQueries', () => {
+  it('aborts every query running on the session and no other', async () => {
+    const queries = new RunningQueries();
+    const signals: Record<string, AbortSignal> = {};
+    const running = (sessionId: string, name: string): Promise<void> =>
+      queries.run(sessionId, signal => {
+        signals[name] = signal;
+        return new Promise(resolve => signal.addEventListener('abort', () => resolve()));
+      });
+
+    const first = running('s1', 'first');
+    const second = running('s1', 'second');
+    void running('s2', 'other');
+
+    expect(queries.cancel('s1')).toBe(true);
+    await Promise.all([first, second]);
+    expect(signals.first.aborted).toBe(true);
+    expect(signals.second.aborted).toBe(true);
+    expect(signals.other.aborted).toBe(false);
+    queries.cancel('s2');
+  });
+
+  it('has nothing to cancel once a session has no queries running', async () => {
+    const queries = new RunningQueries();
+
+    await queries.run('s1', async () => 'rows');
+
+    expect(queries.cancel('s1')).toBe(false);
+  });
+
+  it('makes cursor reads cancellable', async () => {
+    const queries = new RunningQueries();
+    let readSignal: AbortSignal | undefined;
+    const cursor = queries.track('s1', {
+      read: async (_count, signal) => {
+        readSignal = signal;
+        queries.cancel('s1');
+        return { rows: [], columns: [] };
+      },
+      close: async () => undefined,
+    });
+
+    await cursor.read(10);
+
+    expect(readSignal?.aborted).toBe(true);
+  });
+});
+
+interface TestConnection extends QueryConnection {
+  alive: boolean;
+  closed: boolean;
+}
+
+function connection(): TestConnection {
+  const opened: TestConnection = {
+    alive: true,
+    closed: false,
+    executeQuery: async () => ({ read: async () => ({ rows: [], columns: [] }), close: async () => undefined }),
+    close: async () => {
+      opened.closed = true;
+      opened.alive = false;
+    },
+  };
+  return opened;
+}
+
+describe('QueryConnections', () => {
+  it('opens one connection per session and reuses it', async () => {
+    const connections = new QueryConnections();
+    let opens = 0;
+    const open = async (): Promise<TestConnection> => {
+      opens++;
+      return connection();
+    };
+
+    const [a, b] = await Promise.all([connections.get('s1', open), connections.get('s1', open)]);
+    const other = await connections.get('s2', open);
+
+    expect(a).toBe(b);
+    expect(await connections.get('s1', open)).toBe(a);
+    expect(other).not.toBe(a);
+    expect(opens).toBe(2);
+  });
+
+  it('replaces a connection that was dropped', async () => {
+    const connections = new QueryConnections();
+    const dropped = (await connections.get('s1', async () => connection())) as TestConnection;
+    dropped.alive = false;
+
+    const fresh = await connections.get('s1', async () => connection());
+
+    expect(fresh).not.toBe(dropped);
+    expect(fresh.alive).toBe(true);
+  });
+
+  it('tries again after a connection failed to open', async () => {
+    const connections = new QueryConnections();
+
+    await expect(
+      connections.get('s1', async () => {
+        throw new Error('connection refused');
+      })
+    ).rejects.toThrow('connection refused');
+
+    await expect(connections.get('s1', async () => connection())).resolves.toMatchObject({ alive: true });
+  });
+
+  it('closes released connections, one session or all of them', async () => {
+    const connections = new QueryConnections();
+    const s1 = (await connections.get('s1', async () => connection())) as TestConnection;
+    const s2 = (await connections.get('s2', async () => connection())) as TestConnection;
+    const s3 = (await connections.get('s3', async () => connection())) as TestConnection;
+
+    await connections.release('s1');
+    expect([s1.closed, s2.closed, s3.closed]).toEqual([true, false, false]);
+
+    await connections.releaseAll();
+    expect([s2.closed, s3.closed]).toEqual([true, true]);
+    expect(await connections.get('s2', async () => connection())).not.toBe(s2);
+  });
+});
@@ -0,0 +1,190 @@
+import { createHash } from 'crypto';
+import { SeedData } from './seedValidator';
+import { RowChange } from './rowChanges';
+import { QueryConnection, ResultCursor, SeedChanges, SupportedEngine } from './engines';
+
+export class SessionNotFoundError extends Error {
+  constructor() {
+    super('Sandbox session not found or expired');
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+/**
+ * Resources of a sandbox container; other backends ignore them
+ */
+export interface ContainerLimits {
+  memoryMb: number;
+  cpus: number;
+  pids: number;
+  tmpfsMb: number; // the in-memory data directory, counted against memoryMb
+}
+
+export interface SandboxRequest {
+  sessionId?: string;
+  dbml: string;
+  data?: SeedData; // may be left out to reuse the session's current rows
+  engine?: SupportedEngine; // defaults to the session's engine, postgres for a new session
+  limits?: Partial<ContainerLimits>; // per exam, applied when the session's container is created
+}
+
+export interface SandboxQueryOptions {
+  timeoutMs?: number; // overrides the configured default, up to the configured maximum
+  maxRows: number;
+}
+
+export interface SandboxSession {
+  sessionId: string;
+  engine: SupportedEngine;
+}
+
+/**
+ * Where session databases live: a container per session, or a schema per
+ * session on a shared server. The API only talks to this interface.
+ */
+export interface SandboxManager {
+  /** Reuse, migrate or create the session's database for this DBML and data */
+  getOrCreateSandbox(request: SandboxRequest): Promise<SandboxSession>;
+  /**
+   * Run a script and open a cursor over its result. Reads from the cursor can
+   * be cancelled like the query itself; the caller must close it.
+   */
+  executeQuery(sessionId: string, query: string, options: SandboxQueryOptions): Promise<ResultCursor>;
+  /** Cancel the session's running queries; false when none was running */
+  cancelQuery(sessionId: string): Promise<boolean>;
+  /**
+   * Describe the session's current schema as DBML, including changes made by
+   * queries since seeding
+   */
+  introspectSchema(sessionId: string): Promise<{ dbml: string; warnings: string[] }>;
+  /** Returns the number of changes applied */
+  applyRowChanges(sessionId: string, changes: RowChange[]): Promise<number>;
+  /**
+   * Restore the database to its seed, row changes included, dropping what
+   * queries created. With `report`, first returns what queries changed.
+   */
+  resetSandbox(sessionId: string, report: boolean): Promise<SeedChanges | undefined>;
+  deleteSandbox(sessionId: string): Promise<void>;
+  getActiveSandboxesCount(): Promise<number>;
+  /** Backend specific figures for the health endpoint */
+  getStats(): Record<string, unknown>;
+  cleanupAll(): Promise<void>;
+}
+
+/**
+ * A request's query timeout, or the default when it sets none
+ */
+export function resolveQueryTimeout(requested: number | undefined, defaultMs: number, maxMs: number): number {
+  if (requested === undefined) return defaultMs;
+  if (typeof requested !== 'number' || !(requested > 0) || requested > maxMs) {
+    throw new Error(`timeoutMs must be a positive number no greater than ${maxMs}`);
+  }
+  return requested;
+}
+
+/**
+ * Tells whether a request sends the session's seed data again: a SHA-256 of
+ * its JSON with object keys sorted, so key order does not matter. The DBML
+ * is compared separately so that introspection can update it without a reseed.
+ */
+export function seedDataHash(data: SeedData): string {
+  return createHash('sha256').update(canonicalJson(data)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  // Like JSON.stringify inside arrays, where undefined becomes null
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Abort handles of the queries running per session, for cancel requests
+ */
+export class RunningQueries {
+  private controllers: Map<string, Set<AbortController>> = new Map();
+
+  async run<T>(sessionId: string, execute: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const running = this.controllers.get(sessionId) ?? new Set();
+    running.add(controller);
+    this.controllers.set(sessionId, running);
+
+    try {
+      return await execute(controller.signal);
+    } finally {
+      running.delete(controller);
+      if (running.size === 0) this.controllers.delete(sessionId);
+    }
+  }
+
+  /**
+   * Make reads from a cursor cancellable, for engines that only run the query
+   * once rows are read
+   */
+  track(sessionId: string, cursor: ResultCursor): ResultCursor {
+    return {
+      totalRows: cursor.totalRows,
+      read: count => this.run(sessionId, signal => cursor.read(count, signal)),
+      close: () => cursor.close(),
+    };
+  }
+
+  cancel(sessionId: string): boolean {
+    const running = this.controllers.get(sessionId);
+    if (!running) return false;
+
+    for (const controller of running) {
+      controller.abort();
+    }
+    return true;
+  }
+}
+
+/**
+ * The connection each session's queries share, opened on first use. One
+ * that was dropped, by a timeout or the server, is replaced by a fresh one;
+ * what the old one held is lost with it.
+ */
+export class QueryConnections {
+  private connections: Map<string, Promise<QueryConnection>> = new Map();
+
+  async get(sessionId: string, open: () => Promise<QueryConnection>): Promise<QueryConnection> {
+    const current = this.connections.get(sessionId);
+    if (current) {
+      const connection = await current.catch(() => null);
+      if (connection?.alive) return connection;
+      // Another caller may have replaced it meanwhile
+      if (this.connections.get(sessionId) !== current) return await this.get(sessionId, open);
+    }
+
+    const opening = open();
+    this.connections.set(sessionId, opening);
+    try {
+      return await opening;
+    } catch (error) {
+      if (this.connections.get(sessionId) === opening) this.connections.delete(sessionId);
+      throw error;
+    }
+  }
+
+  /** Close the session's connection, rolling back a transaction left open on it */
+  async release(sessionId: string): Promise<void> {
+    const connection = this.connections.get(sessionId);
+    if (!connection) return;
+
+    this.connections.delete(sessionId);
+    await connection.then(opened => opened.close()).catch(() => undefined);
+  }
+
+  async releaseAll(): Promise<void> {
+    await Promise.all([...this.connections.keys()].map(sessionId => this.release(sessionId)));
+  }
+}
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A JSON file listing a manager's sandboxes, so a restarted API process can
+ * adopt the containers it left running. Each save replaces the file through
+ * a rename, so a crash mid-write leaves the previous copy intact.
+ */
+export class SandboxRegistry<T> {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * The saved entries; none when there is no file yet or it cannot be read
+   */
+  async load(): Promise<T[]> {
+    try {
+      const entries: unknown = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+      return Array.isArray(entries) ? (entries as T[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read sandbox registry ${this.filePath}:`, error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Saves run one after another, so the last call's entries are what stays
+   */
+  async save(entries: T[]): Promise<void> {
+    const contents = JSON.stringify(entries);
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const temporary = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(temporary, contents);
+        await fs.promises.rename(temporary, this.filePath);
+      } catch (error) {
+        console.error(`Failed to write sandbox registry ${this.filePath}:`, error);
+      }
+    });
+    await this.writing;
+  }
+}
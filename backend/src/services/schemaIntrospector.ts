@@ -0,0 +1,337 @@
+import { Client } from 'pg';
+import {
+  ColumnDefault,
+  DBMLEnum,
+  IndexColumn,
+  IndexMethod,
+  ReferentialAction,
+  Relationship,
+  Table,
+  TableColumn,
+  isUniqueKey,
+} from '../parser/dbmlParser';
+
+export interface IntrospectedSchema {
+  tables: Table[];
+  relationships: Relationship[];
+  enums: DBMLEnum[];
+  warnings: string[]; // catalog features DBML cannot express
+}
+
+// pg_constraint.confdeltype / confupdtype codes; 'a' (no action) is the default and omitted
+const REFERENTIAL_ACTIONS: Record<string, ReferentialAction | undefined> = {
+  r: 'restrict',
+  c: 'cascade',
+  n: 'set null',
+  d: 'set default',
+};
+
+// format_type() spells types out in full; DBML schemas use the short names
+const TYPE_ALIASES: Record<string, string> = {
+  'character varying': 'varchar',
+  character: 'char',
+  'timestamp without time zone': 'timestamp',
+  'timestamp with time zone': 'timestamptz',
+  'time without time zone': 'time',
+  'time with time zone': 'timetz',
+  'double precision': 'float8',
+  'bit varying': 'varbit',
+};
+
+const INTEGER_TYPES = new Set(['smallint', 'integer', 'bigint']);
+const NUMERIC_TYPES = /^(smallint|integer|bigint|real|float8|numeric|decimal)/;
+
+const ENUMS_SQL = `
+  SELECT t.typname AS name, array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS labels
+  FROM pg_type t
+  JOIN pg_enum e ON e.enumtypid = t.oid
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  WHERE n.nspname = current_schema()
+  GROUP BY t.oid, t.typname
+  ORDER BY t.oid`;
+
+const TABLES_SQL = `
+  SELECT c.oid, c.relname AS name, obj_description(c.oid, 'pg_class') AS note
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = current_schema() AND c.relkind IN ('r', 'p') AND NOT c.relispartition
+  ORDER BY c.oid`;
+
+const COLUMNS_SQL = `
+  SELECT a.attrelid AS table_oid, a.attname AS name,
+    format_type(a.atttypid, a.atttypmod) AS type,
+    t.typtype = 'e' AS is_enum,
+    a.attnotnull AS not_null,
+    a.attidentity <> '' AS is_identity,
+    pg_get_expr(d.adbin, d.adrelid) AS default_expr,
+    col_description(a.attrelid, a.attnum) AS note
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_type t ON t.oid = a.atttypid
+  LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+  WHERE n.nspname = current_schema() AND c.relkind IN ('r', 'p') AND a.attnum > 0 AND NOT a.attisdropped
+  ORDER BY a.attrelid, a.attnum`;
+
+const CONSTRAINTS_SQL = `
+  SELECT con.conrelid AS table_oid, con.conname AS name, con.contype AS type,
+    ARRAY(
+      SELECT a.attname::text FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord)
+      JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+      ORDER BY k.ord
+    ) AS columns,
+    ref.relname AS ref_table,
+    ARRAY(
+      SELECT a.attname::text FROM unnest(con.confkey) WITH ORDINALITY k(attnum, ord)
+      JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+      ORDER BY k.ord
+    ) AS ref_columns,
+    con.confdeltype AS on_delete, con.confupdtype AS on_update,
+    pg_get_constraintdef(con.oid, true) AS definition
+  FROM pg_constraint con
+  JOIN pg_class c ON c.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_class ref ON ref.oid = con.confrelid
+  WHERE n.nspname = current_schema() AND con.contype IN ('p', 'u', 'f', 'c')
+  ORDER BY con.conrelid, con.oid`;
+
+// Indexes created by PRIMARY KEY / UNIQUE / EXCLUDE constraints are covered above
+const INDEXES_SQL = `
+  SELECT i.indrelid AS table_oid, ic.relname AS name, i.indisunique AS is_unique, am.amname AS method,
+    i.indpred IS NOT NULL AS is_partial,
+    ARRAY(SELECT pg_get_indexdef(i.indexrelid, k + 1, true) FROM generate_series(0, i.indnkeyatts - 1) k ORDER BY k) AS columns,
+    ARRAY(SELECT i.indkey[k] = 0 FROM generate_series(0, i.indnkeyatts - 1) k ORDER BY k) AS is_expression
+  FROM pg_index i
+  JOIN pg_class ic ON ic.oid = i.indexrelid
+  JOIN pg_class c ON c.oid = i.indrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_am am ON am.oid = ic.relam
+  WHERE n.nspname = current_schema() AND c.relkind IN ('r', 'p')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_constraint con
+      WHERE con.conindid = i.indexrelid AND con.conrelid = i.indrelid AND con.contype IN ('p', 'u', 'x')
+    )
+  ORDER BY i.indrelid, ic.oid`;
+
+interface ColumnRow {
+  table_oid: number;
+  name: string;
+  type: string;
+  is_enum: boolean;
+  not_null: boolean;
+  is_identity: boolean;
+  default_expr: string | null;
+  note: string | null;
+}
+
+interface ConstraintRow {
+  table_oid: number;
+  name: string;
+  type: 'p' | 'u' | 'f' | 'c';
+  columns: string[];
+  ref_table: string | null;
+  ref_columns: string[];
+  on_delete: string;
+  on_update: string;
+  definition: string;
+}
+
+interface IndexRow {
+  table_oid: number;
+  name: string;
+  is_unique: boolean;
+  method: string;
+  is_partial: boolean;
+  columns: string[];
+  is_expression: boolean[];
+}
+
+/**
+ * Read the current schema of a live Postgres database back into the DBML
+ * schema model: public in a sandbox container, the session's own on a shared server
+ */
+export async function introspectPostgresSchema(client: Client): Promise<IntrospectedSchema> {
+  const warnings: string[] = [];
+
+  const enumRows = (await client.query<{ name: string; labels: string[] }>(ENUMS_SQL)).rows;
+  const tableRows = (await client.query<{ oid: number; name: string; note: string | null }>(TABLES_SQL)).rows;
+  const columnRows = (await client.query<ColumnRow>(COLUMNS_SQL)).rows;
+  const constraintRows = (await client.query<ConstraintRow>(CONSTRAINTS_SQL)).rows;
+  const indexRows = (await client.query<IndexRow>(INDEXES_SQL)).rows;
+
+  const enums: DBMLEnum[] = enumRows.map(row => ({ name: row.name, values: row.labels }));
+  const tablesByOid = new Map<number, Table>();
+
+  for (const row of tableRows) {
+    tablesByOid.set(row.oid, {
+      name: row.name,
+      columns: [],
+      primaryKey: [],
+      indexes: [],
+      checks: [],
+      note: row.note ?? undefined,
+    });
+  }
+
+  for (const row of columnRows) {
+    const table = tablesByOid.get(row.table_oid);
+    if (table) table.columns.push(toColumn(row));
+  }
+
+  const relationships: Relationship[] = [];
+  const foreignKeys: ConstraintRow[] = [];
+
+  for (const row of constraintRows) {
+    const table = tablesByOid.get(row.table_oid);
+    if (!table) continue;
+
+    switch (row.type) {
+      case 'p':
+        table.primaryKey = row.columns;
+        for (const col of table.columns) {
+          if (row.columns.includes(col.name)) col.isPrimaryKey = true;
+        }
+        break;
+      case 'u':
+        if (row.columns.length === 1) {
+          const col = table.columns.find(c => c.name === row.columns[0]);
+          if (col) col.isUnique = true;
+        } else {
+          table.indexes.push({
+            name: row.name === `${table.name}_${row.columns.join('_')}_key` ? undefined : row.name,
+            columns: row.columns.map(value => ({ kind: 'column', value })),
+            unique: true,
+          });
+        }
+        break;
+      case 'c':
+        table.checks.push({
+          name: row.name,
+          expression: unwrapCheck(row.definition),
+          column: row.columns.length === 1 ? row.columns[0] : undefined,
+        });
+        break;
+      case 'f':
+        foreignKeys.push(row); // resolved once every table's keys are known
+        break;
+    }
+  }
+
+  for (const row of indexRows) {
+    const table = tablesByOid.get(row.table_oid);
+    if (!table) continue;
+
+    if (row.is_partial) {
+      warnings.push(`Partial index '${row.name}' on '${table.name}' cannot be expressed in DBML and was skipped`);
+      continue;
+    }
+
+    let type: IndexMethod | undefined;
+    if (row.method === 'hash') {
+      type = 'hash';
+    } else if (row.method !== 'btree') {
+      warnings.push(`Index '${row.name}' on '${table.name}' uses ${row.method}; DBML records it as a btree index`);
+    }
+
+    const parts = row.columns.map(value => value.replace(/^"(.*)"$/, '$1'));
+    const columns: IndexColumn[] = row.columns.map((value, i) =>
+      row.is_expression[i] ? { kind: 'expression', value } : { kind: 'column', value: parts[i] }
+    );
+    const defaultName = `${table.name}_${columns.map((col, i) => (col.kind === 'column' ? parts[i] : 'expr')).join('_')}_idx`;
+    table.indexes.push({ name: row.name === defaultName ? undefined : row.name, columns, unique: row.is_unique, type });
+  }
+
+  for (const row of foreignKeys) {
+    const table = tablesByOid.get(row.table_oid) as Table;
+    const refTable = row.ref_table as string;
+    const isDefaultName = row.name === `${table.name}_${row.columns.join('_')}_fkey` || row.name === `fk_${table.name}_${row.columns.join('_')}`;
+
+    relationships.push({
+      name: isDefaultName ? undefined : row.name,
+      from: `${table.name}.${row.columns.join(',')}`,
+      to: `${refTable}.${row.ref_columns.join(',')}`,
+      type: isUniqueKey(table, row.columns) ? 'one-to-one' : 'many-to-one',
+      fromTable: table.name,
+      fromColumns: row.columns,
+      toTable: refTable,
+      toColumns: row.ref_columns,
+      onDelete: REFERENTIAL_ACTIONS[row.on_delete],
+      onUpdate: REFERENTIAL_ACTIONS[row.on_update],
+    });
+  }
+
+  return { tables: Array.from(tablesByOid.values()), relationships, enums, warnings };
+}
+
+function toColumn(row: ColumnRow): TableColumn {
+  const type = row.is_enum ? row.type.replace(/^"(.*)"$/, '$1') : toDBMLType(row.type);
+  // serial columns show up as integer columns defaulting to nextval() of their sequence
+  const isSerial = row.default_expr !== null && /^nextval\(/.test(row.default_expr);
+
+  return {
+    name: row.name,
+    type,
+    isPrimaryKey: false,
+    isNotNull: row.not_null,
+    isUnique: false,
+    isAutoIncrement: row.is_identity || (isSerial && INTEGER_TYPES.has(type)),
+    defaultValue: row.default_expr && !isSerial ? toColumnDefault(row.default_expr, type) : undefined,
+    enumType: row.is_enum ? type : undefined,
+    note: row.note ?? undefined,
+  };
+}
+
+/**
+ * Shorten format_type() output, e.g. "character varying(50)" -> "varchar(50)",
+ * "timestamp(3) with time zone" -> "timestamptz(3)"
+ */
+function toDBMLType(pgType: string): string {
+  const arrays = pgType.match(/(\[\])+$/)?.[0] ?? '';
+  const withoutArrays = pgType.slice(0, pgType.length - arrays.length);
+  const args = withoutArrays.match(/\([^)]*\)/)?.[0] ?? '';
+  const base = withoutArrays.replace(args, '').replace(/\s+/g, ' ').trim();
+  return `${TYPE_ALIASES[base] ?? base}${args.replace(/\s/g, '')}${arrays}`;
+}
+
+/**
+ * Turn a stored default expression back into a DBML default value
+ */
+function toColumnDefault(expression: string, type: string): ColumnDefault {
+  const literal = expression.match(/^'((?:[^']|'')*)'(?:::[\w\s."[\]]+)?$/);
+  if (literal) {
+    const value = literal[1].replace(/''/g, "'");
+    // Negative numbers are stored as casts of string literals, e.g. '-1'::integer
+    if (NUMERIC_TYPES.test(type) && /^-?\d+(\.\d+)?$/.test(value)) return { kind: 'number', value };
+    return { kind: 'string', value };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(expression)) return { kind: 'number', value: expression };
+  if (expression === 'true' || expression === 'false') return { kind: 'boolean', value: expression };
+  if (/^NULL(::.+)?$/.test(expression)) return { kind: 'null', value: 'null' };
+  return { kind: 'expression', value: expression };
+}
+
+/**
+ * pg_get_constraintdef() renders checks as "CHECK ((expr))"; keep just the expression
+ */
+function unwrapCheck(definition: string): string {
+  let expression = definition.replace(/^CHECK\s*/, '').replace(/\s+NOT VALID$/, '');
+  while (expression.startsWith('(') && expression.endsWith(')') && isWrapped(expression)) {
+    expression = expression.slice(1, -1).trim();
+  }
+  return expression;
+}
+
+export function isWrapped(expression: string): boolean {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === "'") inString = !inString;
+    if (inString) continue;
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    // The opening parenthesis closes before the end, e.g. "(a > 0) AND (b > 0)"
+    if (depth === 0 && i < expression.length - 1) return false;
+  }
+  return depth === 0;
+}
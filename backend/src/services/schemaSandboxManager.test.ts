@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SchemaSandboxManager } from './schemaSandboxManager';
+
+const server = vi.hoisted(() => ({
+  statements: [] as string[],
+  // Statements matching it fail, as the server would reject them
+  failing: null as RegExp | null,
+}));
+
+// The admin account's pool, recording what it runs on the shared server
+vi.mock('pg', () => ({
+  Client: class {},
+  Pool: class {
+    on(): void {}
+
+    async end(): Promise<void> {}
+
+    async query(sql: string): Promise<{ rows: unknown[]; rowCount: number }> {
+      if (server.failing?.test(sql)) throw new Error(`rejected: ${sql}`);
+      server.statements.push(sql.replace(/PASSWORD '\w+'/, "PASSWORD '...'"));
+      if (sql.startsWith('SELECT current_database()')) return { rows: [{ database: 'exams' }], rowCount: 1 };
+      return { rows: [], rowCount: 1 };
+    }
+  },
+}));
+
+// Seeding connects as the session's role, which only the real server has
+vi.mock('./engines/postgresEngine', () => ({
+  PostgresEngine: class {
+    async seed(): Promise<void> {}
+
+    buildSnapshot(): unknown {
+      return { statements: [] };
+    }
+
+    async restoreSnapshot(): Promise<void> {}
+  },
+}));
+
+const REQUEST = { dbml: 'Table users {\n  id int [pk]\n}', data: {} };
+
+async function createSession(manager: SchemaSandboxManager): Promise<string> {
+  const { sessionId } = await manager.getOrCreateSandbox(REQUEST);
+  server.statements = [];
+  return sessionId;
+}
+
+describe('SchemaSandboxManager session roles', () => {
+  beforeEach(() => {
+    server.statements = [];
+    server.failing = null;
+  });
+
+  it('creates a login role with a schema only it can use', async () => {
+    const manager = new SchemaSandboxManager({ connectionString: 'postgres://admin@db:5432/exams' });
+
+    const { sessionId } = await manager.getOrCreateSandbox(REQUEST);
+
+    expect(server.statements).toEqual([
+      'SELECT current_database() AS database',
+      'REVOKE ALL ON DATABASE "exams" FROM PUBLIC',
+      'REVOKE ALL ON SCHEMA public FROM PUBLIC',
+      `CREATE ROLE "${sessionId}" LOGIN NOSUPERUSER NOCREATEDB NOCREATEROLE NOINHERIT CONNECTION LIMIT 5 PASSWORD '...'`,
+      `GRANT CONNECT, TEMPORARY ON DATABASE "exams" TO "${sessionId}"`,
+      `CREATE SCHEMA "${sessionId}"`,
+      `REVOKE ALL ON SCHEMA "${sessionId}" FROM PUBLIC`,
+      `GRANT USAGE, CREATE ON SCHEMA "${sessionId}" TO "${sessionId}"`,
+      `ALTER ROLE "${sessionId}" SET search_path = "${sessionId}"`,
+    ]);
+  });
+
+  it('drops what the role owns anywhere before dropping the role', async () => {
+    const manager = new SchemaSandboxManager({ connectionString: 'postgres://admin@db:5432/exams' });
+    const sessionId = await createSession(manager);
+
+    await manager.deleteSandbox(sessionId);
+
+    expect(server.statements).toEqual([
+      'SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE usename = $1',
+      `DROP SCHEMA IF EXISTS "${sessionId}" CASCADE`,
+      'SELECT 1 FROM pg_roles WHERE rolname = $1',
+      `REVOKE ALL ON DATABASE "exams" FROM "${sessionId}"`,
+      `DROP OWNED BY "${sessionId}"`,
+      `DROP ROLE "${sessionId}"`,
+    ]);
+    expect(await manager.getActiveSandboxesCount()).toBe(0);
+  });
+
+  it('keeps a session whose role could not be dropped, so it can be removed later', async () => {
+    const manager = new SchemaSandboxManager({ connectionString: 'postgres://admin@db:5432/exams' });
+    const sessionId = await createSession(manager);
+
+    server.failing = /^DROP ROLE/;
+    await expect(manager.deleteSandbox(sessionId)).rejects.toThrow('rejected: DROP ROLE');
+    expect(await manager.getActiveSandboxesCount()).toBe(1);
+
+    server.failing = null;
+    await manager.deleteSandbox(sessionId);
+    expect(await manager.getActiveSandboxesCount()).toBe(0);
+  });
+});
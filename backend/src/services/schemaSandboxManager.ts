@@ -0,0 +1,446 @@
+import { Pool } from 'pg';
+import * as crypto from 'crypto';
+import { ParsedDBML, Relationship, parseDBML } from '../parser/dbmlParser';
+import { generateDBML } from '../parser/dbmlGenerator';
+import { getDialect } from '../dialects';
+import { SeedData, SeedDataError } from './seedValidator';
+import { planSeed } from './seedPlanner';
+import { RowChange, RowChangeError, applyRowChangesToData, orderRowChanges, validateRowChanges } from './rowChanges';
+import { TemplateCache, TemplateCacheStats } from './templateCache';
+import { SessionLocks } from './sessionStore';
+import {
+  QueryConnections,
+  RunningQueries,
+  SandboxManager,
+  SandboxQueryOptions,
+  SandboxRequest,
+  SandboxSession,
+  SessionNotFoundError,
+  resolveQueryTimeout,
+  seedDataHash,
+} from './sandboxManager';
+import { PostgresEngine } from './engines/postgresEngine';
+import { PreparedSeed, ResultCursor, SandboxAddress, SeedChanges } from './engines';
+
+const dialect = getDialect('postgres');
+
+export interface SchemaSandboxConfig {
+  connectionString: string; // an account that may create roles, on a database it owns
+  ttlMs: number;
+  cleanupIntervalMs: number;
+  connectionLimit: number; // per session role
+  templateCacheSize: number; // seeded database snapshots kept for new sessions; 0 disables cloning
+  templateTtlMs: number;
+  queryTimeoutMs: number; // for requests that set none
+  maxQueryTimeoutMs: number;
+}
+
+interface SchemaSandbox {
+  sessionId: string; // also the name of the session's schema and login role
+  dbml: string;
+  schema: ParsedDBML; // what the schema was last built or migrated to
+  deferredRelationships: Relationship[];
+  data: SeedData; // seed rows with row changes applied, used whenever the schema is rebuilt
+  dataHash: string | null; // null after row changes until full data is compared again
+  engine: 'postgres';
+  database: PostgresEngine; // connects as the session's role
+  createdAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * Sessions as schemas on one shared Postgres server instead of containers.
+ * Each session gets its own schema and a login role that can only reach that
+ * schema; both are dropped when the session ends. Only Postgres sessions can
+ * run here.
+ */
+export class SchemaSandboxManager implements SandboxManager {
+  private admin: Pool;
+  private address: SandboxAddress;
+  private sandboxes: Map<string, SchemaSandbox> = new Map();
+  private templates: TemplateCache;
+  private runningQueries = new RunningQueries();
+  private queryConnections = new QueryConnections();
+  private locks = new SessionLocks();
+  private serverReady: Promise<string> | null = null;
+  private cleanupTimer: NodeJS.Timeout;
+  private config: SchemaSandboxConfig;
+
+  constructor(config: Pick<SchemaSandboxConfig, 'connectionString'> & Partial<SchemaSandboxConfig>) {
+    this.config = {
+      ttlMs: 60 * 60 * 1000, // 1 hour default
+      cleanupIntervalMs: 5 * 60 * 1000, // 5 minutes
+      connectionLimit: 5,
+      templateCacheSize: 20,
+      templateTtlMs: 60 * 60 * 1000, // 1 hour
+      queryTimeoutMs: 30 * 1000, // 30s
+      maxQueryTimeoutMs: 5 * 60 * 1000, // 5 minutes
+      ...config,
+    };
+
+    const url = new URL(this.config.connectionString);
+    this.address = { host: url.hostname, port: url.port ? Number(url.port) : 5432 };
+    this.admin = new Pool({ connectionString: this.config.connectionString, max: 2 });
+    // An idle connection dropped by the server must not take the process down
+    this.admin.on('error', error => console.error('Shared Postgres connection error:', error));
+    this.templates = new TemplateCache(this.config.templateCacheSize, this.config.templateTtlMs);
+
+    this.cleanupTimer = setInterval(() => {
+      void this.cleanupExpiredSandboxes();
+      this.templates.evictExpired();
+    }, this.config.cleanupIntervalMs).unref();
+  }
+
+  async getOrCreateSandbox(request: SandboxRequest): Promise<SandboxSession> {
+    if ((request.engine ?? 'postgres') !== 'postgres') {
+      throw new Error(`Engine ${request.engine} is not available on the shared Postgres sandbox backend`);
+    }
+
+    const known = request.sessionId ? this.sandboxes.get(request.sessionId) : undefined;
+
+    if (known) {
+      // Concurrent requests must not migrate or rebuild the same session at once
+      return await this.locks.withLock(known.sessionId, async () => {
+        const existing = this.sandboxes.get(known.sessionId);
+        if (!existing) throw new SessionNotFoundError();
+
+        // Without data the session keeps its rows, including row changes applied since seeding
+        let dataHash = existing.dataHash;
+        let dataChanged = false;
+        if (request.data !== undefined) {
+          existing.dataHash ??= seedDataHash(existing.data);
+          dataHash = seedDataHash(request.data);
+          dataChanged = dataHash !== existing.dataHash;
+        }
+
+        if (existing.dbml !== request.dbml || dataChanged) {
+          const seed = this.prepareSeed(request.dbml, request.data ?? existing.data);
+          if (await this.migrateSandbox(existing, request.dbml, seed, dataHash)) {
+            return existing;
+          }
+          await this.removeSandbox(existing.sessionId);
+          return await this.createSandbox(existing.sessionId, request.dbml, seed, dataHash);
+        }
+
+        existing.lastAccessed = Date.now();
+        return existing;
+      });
+    }
+
+    if (request.data === undefined) {
+      throw new SessionNotFoundError();
+    }
+    // Unknown ids are not reused, as they name a role and schema on the server
+    const seed = this.prepareSeed(request.dbml, request.data);
+    return await this.createSandbox(this.generateSessionId(), request.dbml, seed, seedDataHash(request.data));
+  }
+
+  async executeQuery(sessionId: string, query: string, options: SandboxQueryOptions): Promise<ResultCursor> {
+    const sandbox = this.getSandbox(sessionId);
+    const timeout = resolveQueryTimeout(options.timeoutMs, this.config.queryTimeoutMs, this.config.maxQueryTimeoutMs);
+    const connection = await this.queryConnections.get(sessionId, () => sandbox.database.openQueryConnection(this.address));
+    const cursor = await this.runningQueries.run(sessionId, signal =>
+      connection.executeQuery(query, { timeoutMs: timeout, signal, maxRows: options.maxRows })
+    );
+    return this.runningQueries.track(sessionId, cursor);
+  }
+
+  async cancelQuery(sessionId: string): Promise<boolean> {
+    if (!this.sandboxes.has(sessionId)) {
+      throw new SessionNotFoundError();
+    }
+    return this.runningQueries.cancel(sessionId);
+  }
+
+  async introspectSchema(sessionId: string): Promise<{ dbml: string; warnings: string[] }> {
+    return await this.locks.withLock(sessionId, async () => {
+      const sandbox = this.getSandbox(sessionId);
+
+      const schema = await sandbox.database.introspect(this.address);
+      const dbml = generateDBML(schema);
+      sandbox.dbml = dbml;
+      // Deferrability is not introspected; the next migration re-adds foreign keys a seed needs deferred
+      sandbox.schema = { tables: schema.tables, relationships: schema.relationships, enums: schema.enums, diagnostics: [] };
+      sandbox.deferredRelationships = [];
+      return { dbml, warnings: schema.warnings };
+    });
+  }
+
+  async applyRowChanges(sessionId: string, changes: RowChange[]): Promise<number> {
+    return await this.locks.withLock(sessionId, async () => {
+      const sandbox = this.getSandbox(sessionId);
+
+      const problems = validateRowChanges(sandbox.schema, changes);
+      if (problems.length > 0) {
+        throw new RowChangeError(problems);
+      }
+
+      const ordered = orderRowChanges(sandbox.schema, changes);
+      // A transaction left open by a query could hold locks on the rows
+      await this.queryConnections.release(sessionId);
+      const generated = await sandbox.database.applyRowChanges(this.address, sandbox.schema, ordered, changes);
+
+      applyRowChangesToData(sandbox.schema, sandbox.data, ordered, generated);
+      sandbox.dataHash = null;
+      return changes.length;
+    });
+  }
+
+  /**
+   * Empty the session's schema and reload its seed; the role and schema stay
+   */
+  async resetSandbox(sessionId: string, report: boolean): Promise<SeedChanges | undefined> {
+    return await this.locks.withLock(sessionId, async () => {
+      const sandbox = this.getSandbox(sessionId);
+
+      const seed = this.prepareSeed(sandbox.dbml, sandbox.data);
+      const templateKey = TemplateCache.key('postgres', sandbox.dbml, sandbox.data);
+      const snapshot = this.templates.get(templateKey) ?? sandbox.database.buildSnapshot(seed);
+
+      // The drops would wait on locks a query's open transaction holds
+      await this.queryConnections.release(sessionId);
+      const changes = report
+        ? await sandbox.database.compareWithSnapshot(this.address, snapshot, seed.parsed.tables.map(t => t.name))
+        : undefined;
+      await sandbox.database.resetToSnapshot(this.address, snapshot);
+      this.templates.set(templateKey, snapshot);
+      return changes;
+    });
+  }
+
+  async deleteSandbox(sessionId: string): Promise<void> {
+    await this.locks.withLock(sessionId, () => this.removeSandbox(sessionId));
+  }
+
+  async getActiveSandboxesCount(): Promise<number> {
+    return this.sandboxes.size;
+  }
+
+  getStats(): { templates: TemplateCacheStats } {
+    return { templates: this.templates.getStats() };
+  }
+
+  async cleanupAll(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+    this.templates.clear();
+
+    await Promise.allSettled(Array.from(this.sandboxes.keys()).map(sessionId => this.deleteSandbox(sessionId)));
+    await this.admin.end();
+  }
+
+  /**
+   * Drop the session's schema and role; the caller holds the session's lock.
+   * A session whose role could not be dropped is kept, so expiry cleanup
+   * tries again instead of leaving the login role on the server.
+   */
+  private async removeSandbox(sessionId: string): Promise<void> {
+    if (!this.sandboxes.has(sessionId)) return;
+
+    await this.queryConnections.release(sessionId);
+    await this.dropSessionObjects(sessionId);
+    this.sandboxes.delete(sessionId);
+  }
+
+  private getSandbox(sessionId: string): SchemaSandbox {
+    const sandbox = this.sandboxes.get(sessionId);
+    if (!sandbox) {
+      throw new SessionNotFoundError();
+    }
+
+    sandbox.lastAccessed = Date.now();
+    return sandbox;
+  }
+
+  /**
+   * Parse, validate and order the seed before the server is touched
+   */
+  private prepareSeed(dbml: string, data: SeedData): PreparedSeed {
+    const parsed = parseDBML(dbml);
+    const plan = planSeed(parsed, data);
+    if (plan.problems.length > 0) {
+      throw new SeedDataError(plan.problems);
+    }
+    return { parsed, plan, data };
+  }
+
+  /**
+   * Bring a session's schema up to date in place. Returns false when the
+   * migration is rejected; it is rolled back and the caller recreates the
+   * schema instead.
+   */
+  private async migrateSandbox(
+    sandbox: SchemaSandbox,
+    dbml: string,
+    seed: PreparedSeed,
+    dataHash: string | null
+  ): Promise<boolean> {
+    const statements = sandbox.database.planMigration(
+      { parsed: sandbox.schema, deferredRelationships: sandbox.deferredRelationships },
+      seed
+    );
+    if (!statements) return false;
+
+    // Formatting or comment-only DBML edits keep the data, including changes made by queries
+    if (statements.length > 0 || sandbox.dataHash !== dataHash) {
+      try {
+        // The reseed would wait on locks held by a transaction left open by a query
+        await this.queryConnections.release(sandbox.sessionId);
+        await sandbox.database.reseed(this.address, sandbox.schema, statements, seed);
+      } catch (error) {
+        // Rows the new schema rejects would be rejected by a fresh schema too
+        if (error instanceof SeedDataError) throw error;
+        console.error(`Failed to migrate sandbox ${sandbox.sessionId}, recreating it:`, error);
+        return false;
+      }
+    }
+
+    sandbox.dbml = dbml;
+    sandbox.schema = seed.parsed;
+    sandbox.deferredRelationships = seed.plan.deferred;
+    sandbox.data = seed.data;
+    sandbox.dataHash = dataHash;
+    sandbox.lastAccessed = Date.now();
+    return true;
+  }
+
+  private async createSandbox(
+    sessionId: string,
+    dbml: string,
+    seed: PreparedSeed,
+    dataHash: string | null
+  ): Promise<SchemaSandbox> {
+    const database = await this.createSessionObjects(sessionId);
+
+    // Snapshots restore into whichever schema is first on the role's search path
+    const templateKey = TemplateCache.key('postgres', dbml, seed.data);
+    const snapshot = this.templates.get(templateKey);
+
+    try {
+      if (snapshot) {
+        await database.restoreSnapshot(this.address, snapshot);
+      } else {
+        await database.seed(this.address, seed);
+        this.templates.set(templateKey, database.buildSnapshot(seed));
+      }
+    } catch (error) {
+      // A snapshot that failed to restore is not offered again
+      if (snapshot) this.templates.delete(templateKey);
+      await this.dropSessionObjects(sessionId).catch(dropError =>
+        console.error(`Failed to drop schema and role of session ${sessionId}:`, dropError)
+      );
+      throw error;
+    }
+
+    const sandbox: SchemaSandbox = {
+      sessionId,
+      dbml,
+      schema: seed.parsed,
+      deferredRelationships: seed.plan.deferred,
+      data: seed.data,
+      dataHash,
+      engine: 'postgres',
+      database,
+      createdAt: Date.now(),
+      lastAccessed: Date.now(),
+    };
+
+    this.sandboxes.set(sessionId, sandbox);
+    return sandbox;
+  }
+
+  /**
+   * Close the shared database to everyone not granted access explicitly, once
+   * per server. Returns the database name.
+   */
+  private async prepareServer(): Promise<string> {
+    this.serverReady ??= (async () => {
+      const { rows } = await this.admin.query<{ database: string }>('SELECT current_database() AS database');
+      const database = rows[0].database;
+      await this.admin.query(`REVOKE ALL ON DATABASE ${dialect.quoteIdentifier(database)} FROM PUBLIC`);
+      await this.admin.query('REVOKE ALL ON SCHEMA public FROM PUBLIC');
+      return database;
+    })().catch(error => {
+      // Retried by the next session
+      this.serverReady = null;
+      throw error;
+    });
+    return await this.serverReady;
+  }
+
+  /**
+   * Create the session's login role and a schema only it can use, which is
+   * the role's search path
+   */
+  private async createSessionObjects(name: string): Promise<PostgresEngine> {
+    const database = await this.prepareServer();
+    const role = dialect.quoteIdentifier(name);
+    const password = crypto.randomBytes(24).toString('hex');
+
+    const statements = [
+      `CREATE ROLE ${role} LOGIN NOSUPERUSER NOCREATEDB NOCREATEROLE NOINHERIT CONNECTION LIMIT ${this.config.connectionLimit} PASSWORD ${dialect.quoteLiteral(password)}`,
+      `GRANT CONNECT, TEMPORARY ON DATABASE ${dialect.quoteIdentifier(database)} TO ${role}`,
+      // Owned by the admin account, so dropping it also drops everything the role created inside
+      `CREATE SCHEMA ${role}`,
+      `REVOKE ALL ON SCHEMA ${role} FROM PUBLIC`,
+      `GRANT USAGE, CREATE ON SCHEMA ${role} TO ${role}`,
+      `ALTER ROLE ${role} SET search_path = ${role}`,
+    ];
+
+    try {
+      for (const statement of statements) {
+        await this.admin.query(statement);
+      }
+    } catch (error) {
+      await this.dropSessionObjects(name).catch(dropError =>
+        console.error(`Failed to drop schema and role of session ${name}:`, dropError)
+      );
+      throw error;
+    }
+
+    return new PostgresEngine({ username: name, password, database });
+  }
+
+  private async dropSessionObjects(name: string): Promise<void> {
+    const database = await this.prepareServer();
+    const role = dialect.quoteIdentifier(name);
+
+    // A query still running as the role would keep it from being dropped
+    await this.admin.query('SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE usename = $1', [name]);
+    await this.admin.query(`DROP SCHEMA IF EXISTS ${role} CASCADE`);
+
+    const { rowCount } = await this.admin.query('SELECT 1 FROM pg_roles WHERE rolname = $1', [name]);
+    if (!rowCount) return;
+    await this.admin.query(`REVOKE ALL ON DATABASE ${dialect.quoteIdentifier(database)} FROM ${role}`);
+    // Whatever the role still owns or was granted outside its schema, such as
+    // large objects or default privileges, would keep it from being dropped
+    await this.admin.query(`DROP OWNED BY ${role}`);
+    await this.admin.query(`DROP ROLE ${role}`);
+  }
+
+  private async cleanupExpiredSandboxes(): Promise<void> {
+    const now = Date.now();
+    const expired: string[] = [];
+
+    for (const [sessionId, sandbox] of this.sandboxes.entries()) {
+      if (now - sandbox.lastAccessed > this.config.ttlMs) {
+        expired.push(sessionId);
+      }
+    }
+
+    for (const sessionId of expired) {
+      try {
+        // A request may have used the session meanwhile
+        await this.locks.withLock(sessionId, async () => {
+          const sandbox = this.sandboxes.get(sessionId);
+          if (sandbox && Date.now() - sandbox.lastAccessed > this.config.ttlMs) await this.removeSandbox(sessionId);
+        });
+      } catch (error) {
+        console.error(`Failed to drop schema and role of expired session ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private generateSessionId(): string {
+    return `sandbox_${Date.now()}_${crypto.randomBytes(5).toString('hex')}`;
+  }
+}
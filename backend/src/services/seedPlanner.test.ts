@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { parseDBML } from '../parser/dbmlParser';
+import { generateSQLSchema } from '../parser/schemaGenerator';
+import { getDialect } from '../dialects';
+import { planSeed } from './seedPlanner';
+import { SeedData } from './seedValidator';
+
+const SHOP = parseDBML(`
+  Enum order_status {
+    open
+    paid
+  }
+
+  Table customers {
+    id int [pk]
+    email varchar(10) [not null, unique]
+  }
+
+  Table orders {
+    id int [pk]
+    customer_id int [ref: > customers.id]
+    status order_status [not null]
+    placed_at timestamp
+  }
+`);
+
+describe('planSeed', () => {
+  it('inserts referenced tables first', () => {
+    const plan = planSeed(SHOP, {
+      orders: [{ id: 1, customer_id: 1, status: 'open' }],
+      customers: [{ id: 1, email: 'a@x.io' }],
+    });
+
+    expect(plan).toEqual({ order: ['customers', 'orders'], deferred: [], problems: [] });
+  });
+
+  it('only orders tables that have rows', () => {
+    expect(planSeed(SHOP, { orders: [] }).order).toEqual(['orders']);
+  });
+
+  it('defers a self reference to a later row', () => {
+    const parsed = parseDBML(`
+      Table employees {
+        id int [pk]
+        manager_id int [ref: > employees.id]
+      }
+    `);
+
+    const forward = planSeed(parsed, { employees: [{ id: 1, manager_id: 2 }, { id: 2 }] });
+    const backward = planSeed(parsed, { employees: [{ id: 1 }, { id: 2, manager_id: 1 }] });
+
+    expect(forward.deferred).toEqual(parsed.relationships);
+    expect(backward.deferred).toEqual([]);
+  });
+
+  it('breaks a cycle between tables by deferring the foreign keys of its first table', () => {
+    const parsed = parseDBML(`
+      Table teams {
+        id int [pk]
+        captain_id int [ref: > players.id]
+      }
+
+      Table players {
+        id int [pk]
+        team_id int [ref: > teams.id]
+      }
+    `);
+
+    const plan = planSeed(parsed, {
+      teams: [{ id: 1, captain_id: 1 }],
+      players: [{ id: 1, team_id: 1 }],
+    });
+
+    expect(plan.order).toEqual(['teams', 'players']);
+    expect(plan.deferred).toEqual([expect.objectContaining({ fromTable: 'teams', toTable: 'players' })]);
+    expect(plan.problems).toEqual([]);
+  });
+
+  it('reports validation problems alongside the plan', () => {
+    const plan = planSeed(SHOP, { customers: [{ id: 1 }] });
+
+    expect(plan.order).toEqual(['customers']);
+    expect(plan.problems).toEqual([
+      {
+        table: 'customers',
+        rowIndex: 0,
+        column: 'email',
+        reason: 'value is required (NOT NULL) and the column has no default',
+      },
+    ]);
+  });
+
+  it('plans around rows that are not objects and reports them', () => {
+    const parsed = parseDBML(`
+      Table employees {
+        id int [pk]
+        manager_id int [ref: > employees.id]
+      }
+    `);
+
+    const plan = planSeed(parsed, { employees: [null, { id: 1 }] } as unknown as SeedData);
+
+    expect(plan).toEqual({
+      order: ['employees'],
+      deferred: [],
+      problems: [{ table: 'employees', rowIndex: 0, reason: 'row must be an object' }],
+    });
+  });
+
+  it('defers only the foreign key that closes a longer cycle, making it deferrable in the DDL', () => {
+    const parsed = parseDBML(`
+      Table a {
+        id int [pk]
+        c_id int [ref: > c.id]
+      }
+
+      Table b {
+        id int [pk]
+        a_id int [ref: > a.id]
+      }
+
+      Table c {
+        id int [pk]
+        b_id int [ref: > b.id]
+      }
+    `);
+
+    const plan = planSeed(parsed, {
+      c: [{ id: 1, b_id: 1 }],
+      b: [{ id: 1, a_id: 1 }],
+      a: [{ id: 1, c_id: 1 }],
+    });
+
+    expect(plan.order).toEqual(['c', 'a', 'b']);
+    expect(plan.deferred).toEqual([expect.objectContaining({ fromTable: 'c', toTable: 'b' })]);
+    expect(
+      generateSQLSchema(parsed, getDialect('postgres'), { deferredRelationships: plan.deferred }).filter(statement =>
+        statement.startsWith('ALTER TABLE')
+      )
+    ).toEqual([
+      'ALTER TABLE "a" ADD CONSTRAINT "fk_a_c_id" FOREIGN KEY ("c_id") REFERENCES "c" ("id");',
+      'ALTER TABLE "b" ADD CONSTRAINT "fk_b_a_id" FOREIGN KEY ("a_id") REFERENCES "a" ("id");',
+      'ALTER TABLE "c" ADD CONSTRAINT "fk_c_b_id" FOREIGN KEY ("b_id") REFERENCES "b" ("id") DEFERRABLE INITIALLY DEFERRED;',
+    ]);
+  });
+});
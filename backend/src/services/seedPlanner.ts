@@ -0,0 +1,67 @@
+import { ParsedDBML, Relationship } from '../parser/dbmlParser';
+import { toForeignKey } from '../parser/schemaGenerator';
+import { SeedData, SeedProblem, isSeedRow, validateSeedData } from './seedValidator';
+
+export interface SeedPlan {
+  order: string[]; // tables with rows, parents before children
+  deferred: Relationship[]; // foreign keys checked at commit because rows reference each other in a cycle
+  problems: SeedProblem[];
+}
+
+/**
+ * Decide how seed data is inserted: validate every row, then order tables so
+ * referenced rows exist first. Where references form a cycle (including rows
+ * of a table pointing at later rows of the same table) the foreign keys closing
+ * the cycle are deferred to the end of the seeding transaction.
+ */
+export function planSeed(parsed: ParsedDBML, data: SeedData): SeedPlan {
+  const problems = validateSeedData(parsed, data);
+  const tables = Object.keys(data).filter(name => Array.isArray(data[name]) && parsed.tables.some(t => t.name === name));
+
+  const edges = parsed.relationships.flatMap(rel => {
+    const fk = toForeignKey(rel);
+    return fk && tables.includes(fk.table) && tables.includes(fk.refTable) ? [{ rel, fk }] : [];
+  });
+
+  const deferred: Relationship[] = [];
+  for (const { rel, fk } of edges.filter(edge => edge.fk.table === edge.fk.refTable)) {
+    if (hasForwardReference(data[fk.table], fk.columns, fk.refColumns)) deferred.push(rel);
+  }
+
+  const order: string[] = [];
+  const remaining = [...tables];
+  while (remaining.length > 0) {
+    const isReady = (table: string): boolean =>
+      edges.every(({ fk }) => fk.table !== table || fk.refTable === table || order.includes(fk.refTable));
+
+    let next = remaining.find(isReady);
+    if (!next) {
+      // Every remaining table waits on another one: break the cycle at the first table
+      next = remaining[0];
+      for (const { rel, fk } of edges) {
+        if (fk.table === next && fk.refTable !== next && !order.includes(fk.refTable)) deferred.push(rel);
+      }
+    }
+
+    order.push(next);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+
+  return { order, deferred, problems };
+}
+
+/**
+ * Whether a row references a key that only appears in a later row of the same table
+ */
+function hasForwardReference(rows: Record<string, unknown>[], columns: string[], refColumns: string[]): boolean {
+  const seen = new Set<string>();
+  const keyOf = (row: Record<string, unknown>, cols: string[]): string => JSON.stringify(cols.map(col => String(row[col])));
+
+  for (const row of rows) {
+    if (!isSeedRow(row)) continue;
+    seen.add(keyOf(row, refColumns));
+    if (columns.some(col => row[col] === null || row[col] === undefined)) continue;
+    if (!seen.has(keyOf(row, columns))) return true;
+  }
+  return false;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { parseDBML } from '../parser/dbmlParser';
+import { SeedData, checkViolationProblem, validateSeedData } from './seedValidator';
+
+const SHOP = parseDBML(`
+  Enum order_status {
+    open
+    paid
+  }
+
+  Table customers {
+    id int [pk]
+    email varchar(10) [not null, unique]
+  }
+
+  Table orders {
+    id int [pk]
+    customer_id int [ref: > customers.id]
+    status order_status [not null]
+    placed_at timestamp
+  }
+`);
+
+describe('validateSeedData', () => {
+  it('accepts rows that fit the schema', () => {
+    expect(
+      validateSeedData(SHOP, {
+        customers: [{ id: 1, email: 'a@x.io' }],
+        orders: [{ id: 1, customer_id: 1, status: 'open', placed_at: '2024-01-31' }],
+      })
+    ).toEqual([]);
+  });
+
+  it('reports unknown tables and columns', () => {
+    expect(validateSeedData(SHOP, { customers: [{ id: 1, email: 'a@x.io', name: 'A' }], refunds: [] })).toEqual([
+      { table: 'customers', rowIndex: 0, column: 'name', reason: 'column is not defined in the schema' },
+      { table: 'refunds', reason: 'table is not defined in the schema' },
+    ]);
+  });
+
+  it('checks types, lengths, NOT NULL and enum values', () => {
+    const problems = validateSeedData(SHOP, {
+      customers: [
+        { id: 'one', email: 'a@x.io' },
+        { id: 2, email: 'far-too-long@x.io' },
+        { id: 3, email: null },
+      ],
+      orders: [{ id: 1, status: 'lost', placed_at: 'yesterday' }],
+    });
+
+    expect(problems.map(({ table, rowIndex, column }) => [table, rowIndex, column])).toEqual([
+      ['customers', 0, 'id'],
+      ['customers', 1, 'email'],
+      ['customers', 2, 'email'],
+      ['orders', 0, 'status'],
+      ['orders', 0, 'placed_at'],
+    ]);
+    expect(problems[0].reason).toBe("'one' is not an integer");
+    expect(problems[3].reason).toBe("'lost' is not a value of enum 'order_status' (allowed: open, paid)");
+  });
+
+  it('reports duplicate keys and missing referenced rows', () => {
+    expect(
+      validateSeedData(SHOP, {
+        customers: [
+          { id: 1, email: 'a@x.io' },
+          { id: '1', email: 'b@x.io' },
+        ],
+        orders: [{ id: 1, customer_id: 7, status: 'open' }],
+      })
+    ).toEqual([
+      { table: 'customers', rowIndex: 1, column: 'id', reason: 'duplicates row 1 on the primary key (1)' },
+      {
+        table: 'orders',
+        rowIndex: 0,
+        column: 'customer_id',
+        reason: 'references customers(id) = (7), which does not exist',
+      },
+    ]);
+  });
+
+  it('skips foreign key checks when parent keys are generated', () => {
+    const parsed = parseDBML(`
+      Table authors {
+        id int [pk, increment]
+      }
+
+      Table books {
+        author_id int [ref: > authors.id]
+      }
+    `);
+
+    expect(validateSeedData(parsed, { authors: [{}], books: [{ author_id: 7 }] })).toEqual([]);
+    expect(validateSeedData(parsed, { authors: [{ id: 1 }], books: [{ author_id: 7 }] })).toHaveLength(1);
+  });
+
+  it('reports rows that are not objects and checks the rest', () => {
+    const data = {
+      customers: [null, { id: 1, email: 'a@x.io' }],
+      orders: [1, { id: 1, customer_id: 1, status: 'open' }, []],
+    } as unknown as SeedData;
+
+    expect(validateSeedData(SHOP, data)).toEqual([
+      { table: 'customers', rowIndex: 0, reason: 'row must be an object' },
+      { table: 'orders', rowIndex: 0, reason: 'row must be an object' },
+      { table: 'orders', rowIndex: 2, reason: 'row must be an object' },
+    ]);
+  });
+});
+
+describe('checkViolationProblem', () => {
+  const parsed = parseDBML(`
+    Table products {
+      id int [pk]
+      price decimal(10,2) [check: \`price >= 0\`]
+
+      checks {
+        \`price < 1000\` [name: 'price_cap']
+      }
+    }
+  `);
+
+  it('maps a violated constraint back to its check and column', () => {
+    expect(checkViolationProblem(parsed.tables[0], 2, 'products_price_check')).toEqual({
+      table: 'products',
+      rowIndex: 2,
+      column: 'price',
+      reason: 'violates check `price >= 0` (products_price_check)',
+    });
+    expect(checkViolationProblem(parsed.tables[0], 0, 'price_cap')).toMatchObject({ column: undefined });
+  });
+
+  it('knows nothing of constraints the schema does not define', () => {
+    expect(checkViolationProblem(parsed.tables[0], 0, 'other_check')).toBeNull();
+    expect(checkViolationProblem(parsed.tables[0], 0)).toBeNull();
+  });
+});
+
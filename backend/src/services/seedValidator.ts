@@ -0,0 +1,262 @@
+import { ParsedDBML, Table, TableColumn } from '../parser/dbmlParser';
+import { ForeignKey, toForeignKey } from '../parser/schemaGenerator';
+import { parseTypeName } from '../dialects/sqlDialect';
+
+export type SeedData = Record<string, Record<string, unknown>[]>;
+
+export interface SeedProblem {
+  table: string;
+  rowIndex?: number; // 0-based position in the submitted rows; absent for table-level problems
+  column?: string;
+  reason: string;
+}
+
+/**
+ * Seed data that cannot be inserted; carries every problem found, not just the first
+ */
+export class SeedDataError extends Error {
+  constructor(public readonly problems: SeedProblem[]) {
+    super(formatSeedProblems(problems));
+    this.name = 'SeedDataError';
+  }
+}
+
+const INTEGER_RANGES: Record<string, [number, number] | null> = {
+  tinyint: [-32768, 32767], // created as SMALLINT
+  smallint: [-32768, 32767],
+  int2: [-32768, 32767],
+  int: [-2147483648, 2147483647],
+  integer: [-2147483648, 2147483647],
+  int4: [-2147483648, 2147483647],
+  mediumint: [-2147483648, 2147483647],
+  bigint: null, // beyond what JSON numbers hold exactly
+  int8: null,
+};
+
+const NUMERIC_TYPES = new Set(['decimal', 'numeric', 'real', 'float', 'float4', 'float8', 'double', 'double precision', 'money']);
+const BOOLEAN_TYPES = new Set(['boolean', 'bool']);
+const LENGTH_TYPES = new Set(['varchar', 'char', 'character', 'character varying', 'nvarchar']);
+const TEXT_TYPES = new Set(['text', 'string']);
+const DATE_TYPES = new Set(['date', 'datetime', 'timestamp', 'timestamptz', 'timestamp with time zone', 'timestamp without time zone']);
+const TIME_TYPES = new Set(['time', 'timetz']);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check seed rows against the parsed schema before they reach the database:
+ * unknown tables and columns, types, NOT NULL, enum values, unique keys and
+ * foreign keys. CHECK expressions are left to the database.
+ */
+export function validateSeedData(parsed: ParsedDBML, data: SeedData): SeedProblem[] {
+  const problems: SeedProblem[] = [];
+
+  for (const [tableName, rows] of Object.entries(data)) {
+    const table = parsed.tables.find(t => t.name === tableName);
+    if (!table) {
+      problems.push({ table: tableName, reason: 'table is not defined in the schema' });
+      continue;
+    }
+    if (!Array.isArray(rows)) {
+      problems.push({ table: tableName, reason: 'rows must be an array' });
+      continue;
+    }
+
+    rows.forEach((row, rowIndex) => {
+      if (!isSeedRow(row)) {
+        problems.push({ table: tableName, rowIndex, reason: 'row must be an object' });
+        return;
+      }
+      for (const column of Object.keys(row)) {
+        if (!table.columns.some(col => col.name === column)) {
+          problems.push({ table: tableName, rowIndex, column, reason: 'column is not defined in the schema' });
+        }
+      }
+      for (const col of table.columns) {
+        const reason = checkValue(parsed, col, row[col.name]);
+        if (reason) problems.push({ table: tableName, rowIndex, column: col.name, reason });
+      }
+    });
+
+    problems.push(...checkUniqueKeys(table, rows));
+  }
+
+  for (const rel of parsed.relationships) {
+    const fk = toForeignKey(rel);
+    if (fk && Array.isArray(data[fk.table])) problems.push(...checkForeignKey(fk, data));
+  }
+
+  return problems.sort(
+    (a, b) => a.table.localeCompare(b.table) || (a.rowIndex ?? -1) - (b.rowIndex ?? -1)
+  );
+}
+
+/**
+ * Rows arrive as JSON, so any of them may be null, a number or an array
+ */
+export function isSeedRow(row: unknown): row is Record<string, unknown> {
+  return typeof row === 'object' && row !== null && !Array.isArray(row);
+}
+
+/**
+ * Returns why the value cannot be stored in the column, or null if it can
+ */
+function checkValue(parsed: ParsedDBML, col: TableColumn, value: unknown): string | null {
+  if (value === undefined) {
+    // Omitted columns get their default (or an auto-increment value)
+    const required = (col.isNotNull || col.isPrimaryKey) && !col.defaultValue && !col.isAutoIncrement;
+    return required ? 'value is required (NOT NULL) and the column has no default' : null;
+  }
+  if (value === null) {
+    return col.isNotNull || col.isPrimaryKey ? 'NULL is not allowed (NOT NULL)' : null;
+  }
+
+  if (col.enumType) {
+    const enumDef = parsed.enums.find(e => e.name === col.enumType);
+    if (enumDef && !enumDef.values.includes(String(value))) {
+      return `'${String(value)}' is not a value of enum '${enumDef.name}' (allowed: ${enumDef.values.join(', ')})`;
+    }
+    return null;
+  }
+
+  const { base, args, isArray } = parseTypeName(col.type);
+  if (isArray) {
+    return Array.isArray(value) ? null : `expected an array for ${col.type}`;
+  }
+  if (typeof value === 'object' && !/^jsonb?$/.test(base)) {
+    return `expected a ${col.type} value but got ${Array.isArray(value) ? 'an array' : 'an object'}`;
+  }
+
+  if (base in INTEGER_RANGES) {
+    const text = String(value).trim();
+    if (typeof value === 'boolean' || !/^[-+]?\d+$/.test(text)) return `'${String(value)}' is not an integer`;
+    const range = INTEGER_RANGES[base];
+    if (range && (Number(text) < range[0] || Number(text) > range[1])) {
+      return `${text} is out of range for ${col.type} (${range[0]} to ${range[1]})`;
+    }
+  } else if (NUMERIC_TYPES.has(base)) {
+    if (typeof value === 'boolean' || String(value).trim() === '' || !Number.isFinite(Number(value))) {
+      return `'${String(value)}' is not a number`;
+    }
+  } else if (BOOLEAN_TYPES.has(base)) {
+    if (typeof value !== 'boolean' && !/^(true|false|t|f|yes|no|on|off|1|0)$/i.test(String(value).trim())) {
+      return `'${String(value)}' is not a boolean`;
+    }
+  } else if (LENGTH_TYPES.has(base)) {
+    const length = Number(args[0]);
+    if (args.length > 0 && String(value).length > length) {
+      return `'${String(value)}' is ${String(value).length} characters, longer than ${col.type}`;
+    }
+  } else if (DATE_TYPES.has(base)) {
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return `'${String(value)}' is not a valid ${base}`;
+  } else if (TIME_TYPES.has(base)) {
+    if (typeof value !== 'string' || !/^\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?/.test(value.trim())) return `'${String(value)}' is not a valid time`;
+  } else if (base === 'uuid') {
+    if (typeof value !== 'string' || !UUID_PATTERN.test(value.trim())) return `'${String(value)}' is not a valid uuid`;
+  } else if (TEXT_TYPES.has(base) && typeof value === 'object') {
+    return 'expected text';
+  }
+
+  return null;
+}
+
+/**
+ * Duplicate primary keys, unique columns and unique indexes among the submitted rows
+ */
+function checkUniqueKeys(table: Table, rows: Record<string, unknown>[]): SeedProblem[] {
+  const problems: SeedProblem[] = [];
+  const keys: string[][] = [];
+
+  if (table.primaryKey.length > 0) keys.push(table.primaryKey);
+  for (const col of table.columns.filter(c => c.isUnique)) keys.push([col.name]);
+  for (const index of table.indexes) {
+    if (index.unique && index.columns.every(col => col.kind === 'column')) keys.push(index.columns.map(col => col.value));
+  }
+
+  for (const key of keys) {
+    // Skip keys listed twice, e.g. a pk column that is also marked unique
+    if (keys.indexOf(key) !== keys.findIndex(other => other.join() === key.join())) continue;
+
+    const seen = new Map<string, number>();
+    rows.forEach((row, rowIndex) => {
+      if (!isSeedRow(row)) return;
+      const values = key.map(col => row[col]);
+      if (values.some(value => value === null || value === undefined)) return;
+
+      const tuple = keyOf(values);
+      const first = seen.get(tuple);
+      if (first === undefined) {
+        seen.set(tuple, rowIndex);
+      } else {
+        problems.push({
+          table: table.name,
+          rowIndex,
+          column: key.join(', '),
+          reason: `duplicates row ${first + 1} on ${key === table.primaryKey ? 'the primary key' : 'a unique key'} (${values.map(String).join(', ')})`,
+        });
+      }
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Every non-null foreign key value must exist among the referenced table's rows
+ */
+function checkForeignKey(fk: ForeignKey, data: SeedData): SeedProblem[] {
+  const parentRows = Array.isArray(data[fk.refTable]) ? data[fk.refTable].filter(isSeedRow) : [];
+  // Parent rows without explicit key values get generated ids we cannot predict
+  if (parentRows.some(row => fk.refColumns.some(col => row[col] === undefined || row[col] === null))) return [];
+
+  const parentKeys = new Set(parentRows.map(row => keyOf(fk.refColumns.map(col => row[col]))));
+  const problems: SeedProblem[] = [];
+
+  data[fk.table].forEach((row, rowIndex) => {
+    if (!isSeedRow(row)) return;
+    const values = fk.columns.map(col => row[col]);
+    if (values.some(value => value === null || value === undefined)) return;
+    if (!parentKeys.has(keyOf(values))) {
+      problems.push({
+        table: fk.table,
+        rowIndex,
+        column: fk.columns.join(', '),
+        reason: `references ${fk.refTable}(${fk.refColumns.join(', ')}) = (${values.map(String).join(', ')}), which does not exist`,
+      });
+    }
+  });
+
+  return problems;
+}
+
+// 1 and '1' are the same key once the database casts them
+function keyOf(values: unknown[]): string {
+  return JSON.stringify(values.map(value => String(value)));
+}
+
+/**
+ * Describe a row rejected by one of the table's CHECK constraints; the database
+ * evaluates the expression, we only map the constraint name back to the DBML
+ */
+export function checkViolationProblem(table: Table, rowIndex: number, constraint?: string): SeedProblem | null {
+  const check = table.checks.find(c => c.name === constraint);
+  if (!check) return null;
+  return {
+    table: table.name,
+    rowIndex,
+    column: check.column,
+    reason: `violates check \`${check.expression}\` (${check.name})`,
+  };
+}
+
+/**
+ * Human readable summary used in error responses
+ */
+export function formatSeedProblems(problems: SeedProblem[]): string {
+  const lines = problems.map(p => {
+    const location = [p.rowIndex !== undefined ? `row ${p.rowIndex + 1}` : '', p.column ? `column ${p.column}` : '']
+      .filter(Boolean)
+      .join(', ');
+    return `- ${p.table}${location ? ` ${location}` : ''}: ${p.reason}`;
+  });
+  return `Seed data does not match the schema:\n${lines.join('\n')}`;
+}
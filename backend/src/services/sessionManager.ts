@@ -1,16 +1,38 @@
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parseDBML, generateSQLSchema } from '../parser/dbmlParser';
+import { Table, parseDBML } from '../parser/dbmlParser';
+import { generateSQLSchema } from '../parser/schemaGenerator';
+import { splitSqlStatements } from '../parser/sqlDdlParser';
+import { getDialect } from '../dialects';
+import { SeedData, SeedDataError, SeedProblem, checkViolationProblem } from './seedValidator';
+import { planSeed } from './seedPlanner';
+import { PreparedSeed, ResultCursor } from './engines';
+import {
+  QueryConnections,
+  RunningQueries,
+  SandboxQueryOptions,
+  SessionNotFoundError,
+  resolveQueryTimeout,
+} from './sandboxManager';
+import { SqliteQueryProcess } from './sqliteQueryProcess';
+
+const dialect = getDialect('sqlite');
+const q = (name: string): string => dialect.quoteIdentifier(name);
 
 export interface SessionData {
   sessionId: string;
   dbml: string;
-  data: Record<string, Record<string, unknown>[]>;
+  data: SeedData;
   createdAt: number;
   lastAccessed: number;
 }
 
+export interface SqliteQueryTimeouts {
+  queryTimeoutMs: number; // for queries that set no timeout
+  maxQueryTimeoutMs: number; // the largest timeout a query may set
+}
+
 /**
  * Session Manager
  * Manages user sessions with persistent SQLite databases
@@ -20,10 +42,22 @@ export class SessionManager {
   private dbConnections: Map<string, Database.Database> = new Map();
   private dbDir: string;
   private sessionTimeout: number; // milliseconds
-
-  constructor(dbDir: string = './sessions', sessionTimeout: number = 30 * 60 * 1000) {
+  private queryTimeouts: SqliteQueryTimeouts;
+  private queryConnections = new QueryConnections();
+  private runningQueries = new RunningQueries();
+
+  constructor(
+    dbDir: string = './sessions',
+    sessionTimeout: number = 30 * 60 * 1000,
+    queryTimeouts: Partial<SqliteQueryTimeouts> = {}
+  ) {
     this.dbDir = dbDir;
     this.sessionTimeout = sessionTimeout; // 30 minutes default
+    this.queryTimeouts = {
+      queryTimeoutMs: 30 * 1000, // 30s
+      maxQueryTimeoutMs: 5 * 60 * 1000, // 5 minutes
+      ...queryTimeouts,
+    };
 
     // Ensure sessions directory exists
     if (!fs.existsSync(this.dbDir)) {
@@ -34,37 +68,54 @@ export class SessionManager {
     this.cleanupOldSessions();
 
     // Periodic cleanup
-    setInterval(() => this.cleanupOldSessions(), 5 * 60 * 1000); // Every 5 minutes
+    setInterval(() => this.cleanupOldSessions(), 5 * 60 * 1000).unref(); // Every 5 minutes
   }
 
   /**
-   * Create or get existing session
+   * Create or get existing session. Without data an existing session keeps its
+   * rows; an unknown session then cannot be rebuilt.
    */
-  getOrCreateSession(sessionId: string, dbml: string, data: Record<string, Record<string, unknown>[]>): string {
-    const existing = this.sessions.get(sessionId);
-    
+  getOrCreateSession(sessionId: string | undefined, dbml: string, data?: SeedData): string {
+    const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+
     if (existing) {
       // Update session data if changed
-      if (existing.dbml !== dbml || JSON.stringify(existing.data) !== JSON.stringify(data)) {
-        this.updateSession(sessionId, dbml, data);
+      if (existing.dbml !== dbml || (data !== undefined && JSON.stringify(existing.data) !== JSON.stringify(data))) {
+        this.updateSession(existing.sessionId, dbml, data ?? existing.data);
       } else {
         existing.lastAccessed = Date.now();
       }
-      return sessionId;
+      return existing.sessionId;
     }
 
-    // Create new session
-    const newSessionId = sessionId || this.generateSessionId();
-    this.createSession(newSessionId, dbml, data);
+    if (data === undefined) {
+      throw new SessionNotFoundError();
+    }
+
+    // Unknown ids are not reused, as they name the database file
+    const newSessionId = this.generateSessionId();
+    this.createSession(newSessionId, dbml, this.prepareSeed(dbml, data));
     return newSessionId;
   }
 
+  /**
+   * Parse, validate and order the seed before any database file is touched
+   */
+  private prepareSeed(dbml: string, data: SeedData): PreparedSeed {
+    const parsed = parseDBML(dbml);
+    const plan = planSeed(parsed, data);
+    if (plan.problems.length > 0) {
+      throw new SeedDataError(plan.problems);
+    }
+    return { parsed, plan, data };
+  }
+
   /**
    * Create a new session
    */
-  private createSession(sessionId: string, dbml: string, data: Record<string, Record<string, unknown>[]>): void {
-    const dbPath = path.join(this.dbDir, `${sessionId}.db`);
-    
+  private createSession(sessionId: string, dbml: string, seed: PreparedSeed): void {
+    const dbPath = this.dbPath(sessionId);
+
     // Remove old database file if exists
     if (fs.existsSync(dbPath)) {
       fs.unlinkSync(dbPath);
@@ -72,40 +123,27 @@ export class SessionManager {
 
     // Create new database
     const db = new Database(dbPath);
-    
+
     try {
-      // Parse DBML and create schema
-      const parsed = parseDBML(dbml);
-      const schemaStatements = generateSQLSchema(parsed);
+      // SQLite only enforces foreign keys when asked to, per connection
+      db.pragma('foreign_keys = ON');
+
+      const schemaStatements = generateSQLSchema(seed.parsed, dialect, {
+        deferredRelationships: seed.plan.deferred,
+      });
 
       // Execute CREATE TABLE statements
       for (const statement of schemaStatements) {
         db.exec(statement);
       }
 
-      // Insert data
-      for (const [tableName, rows] of Object.entries(data)) {
-        if (rows.length === 0) continue;
-
-        const columns = Object.keys(rows[0]);
-        const placeholders = columns.map(() => '?').join(', ');
-        const insertSQL = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders})`;
-
-        const stmt = db.prepare(insertSQL);
-        const insertMany = db.transaction((rows: Record<string, unknown>[]) => {
-          for (const row of rows) {
-            stmt.run(...columns.map(col => row[col]));
-          }
-        });
-
-        insertMany(rows);
-      }
+      this.loadSeed(db, seed);
 
       // Store session
       this.sessions.set(sessionId, {
         sessionId,
         dbml,
-        data,
+        data: seed.data,
         createdAt: Date.now(),
         lastAccessed: Date.now(),
       });
@@ -113,29 +151,97 @@ export class SessionManager {
       this.dbConnections.set(sessionId, db);
     } catch (error) {
       db.close();
+      fs.rmSync(dbPath, { force: true });
       throw error;
     }
   }
 
+  /**
+   * Insert the seed rows in one transaction so deferred foreign keys are
+   * checked once every row is in
+   */
+  private loadSeed(db: Database.Database, seed: PreparedSeed): void {
+    const { parsed, plan, data } = seed;
+    const checkProblems: SeedProblem[] = [];
+
+    db.exec('BEGIN');
+    try {
+      for (const tableName of plan.order) {
+        const table = parsed.tables.find(t => t.name === tableName) as Table;
+
+        for (const [rowIndex, row] of data[tableName].entries()) {
+          // Omitted columns fall back to their defaults
+          const columns = Object.keys(row).filter(col => row[col] !== undefined);
+          const insertSQL =
+            columns.length === 0
+              ? `INSERT INTO ${q(tableName)} DEFAULT VALUES`
+              : `INSERT INTO ${q(tableName)} (${columns.map(q).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+
+          db.exec('SAVEPOINT seed_row');
+          try {
+            db.prepare(insertSQL).run(...columns.map(col => toSqliteValue(row[col])));
+            db.exec('RELEASE SAVEPOINT seed_row');
+          } catch (error) {
+            // Keep going so every row failing a CHECK is reported at once
+            const problem =
+              error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_CHECK'
+                ? checkViolationProblem(table, rowIndex, error.message.replace(/^CHECK constraint failed: /, ''))
+                : null;
+            if (!problem) throw error;
+            checkProblems.push(problem);
+            db.exec('ROLLBACK TO SAVEPOINT seed_row');
+            db.exec('RELEASE SAVEPOINT seed_row');
+          }
+        }
+      }
+
+      if (checkProblems.length > 0) {
+        throw new SeedDataError(checkProblems);
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      if (db.inTransaction) db.exec('ROLLBACK');
+      throw error;
+    }
+
+    // Fresh statistics so EXPLAIN QUERY PLAN reflects the seeded data and its indexes
+    db.exec('ANALYZE');
+  }
+
   /**
    * Update existing session
    */
-  private updateSession(sessionId: string, dbml: string, data: Record<string, Record<string, unknown>[]>): void {
-    // Close old connection
+  private updateSession(sessionId: string, dbml: string, data: SeedData): void {
+    // Rejected seed data leaves the current database in place
+    const seed = this.prepareSeed(dbml, data);
+
+    // Close old connections
+    void this.queryConnections.release(sessionId);
     const oldDb = this.dbConnections.get(sessionId);
     if (oldDb) {
       oldDb.close();
       this.dbConnections.delete(sessionId);
     }
 
-    // Remove old database file
-    const dbPath = path.join(this.dbDir, `${sessionId}.db`);
-    if (fs.existsSync(dbPath)) {
-      fs.unlinkSync(dbPath);
+    // Create new session with updated data; the old database file is removed first
+    try {
+      this.createSession(sessionId, dbml, seed);
+    } catch (error) {
+      this.sessions.delete(sessionId);
+      throw error;
     }
+  }
 
-    // Create new session with updated data
-    this.createSession(sessionId, dbml, data);
+  /**
+   * Rebuild the session's database from its DBML and data, undoing what
+   * queries changed
+   */
+  resetSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError();
+    }
+    this.updateSession(sessionId, session.dbml, session.data);
   }
 
   /**
@@ -153,9 +259,10 @@ export class SessionManager {
     let db = this.dbConnections.get(sessionId);
     if (!db) {
       // Reopen database if connection was closed
-      const dbPath = path.join(this.dbDir, `${sessionId}.db`);
+      const dbPath = this.dbPath(sessionId);
       if (fs.existsSync(dbPath)) {
         db = new Database(dbPath);
+        db.pragma('foreign_keys = ON');
         this.dbConnections.set(sessionId, db);
       }
     }
@@ -164,25 +271,37 @@ export class SessionManager {
   }
 
   /**
-   * Execute query on session database
+   * Execute query on session database, in the session's query process. A
+   * script runs statement by statement; the rows of the last statement that
+   * returns any are the result. At most one row past `maxRows` is read, so
+   * the total is only known for short results.
    */
-  executeQuery(sessionId: string, query: string): { rows: unknown[]; columns: string[] } | null {
-    const db = this.getDatabase(sessionId);
-    if (!db) {
-      return null;
+  async executeQuery(sessionId: string, query: string, options: SandboxQueryOptions): Promise<ResultCursor> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError();
     }
+    session.lastAccessed = Date.now();
 
-    try {
-      const result = db.prepare(query).all();
-      const columns = result.length > 0 ? Object.keys(result[0] as Record<string, unknown>) : [];
+    const { queryTimeoutMs, maxQueryTimeoutMs } = this.queryTimeouts;
+    const timeout = resolveQueryTimeout(options.timeoutMs, queryTimeoutMs, maxQueryTimeoutMs);
+    const connection = await this.queryConnections.get(
+      sessionId,
+      async () => new SqliteQueryProcess(this.dbPath(sessionId))
+    );
+    return await this.runningQueries.run(sessionId, signal =>
+      connection.executeQuery(query, { timeoutMs: timeout, signal, maxRows: options.maxRows })
+    );
+  }
 
-      return {
-        rows: result,
-        columns,
-      };
-    } catch (error) {
-      throw error;
+  /**
+   * Cancel the session's running queries; false when none was running
+   */
+  cancelQuery(sessionId: string): boolean {
+    if (!this.sessions.has(sessionId)) {
+      throw new SessionNotFoundError();
     }
+    return this.runningQueries.cancel(sessionId);
   }
 
   /**
@@ -207,7 +326,11 @@ export class SessionManager {
    * Delete a session
    */
   deleteSession(sessionId: string): void {
-    // Close database connection
+    // Ids come from clients, so only ever touch files of sessions created here
+    if (!this.sessions.has(sessionId)) return;
+
+    // Close database connections
+    void this.queryConnections.release(sessionId);
     const db = this.dbConnections.get(sessionId);
     if (db) {
       db.close();
@@ -215,7 +338,7 @@ export class SessionManager {
     }
 
     // Remove database file
-    const dbPath = path.join(this.dbDir, `${sessionId}.db`);
+    const dbPath = this.dbPath(sessionId);
     if (fs.existsSync(dbPath)) {
       try {
         fs.unlinkSync(dbPath);
@@ -228,6 +351,10 @@ export class SessionManager {
     this.sessions.delete(sessionId);
   }
 
+  private dbPath(sessionId: string): string {
+    return path.join(this.dbDir, `${sessionId}.db`);
+  }
+
   /**
    * Generate unique session ID
    */
@@ -259,5 +386,11 @@ export class SessionManager {
   }
 }
 
-
-
+/**
+ * better-sqlite3 only binds numbers, strings, bigints, buffers and null
+ */
+function toSqliteValue(value: unknown): unknown {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SandboxRegistry } from './sandboxRegistry';
+import { MemorySessionStore, StoredSession } from './sessionStore';
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+}
+
+function deferred(): Deferred {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+// Let every task that can run do so
+async function settle(): Promise<void> {
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+describe('MemorySessionStore locking', () => {
+  it('runs tasks on one session one after another, in the order they asked', async () => {
+    const store = new MemorySessionStore<StoredSession>();
+    const events: string[] = [];
+    const gate = deferred();
+
+    const first = store.withLock('s1', async () => {
+      events.push('first started');
+      await gate.promise;
+      events.push('first done');
+      return 1;
+    });
+    const second = store.withLock('s1', async () => {
+      events.push('second started');
+      return 2;
+    });
+
+    await settle();
+    expect(events).toEqual(['first started']);
+
+    gate.resolve();
+    expect(await Promise.all([first, second])).toEqual([1, 2]);
+    expect(events).toEqual(['first started', 'first done', 'second started']);
+  });
+
+  it('runs tasks on different sessions side by side', async () => {
+    const store = new MemorySessionStore<StoredSession>();
+    const gate = deferred();
+    let otherRan = false;
+
+    const held = store.withLock('s1', async () => await gate.promise);
+    await store.withLock('s2', async () => {
+      otherRan = true;
+    });
+
+    expect(otherRan).toBe(true);
+    gate.resolve();
+    await held;
+  });
+
+  it('passes a failure to its caller and still runs the next task', async () => {
+    const store = new MemorySessionStore<StoredSession>();
+
+    const failing = store.withLock('s1', async () => {
+      throw new Error('boom');
+    });
+    const next = store.withLock('s1', async () => 'ran');
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ran');
+    await expect(store.withLock('s1', async () => 'again')).resolves.toBe('again');
+  });
+});
+
+describe('MemorySessionStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'session-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps, lists and deletes sessions', async () => {
+    const store = new MemorySessionStore<StoredSession>();
+    await store.set({ sessionId: 'a', lastAccessed: 1 });
+    await store.set({ sessionId: 'b', lastAccessed: 2 });
+    await store.delete('a');
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toEqual({ sessionId: 'b', lastAccessed: 2 });
+    expect(await store.list()).toEqual([{ sessionId: 'b', lastAccessed: 2 }]);
+  });
+
+  it('finds the sessions a previous store saved to its registry', async () => {
+    const registryPath = path.join(directory, 'sessions.json');
+    const previous = new MemorySessionStore(new SandboxRegistry<StoredSession>(registryPath));
+    await previous.set({ sessionId: 'a', lastAccessed: 1 });
+    await previous.touch('a');
+    await previous.close();
+
+    const restarted = new MemorySessionStore(new SandboxRegistry<StoredSession>(registryPath));
+    const session = await restarted.get('a');
+
+    expect(session?.lastAccessed).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { SandboxRegistry } from './sandboxRegistry';
+
+/**
+ * What a store needs to know of the sessions it keeps
+ */
+export interface StoredSession {
+  sessionId: string;
+  lastAccessed: number;
+}
+
+/**
+ * Where a sandbox manager keeps its sessions: in the API process, or in
+ * Redis so several API replicas can serve the same sessions
+ */
+export interface SessionStore<T extends StoredSession> {
+  /** Whether other API replicas see the same sessions */
+  readonly shared: boolean;
+  get(sessionId: string): Promise<T | undefined>;
+  set(session: T): Promise<void>;
+  /** Record a use of the session without writing the rest of it */
+  touch(sessionId: string): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  list(): Promise<T[]>;
+  /**
+   * Run `task` holding the session's lock, so no other request, in this
+   * process or another, changes the session meanwhile. Not reentrant.
+   */
+  withLock<R>(sessionId: string, task: () => Promise<R>): Promise<R>;
+  close(): Promise<void>;
+}
+
+/**
+ * Per-session locks within this process: tasks holding the same session's
+ * lock run one after another, in the order they asked for it
+ */
+export class SessionLocks {
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  async withLock<R>(sessionId: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.locks.get(sessionId) ?? Promise.resolve();
+    const running = previous.then(task);
+    const settled = running.catch(() => undefined);
+    this.locks.set(sessionId, settled);
+
+    try {
+      return await running;
+    } finally {
+      if (this.locks.get(sessionId) === settled) this.locks.delete(sessionId);
+    }
+  }
+}
+
+// How long uses recorded by touch may wait before the registry is written
+const TOUCH_SAVE_DELAY_MS = 30 * 1000;
+
+/**
+ * Sessions in this process, optionally saved to a registry file so a
+ * restarted process finds them again
+ */
+export class MemorySessionStore<T extends StoredSession> implements SessionStore<T> {
+  readonly shared: boolean = false;
+  private sessions: Map<string, T> = new Map();
+  private locks = new SessionLocks();
+  private loaded: Promise<void>;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly registry: SandboxRegistry<T> | null = null) {
+    this.loaded = registry
+      ? registry.load().then(saved => {
+          for (const session of saved) this.sessions.set(session.sessionId, session);
+        })
+      : Promise.resolve();
+  }
+
+  async get(sessionId: string): Promise<T | undefined> {
+    await this.loaded;
+    return this.sessions.get(sessionId);
+  }
+
+  async set(session: T): Promise<void> {
+    await this.loaded;
+    this.sessions.set(session.sessionId, session);
+    await this.save();
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    await this.loaded;
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.lastAccessed = Date.now();
+    // Every query touches its session, so the registry is not rewritten for each
+    this.saveTimer ??= setTimeout(() => void this.save(), TOUCH_SAVE_DELAY_MS).unref();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.loaded;
+    if (this.sessions.delete(sessionId)) await this.save();
+  }
+
+  async list(): Promise<T[]> {
+    await this.loaded;
+    return Array.from(this.sessions.values());
+  }
+
+  async withLock<R>(sessionId: string, task: () => Promise<R>): Promise<R> {
+    return await this.locks.withLock(sessionId, task);
+  }
+
+  async close(): Promise<void> {
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.registry?.save(Array.from(this.sessions.values()));
+  }
+}
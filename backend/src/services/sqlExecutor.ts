@@ -1,32 +1,60 @@
-import { ContainerSandboxManager, SupportedEngine } from './containerSandboxManager';
+import { ContainerLimits, SandboxManager, SessionNotFoundError } from './sandboxManager';
+import { SessionManager } from './sessionManager';
+import { QueryCancelledError, QueryTimeoutError, ResultCursor, SUPPORTED_ENGINES, SupportedEngine } from './engines';
+import { ResultPage, ResultStore, ResultStoreConfig } from './resultStore';
+import { parseDBML } from '../parser/dbmlParser';
+import { Diagnostic } from '../parser/dbmlAst';
+import { SeedDataError, SeedProblem } from './seedValidator';
+import { SessionLocks } from './sessionStore';
+
+// SQLite sessions are database files on the API host; the other engines run in containers
+export type QueryEngine = SupportedEngine | 'sqlite';
+
+export const QUERY_ENGINES: QueryEngine[] = [...SUPPORTED_ENGINES, 'sqlite'];
 
 export interface ExecuteQueryRequest {
   sessionId?: string;
   dbml: string;
-  data: Record<string, Record<string, unknown>[]>; // { tableName: [rows...] }
+  data?: Record<string, Record<string, unknown>[]>; // { tableName: [rows...] }; optional for a live session
   query: string;
-  engine?: SupportedEngine;
+  engine?: QueryEngine;
+  limits?: Partial<ContainerLimits>; // per exam container resources, within the configured maximum
+  timeoutMs?: number; // defaults to the server's query timeout
 }
 
 export interface ExecuteQueryResponse {
   success: boolean;
-  rows?: unknown[];
+  rows?: unknown[]; // the first page of the result
   columns?: string[];
+  totalRows?: number; // when known
+  truncated?: boolean; // rows past the configured maximum were dropped
+  resultId?: string; // fetch further pages with this while set
   executionTime?: number;
   error?: string;
   sessionId?: string;
-  engine?: SupportedEngine;
+  engine?: QueryEngine;
+  diagnostics?: Diagnostic[];
+  seedProblems?: SeedProblem[];
+  sessionExpired?: boolean; // the session is gone and data was not sent to rebuild it
+  timedOut?: boolean;
+  cancelled?: boolean; // stopped by a cancel request
 }
 
 /**
  * SQL Executor Service
- * Runs queries inside isolated container sandboxes
+ * Runs queries inside isolated container sandboxes, or SQLite session databases
  */
 export class SQLExecutor {
-  private sandboxManager: ContainerSandboxManager;
+  private sandboxManager: SandboxManager;
+  private sessionManager: SessionManager;
+  private results: ResultStore;
+  // A session's queries share its connection and result, so they run one at a time
+  private sessionLocks = new SessionLocks();
 
-  constructor(sandboxManager: ContainerSandboxManager) {
+  constructor(sandboxManager: SandboxManager, sessionManager: SessionManager, resultConfig?: Partial<ResultStoreConfig>) {
     this.sandboxManager = sandboxManager;
+    this.sessionManager = sessionManager;
+    this.results = new ResultStore(resultConfig);
   }
 
   /**
@@ -36,36 +64,111 @@ export class SQLExecutor {
     const startTime = Date.now();
 
     try {
-      // Get or create sandbox for session
-      const sandbox = await this.sandboxManager.getOrCreateSandbox({
-        sessionId: request.sessionId,
-        dbml: request.dbml,
-        data: request.data,
-        engine: request.engine,
-      });
+      return await this.withSessionLock(request.sessionId, async () => {
+        // Only one result stays open per session
+        if (request.sessionId) await this.results.close(request.sessionId);
 
-      // Execute query inside sandbox container
-      const result = await this.sandboxManager.executeQuery(sandbox.sessionId, request.query);
+        // A SQLite session stays one when the request leaves the engine out
+        const sqliteSession = request.sessionId !== undefined && this.sessionManager.getSessionInfo(request.sessionId);
+        const requested = request.engine ?? (sqliteSession ? 'sqlite' : undefined);
+        const { sessionId, engine, cursor } =
+          requested === 'sqlite'
+            ? await this.executeInSqlite(request)
+            : await this.executeInSandbox(request, requested);
+        const page = await this.results.open(sessionId, cursor);
 
-      const executionTime = Date.now() - startTime;
+        const executionTime = Date.now() - startTime;
 
-      return {
-        success: true,
-        rows: result.rows,
-        columns: result.columns,
-        executionTime,
-        sessionId: sandbox.sessionId,
-        engine: sandbox.engine,
-      };
+        return {
+          success: true,
+          rows: page.rows,
+          columns: page.columns,
+          totalRows: page.totalRows,
+          truncated: page.truncated,
+          resultId: page.resultId,
+          executionTime,
+          sessionId,
+          engine,
+        };
+      });
     } catch (error: unknown) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
         executionTime: Date.now() - startTime,
+        seedProblems: error instanceof SeedDataError ? error.problems : undefined,
+        sessionExpired: error instanceof SessionNotFoundError || undefined,
+        timedOut: error instanceof QueryTimeoutError || undefined,
+        cancelled: error instanceof QueryCancelledError || undefined,
       };
     }
   }
 
+  private async executeInSandbox(
+    request: ExecuteQueryRequest,
+    engine: SupportedEngine | undefined
+  ): Promise<{ sessionId: string; engine: QueryEngine; cursor: ResultCursor }> {
+    // A session switching away from SQLite moves to a container
+    if (request.sessionId) this.sessionManager.deleteSession(request.sessionId);
+
+    // Get or create sandbox for session
+    const sandbox = await this.sandboxManager.getOrCreateSandbox({
+      sessionId: request.sessionId,
+      dbml: request.dbml,
+      data: request.data,
+      engine,
+      limits: request.limits,
+    });
+
+    // Execute query inside sandbox container
+    const cursor = await this.sandboxManager.executeQuery(sandbox.sessionId, request.query, {
+      timeoutMs: request.timeoutMs,
+      maxRows: this.results.maxRows,
+    });
+    return { sessionId: sandbox.sessionId, engine: sandbox.engine, cursor };
+  }
+
+  private async executeInSqlite(
+    request: ExecuteQueryRequest
+  ): Promise<{ sessionId: string; engine: QueryEngine; cursor: ResultCursor }> {
+    // A session switching to SQLite no longer needs its container
+    if (request.sessionId) {
+      const sessionId = request.sessionId;
+      this.sandboxManager
+        .deleteSandbox(sessionId)
+        .catch(error => console.error(`Failed to delete sandbox of session ${sessionId}:`, error));
+    }
+
+    const sessionId = this.sessionManager.getOrCreateSession(request.sessionId, request.dbml, request.data);
+    const cursor = await this.sessionManager.executeQuery(sessionId, request.query, {
+      timeoutMs: request.timeoutMs,
+      maxRows: this.results.maxRows,
+    });
+    return { sessionId, engine: 'sqlite', cursor };
+  }
+
+  /**
+   * A further page of the session's last result
+   */
+  async fetchResultPage(sessionId: string, resultId: string, offset: number, limit?: number): Promise<ResultPage> {
+    return await this.sessionLocks.withLock(sessionId, () => this.results.page(sessionId, resultId, offset, limit));
+  }
+
+  /**
+   * Release the session's open result, such as before its rows change or
+   * when it is deleted; waits for the session's running query
+   */
+  async closeResults(sessionId: string): Promise<void> {
+    await this.sessionLocks.withLock(sessionId, () => this.results.close(sessionId));
+  }
+
+  /**
+   * A new session has no queries to wait for
+   */
+  private async withSessionLock<R>(sessionId: string | undefined, task: () => Promise<R>): Promise<R> {
+    return sessionId ? await this.sessionLocks.withLock(sessionId, task) : await task();
+  }
+
   /**
    * Validate SQL query syntax (basic validation)
    */
@@ -76,5 +179,24 @@ export class SQLExecutor {
 
     return { valid: true };
   }
+
+  /**
+   * Validate DBML schema; any error-level diagnostic rejects it
+   */
+  validateSchema(dbml: string): { valid: boolean; error?: string; diagnostics: Diagnostic[] } {
+    const { diagnostics } = parseDBML(dbml);
+    const errors = diagnostics.filter(d => d.severity === 'error');
+
+    if (errors.length > 0) {
+      const first = errors[0];
+      return {
+        valid: false,
+        error: `DBML has ${errors.length} error(s); first at line ${first.line}, column ${first.column}: ${first.message}`,
+        diagnostics,
+      };
+    }
+
+    return { valid: true, diagnostics };
+  }
 }
 
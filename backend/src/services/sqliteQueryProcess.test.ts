@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SqliteQueryProcess } from './sqliteQueryProcess';
+
+const OPTIONS = { timeoutMs: 10 * 1000, maxRows: 100 };
+
+describe('SqliteQueryProcess', () => {
+  let directory: string;
+  let connection: SqliteQueryProcess;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sqlite-query-'));
+    connection = new SqliteQueryProcess(path.join(directory, 'session.db'));
+  });
+
+  afterEach(async () => {
+    await connection.close();
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('runs a script and returns the rows of its last query', async () => {
+    const cursor = await connection.executeQuery(
+      'CREATE TABLE t (n INTEGER); INSERT INTO t VALUES (1), (2); SELECT n FROM t ORDER BY n',
+      OPTIONS
+    );
+
+    expect(await cursor.read(10)).toEqual({ rows: [{ n: 1 }, { n: 2 }], columns: ['n'] });
+  });
+
+  it.each([
+    [`ATTACH DATABASE 'other.db' AS other`, 'ATTACH'],
+    ['SELECT 1; detach other', 'DETACH'],
+    [`VACUUM INTO 'copy.db'`, 'VACUUM'],
+    [`vacuum main into 'copy.db'`, 'VACUUM'],
+    [`EXPLAIN ATTACH DATABASE 'other.db' AS other`, 'ATTACH'],
+  ])('refuses %s, which reaches other files', async (query, command) => {
+    await expect(connection.executeQuery(query, OPTIONS)).rejects.toThrow(
+      `Not allowed in a SQLite session: ${command}`
+    );
+    expect(fs.existsSync(path.join(directory, 'copy.db'))).toBe(false);
+  });
+
+  it('still runs a plain VACUUM', async () => {
+    const cursor = await connection.executeQuery('VACUUM', OPTIONS);
+
+    expect(await cursor.read(10)).toEqual({ rows: [], columns: [] });
+  });
+});
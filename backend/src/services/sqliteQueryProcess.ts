@@ -0,0 +1,134 @@
+import { ChildProcess, spawn } from 'child_process';
+import { QueryConnection, QueryOptions, QueryResult, ResultCursor, bufferedCursor } from './engines';
+import { guardQuery } from './engines/queryGuard';
+import { splitSqlStatements } from '../parser/sqlDdlParser';
+
+// Plain JavaScript so the process starts the same under ts-node and from dist.
+// A script runs statement by statement; the rows of the last statement that
+// returns any are the result, with at most one row past maxRows read.
+const PROCESS_SOURCE = `
+const Database = require(process.env.SQLITE_DRIVER);
+const db = new Database(process.env.SQLITE_DB_PATH);
+db.pragma('foreign_keys = ON');
+
+process.on('disconnect', () => process.exit(0));
+process.on('message', ({ statements, maxRows }) => {
+  try {
+    let result = { rows: [], columns: [] };
+    let complete = true;
+    for (const statement of statements) {
+      const stmt = db.prepare(statement);
+      if (stmt.reader) {
+        result = { rows: [], columns: stmt.columns().map(col => col.name) };
+        complete = true;
+        for (const row of stmt.iterate()) {
+          if (result.rows.length > maxRows) {
+            complete = false;
+            break;
+          }
+          result.rows.push(row);
+        }
+      } else {
+        stmt.run();
+      }
+    }
+    process.send({ result, complete });
+  } catch (error) {
+    process.send({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+`;
+
+// Statements that reach files other than the session's database: another
+// session's through ATTACH, or any path on the API host through VACUUM INTO
+const FILE_STATEMENTS = [/^(ATTACH|DETACH)\b/i, /^VACUUM\b[\s\S]*\bINTO\b/i];
+
+interface QueryReply {
+  result?: QueryResult;
+  complete?: boolean;
+  error?: string;
+}
+
+/**
+ * A SQLite session's queries, run in a child process with its own connection
+ * to the session's database file, so a runaway statement blocks that process
+ * and not the API. A statement inside SQLite cannot be interrupted, not even
+ * by terminating a worker thread, so a timeout or cancel kills the process;
+ * the session's next query starts a new one.
+ */
+export class SqliteQueryProcess implements QueryConnection {
+  private child: ChildProcess;
+  private exited = false;
+  // Queries on one connection run one after another
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(dbPath: string) {
+    this.child = spawn(process.execPath, ['-e', PROCESS_SOURCE], {
+      env: { SQLITE_DRIVER: require.resolve('better-sqlite3'), SQLITE_DB_PATH: dbPath },
+      stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+    });
+    this.child.on('error', error => console.error('SQLite query process failed:', error));
+    this.child.on('exit', () => {
+      this.exited = true;
+    });
+  }
+
+  get alive(): boolean {
+    return !this.exited;
+  }
+
+  async executeQuery(query: string, options: QueryOptions): Promise<ResultCursor> {
+    const statements = splitSqlStatements(query);
+    for (const statement of statements) {
+      // EXPLAIN only compiles the statement, but is rejected all the same
+      const command = statement.replace(/^EXPLAIN\s+(QUERY\s+PLAN\s+)?/i, '');
+      if (FILE_STATEMENTS.some(pattern => pattern.test(command))) {
+        throw new Error(`Not allowed in a SQLite session: ${command.split(/\s+/, 1)[0].toUpperCase()}`);
+      }
+    }
+
+    const run = this.queue.then(() =>
+      guardQuery(() => this.send(statements, options.maxRows), options, {
+        cancel: async () => {
+          this.child.kill('SIGKILL');
+        },
+        abandon: () => undefined,
+      })
+    );
+    this.queue = run.catch(() => undefined);
+
+    const { result, complete } = await run;
+    return bufferedCursor(result, complete ? result.rows.length : undefined);
+  }
+
+  async close(): Promise<void> {
+    if (!this.exited) this.child.kill('SIGKILL');
+  }
+
+  private send(statements: string[], maxRows: number): Promise<{ result: QueryResult; complete: boolean }> {
+    return new Promise((resolve, reject) => {
+      if (this.exited) {
+        reject(new Error('SQLite query process has stopped'));
+        return;
+      }
+
+      const onMessage = (reply: QueryReply): void => {
+        detach();
+        if (reply.error !== undefined) reject(new Error(reply.error));
+        else resolve({ result: reply.result as QueryResult, complete: reply.complete === true });
+      };
+      const onExit = (): void => {
+        detach();
+        reject(new Error('SQLite query process stopped'));
+      };
+      const detach = (): void => {
+        this.child.off('message', onMessage);
+        this.child.off('exit', onExit);
+      };
+
+      this.child.on('message', onMessage);
+      this.child.on('exit', onExit);
+      this.child.send({ statements, maxRows });
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SeedSnapshot } from './engines';
+import { TemplateCache } from './templateCache';
+
+const DBML = 'Table users {\n  id int [pk]\n}';
+
+function snapshot(table: string): SeedSnapshot {
+  return { statements: [{ sql: `INSERT INTO ${table} DEFAULT VALUES`, values: [] }] };
+}
+
+describe('TemplateCache.key', () => {
+  it('is the same for the same engine, DBML and data', () => {
+    expect(TemplateCache.key('postgres', DBML, { users: [{ id: 1 }] })).toBe(
+      TemplateCache.key('postgres', DBML, { users: [{ id: 1 }] })
+    );
+  });
+
+  it('changes with any of them', () => {
+    const key = TemplateCache.key('postgres', DBML, { users: [{ id: 1 }] });
+
+    expect(TemplateCache.key('mysql', DBML, { users: [{ id: 1 }] })).not.toBe(key);
+    expect(TemplateCache.key('postgres', `${DBML}\n`, { users: [{ id: 1 }] })).not.toBe(key);
+    expect(TemplateCache.key('postgres', DBML, { users: [{ id: 2 }] })).not.toBe(key);
+  });
+});
+
+describe('TemplateCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns what was set and counts hits and misses', () => {
+    const cache = new TemplateCache(2, 60 * 1000);
+    cache.set('a', snapshot('a'));
+
+    expect(cache.get('a')).toEqual(snapshot('a'));
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.getStats()).toEqual({ entries: 1, maxEntries: 2, hits: 1, misses: 1 });
+  });
+
+  it('evicts the least recently used entry beyond maxEntries', () => {
+    const cache = new TemplateCache(2, 60 * 1000);
+    cache.set('a', snapshot('a'));
+    cache.set('b', snapshot('b'));
+    cache.get('a');
+
+    cache.set('c', snapshot('c'));
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual(snapshot('a'));
+    expect(cache.get('c')).toEqual(snapshot('c'));
+  });
+
+  it('evicts entries unused for ttlMs', () => {
+    const cache = new TemplateCache(2, 60 * 1000);
+    cache.set('old', snapshot('old'));
+    cache.set('used', snapshot('used'));
+
+    vi.advanceTimersByTime(40 * 1000);
+    cache.get('used');
+    vi.advanceTimersByTime(40 * 1000);
+    cache.evictExpired();
+
+    expect(cache.get('old')).toBeUndefined();
+    expect(cache.get('used')).toEqual(snapshot('used'));
+  });
+
+  it('keeps nothing with a size of 0', () => {
+    const cache = new TemplateCache(0, 60 * 1000);
+    cache.set('a', snapshot('a'));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.getStats().entries).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import { SeedData } from './seedValidator';
+import { SeedSnapshot, SupportedEngine } from './engines';
+
+export interface TemplateCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+}
+
+interface TemplateEntry {
+  snapshot: SeedSnapshot;
+  lastUsed: number;
+}
+
+/**
+ * Snapshots of seeded databases, keyed by a hash of engine, DBML and data, so
+ * every session of an exam after the first is loaded in bulk instead of row by
+ * row. Keys change with the content, so an edited schema or dataset simply
+ * misses; the least recently used entries are evicted beyond `maxEntries`, and
+ * entries unused for `ttlMs` by `evictExpired`.
+ */
+export class TemplateCache {
+  // Map iteration follows insertion order, which `get` refreshes, so the first key is the least recently used
+  private entries: Map<string, TemplateEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly maxEntries: number, private readonly ttlMs: number) {}
+
+  static key(engine: SupportedEngine, dbml: string, data: SeedData): string {
+    return createHash('sha256').update(engine).update('\0').update(dbml).update('\0').update(JSON.stringify(data)).digest('hex');
+  }
+
+  get(key: string): SeedSnapshot | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    entry.lastUsed = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.snapshot;
+  }
+
+  set(key: string, snapshot: SeedSnapshot): void {
+    if (this.maxEntries <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { snapshot, lastUsed: Date.now() });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  evictExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now - entry.lastUsed > this.ttlMs) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): TemplateCacheStats {
+    return { entries: this.entries.size, maxEntries: this.maxEntries, hits: this.hits, misses: this.misses };
+  }
+}
@@ -1,7 +1,23 @@
-import { useState, useEffect, useMemo } from "react"
-import { executeQuery } from "@/services/api"
+import { useState, useEffect, useMemo, useRef } from "react"
+import {
+  applyRowChanges,
+  cancelQuery,
+  executeQuery,
+  fetchResultPage,
+  fetchSessionSchema,
+  importDdl,
+  resetSession,
+} from "@/services/api"
+import type { Diagnostic, ExecuteQueryResponse, RowChange, SandboxEngine, SeedChanges, SeedProblem } from "@/services/api"
 import { CodeEditor } from "@/components/CodeEditor"
-import { parseDBML, mergeDataStructure } from "@/utils/dbmlParser"
+import {
+  parseDBML,
+  mergeDataStructure,
+  defaultValueFor,
+  parseCellInput,
+  isBooleanType,
+} from "@/utils/dbmlParser"
+import { diffTableRows } from "@/utils/rowChanges"
 import { Button } from "@/components/ui/button"
 import {
   Select,
@@ -30,14 +46,32 @@ import {
   Database,
   Download,
   Play,
+  Square,
   Table as TableIcon,
   Search,
   Trash2,
   Edit2,
   Check,
   X,
+  RefreshCw,
+  RotateCcw,
 } from "lucide-react"
 
+// One line on what a reset undid; SQLite sessions report nothing
+function describeSeedChanges(changes?: SeedChanges): string {
+  if (!changes) return "Data reset to the seed."
+
+  const parts = [
+    ...changes.tables.map((t) => `${t.table} +${t.rowsAdded}/-${t.rowsRemoved} rows`),
+    ...changes.alteredTables.map((table) => `${table} columns changed`),
+    ...changes.createdTables.map((table) => `${table} created`),
+    ...changes.droppedTables.map((table) => `${table} dropped`),
+  ]
+  return parts.length > 0
+    ? `Data reset to the seed. Undone: ${parts.join(", ")}.`
+    : "Data reset; nothing had changed since seeding."
+}
+
 function App() {
   const [dbmlCode, setDbmlCode] = useState(`// Use DBML to define your database structure
 Table users {
@@ -63,10 +97,21 @@ FROM users u
 JOIN posts p ON u.id = p.user_id;`)
 
   const [queryResult, setQueryResult] = useState<Record<string, unknown>[]>([])
+  // Where the shown rows stand in the whole result; resultId is set while more pages remain
+  const [resultInfo, setResultInfo] = useState<{ resultId?: string; totalRows?: number; truncated?: boolean }>({})
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
   const [executionTime, setExecutionTime] = useState<number | null>(null)
   const [queryError, setQueryError] = useState<string | null>(null)
+  const [seedProblems, setSeedProblems] = useState<SeedProblem[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [sessionId, setSessionId] = useState<string | null>(null)
+  const [engine, setEngine] = useState<SandboxEngine>("postgres")
+  const [dbmlDiagnostics, setDbmlDiagnostics] = useState<Diagnostic[]>([])
+  const [schemaNotice, setSchemaNotice] = useState<string | null>(null)
+  const [isSyncingSchema, setIsSyncingSchema] = useState(false)
+  const [resetNotice, setResetNotice] = useState<string | null>(null)
+  const [isResetting, setIsResetting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   // Parse DBML to get table structure
   const parsedTables = useMemo(() => parseDBML(dbmlCode), [dbmlCode])
@@ -86,6 +131,10 @@ JOIN posts p ON u.id = p.user_id;`)
 
   const [editingRow, setEditingRow] = useState<{ table: string; index: number } | null>(null)
 
+  // What the session's database was last given, and the tables edited in the grid
+  const syncedRef = useRef<{ dbml: string; data: Record<string, Record<string, unknown>[]> } | null>(null)
+  const editedTablesRef = useRef(new Set<string>())
+
   // Update data structure when DBML changes
   useEffect(() => {
     setTableData((prevData) => mergeDataStructure(prevData, parsedTables))
@@ -101,17 +150,14 @@ JOIN posts p ON u.id = p.user_id;`)
     
     // Create empty row based on table structure
     for (const col of table.columns) {
-      if (col.type.toLowerCase().includes("int") || col.type.toLowerCase().includes("integer")) {
-        newRow[col.name] = 0
-      } else {
-        newRow[col.name] = ""
-      }
+      newRow[col.name] = defaultValueFor(col)
     }
 
     setTableData({
       ...tableData,
       [tableName]: [...currentData, newRow],
     })
+    editedTablesRef.current.add(tableName)
     setEditingRow({ table: tableName, index: currentData.length })
   }
 
@@ -121,6 +167,7 @@ JOIN posts p ON u.id = p.user_id;`)
       ...tableData,
       [tableName]: currentData.filter((_, i) => i !== index),
     })
+    editedTablesRef.current.add(tableName)
     setEditingRow(null)
   }
 
@@ -132,32 +179,74 @@ JOIN posts p ON u.id = p.user_id;`)
       ...tableData,
       [tableName]: updated,
     })
+    editedTablesRef.current.add(tableName)
+  }
+
+  // Row edits since the last run, or null when the whole dataset has to be sent
+  const pendingRowChanges = (): RowChange[] | null => {
+    const synced = syncedRef.current
+    // SQLite sessions are rebuilt from the full dataset
+    if (!sessionId || !synced || synced.dbml !== dbmlCode || engine === "sqlite") return null
+
+    const changes: RowChange[] = []
+    for (const tableName of editedTablesRef.current) {
+      const table = parsedTables.find((t) => t.name === tableName)
+      const tableChanges = table && diffTableRows(table, synced.data[tableName] || [], tableData[tableName] || [])
+      if (!tableChanges) return null
+      changes.push(...tableChanges)
+    }
+    return changes
+  }
+
+  const markSynced = () => {
+    syncedRef.current = { dbml: dbmlCode, data: tableData }
   }
 
   const handleRunQuery = async () => {
     setIsLoading(true)
     setQueryError(null)
+    setResetNotice(null)
     setExecutionTime(null)
+    setResultInfo({})
 
     try {
-      // Prepare data object from tableData
-      const data = { ...tableData }
+      // A live session only needs the rows that changed; otherwise send everything
+      let response: ExecuteQueryResponse | null = null
+      const changes = pendingRowChanges()
+      if (sessionId && changes) {
+        const synced = changes.length === 0 || (await applyRowChanges(sessionId, changes)).success
+        if (synced) {
+          markSynced()
+          response = await executeQuery({ sessionId, dbml: dbmlCode, query: sqlQuery, engine })
+        }
+      }
+      if (!response || response.sessionExpired) {
+        response = await executeQuery({
+          sessionId: sessionId || undefined,
+          dbml: dbmlCode,
+          data: tableData,
+          query: sqlQuery,
+          engine,
+        })
+      }
 
-      const response = await executeQuery({
-        sessionId: sessionId || undefined,
-        dbml: dbmlCode,
-        data,
-        query: sqlQuery,
-      })
+      setDbmlDiagnostics(response.diagnostics || [])
+      setSeedProblems(response.seedProblems || [])
 
       if (response.success && response.rows) {
         setQueryResult(response.rows)
+        setResultInfo({ resultId: response.resultId, totalRows: response.totalRows, truncated: response.truncated })
         setExecutionTime(response.executionTime || null)
         setQueryError(null)
         // Save sessionId for reuse
         if (response.sessionId) {
           setSessionId(response.sessionId)
         }
+        markSynced()
+      } else if (response.seedProblems?.length) {
+        setQueryError("Sample data does not match the schema")
+        setQueryResult([])
+        setExecutionTime(response.executionTime || null)
       } else {
         setQueryError(response.error || "Query execution failed")
         setQueryResult([])
@@ -171,6 +260,98 @@ JOIN posts p ON u.id = p.user_id;`)
     }
   }
 
+  const handleLoadMore = async () => {
+    if (!sessionId || !resultInfo.resultId) return
+    setIsLoadingMore(true)
+
+    const response = await fetchResultPage(sessionId, resultInfo.resultId, queryResult.length)
+    if (response.success && response.rows) {
+      setQueryResult([...queryResult, ...(response.rows as Record<string, unknown>[])])
+      setResultInfo({ resultId: response.resultId, totalRows: response.totalRows, truncated: response.truncated })
+    } else {
+      setQueryError(response.error || "Failed to load more rows")
+      setResultInfo({})
+    }
+    setIsLoadingMore(false)
+  }
+
+  // The running query fails with `cancelled`, which ends handleRunQuery as usual
+  const handleStopQuery = async () => {
+    if (!sessionId) return
+    const response = await cancelQuery(sessionId)
+    if (!response.success) {
+      setQueryError(response.error || "Failed to stop the query")
+    }
+  }
+
+  // Undo what queries changed, reporting what that was where the engine can tell
+  const handleResetData = async () => {
+    if (!sessionId) return
+    setIsResetting(true)
+    setQueryError(null)
+    setResetNotice(null)
+
+    const response = await resetSession(sessionId, engine !== "sqlite")
+    if (response.success) {
+      setQueryResult([])
+      setResultInfo({})
+      setExecutionTime(null)
+      setSeedProblems([])
+      setResetNotice(describeSeedChanges(response.changes))
+    } else {
+      setQueryError(response.error || "Failed to reset the data")
+      setSeedProblems(response.seedProblems || [])
+    }
+    setIsResetting(false)
+  }
+
+  // Replace the DBML with what the sandbox database actually contains now
+  const handleSyncSchema = async () => {
+    if (!sessionId) return
+    setIsSyncingSchema(true)
+    setSchemaNotice(null)
+
+    const response = await fetchSessionSchema(sessionId)
+    if (response.success && response.dbml !== undefined) {
+      setDbmlCode(response.dbml)
+      setDbmlDiagnostics([])
+      if (response.warnings && response.warnings.length > 0) {
+        setSchemaNotice(response.warnings.join(" "))
+      }
+    } else {
+      setSchemaNotice(response.error || "Failed to read the database schema")
+    }
+    setIsSyncingSchema(false)
+  }
+
+  // DBML files are loaded as-is; SQL scripts are converted by the backend
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const text = await file.text()
+    setSchemaNotice(null)
+    if (file.name.toLowerCase().endsWith(".dbml")) {
+      setDbmlCode(text)
+      setDbmlDiagnostics([])
+      return
+    }
+
+    const response = await importDdl(text)
+    if (response.success && response.dbml !== undefined) {
+      setDbmlCode(response.dbml)
+      setDbmlDiagnostics(response.diagnostics || [])
+    }
+    const issues = response.issues || []
+    if (!response.success) {
+      setSchemaNotice(response.error || "Failed to import the file")
+    } else if (issues.length > 0) {
+      const details = issues.map((issue) => `line ${issue.line}: ${issue.message}`).join("; ")
+      setSchemaNotice(`Imported ${file.name} with ${issues.length} statement(s) not converted: ${details}`)
+    }
+  }
+
   return (
     <div className="flex min-h-screen flex-col bg-gray-50">
       {/* Navigation Bar */}
@@ -185,13 +366,13 @@ JOIN posts p ON u.id = p.user_id;`)
           <Button variant="outline" size="sm">
             Example Run
           </Button>
-          <Select defaultValue="postgresql">
+          <Select value={engine} onValueChange={(value) => setEngine(value as SandboxEngine)}>
             <SelectTrigger className="w-[180px]">
               <SelectValue placeholder="Database" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="postgresql">PostgreSQL 16.6</SelectItem>
-              <SelectItem value="mysql">MySQL</SelectItem>
+              <SelectItem value="postgres">PostgreSQL 16.6</SelectItem>
+              <SelectItem value="mysql">MySQL 8.0</SelectItem>
               <SelectItem value="sqlite">SQLite</SelectItem>
             </SelectContent>
           </Select>
@@ -207,10 +388,19 @@ JOIN posts p ON u.id = p.user_id;`)
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent>
-              <DropdownMenuItem>Import from file</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => importInputRef.current?.click()}>
+                Import from file
+              </DropdownMenuItem>
               <DropdownMenuItem>Import from URL</DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".sql,.ddl,.dbml,text/plain"
+            className="hidden"
+            onChange={handleImportFile}
+          />
         </div>
         <div className="flex items-center gap-2">
           <DropdownMenu>
@@ -244,14 +434,33 @@ JOIN posts p ON u.id = p.user_id;`)
                   Define Database Structure
                 </h2>
               </div>
-              <span className="text-xs text-gray-500">Ctrl-Alt-1</span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSyncSchema}
+                  disabled={!sessionId || isSyncingSchema || engine === "sqlite"}
+                  title={sessionId ? "Replace the DBML with the database's current schema" : "Run a query first"}
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  {isSyncingSchema ? "Syncing..." : "Sync from database"}
+                </Button>
+                <span className="text-xs text-gray-500">Ctrl-Alt-1</span>
+              </div>
             </div>
+            {schemaNotice && (
+              <div className="border-b bg-amber-50 px-4 py-2 text-xs text-amber-700">{schemaNotice}</div>
+            )}
             <div className="flex-1 overflow-hidden">
               <CodeEditor
                 value={dbmlCode}
-                onChange={(value) => setDbmlCode(value || "")}
+                onChange={(value) => {
+                  setDbmlCode(value || "")
+                  setDbmlDiagnostics([])
+                }}
                 language="dbml"
                 height="100%"
+                markers={dbmlDiagnostics}
               />
             </div>
           </div>
@@ -300,15 +509,32 @@ JOIN posts p ON u.id = p.user_id;`)
                                 <TableRow key={index}>
                                   {table.columns.map((col) => (
                                     <TableCell key={col.name}>
-                                      {editingRow?.table === table.name && editingRow.index === index ? (
+                                      {editingRow?.table === table.name && editingRow.index === index && col.enumValues ? (
+                                        <select
+                                          value={String(row[col.name] ?? "")}
+                                          onChange={(e) => handleUpdateRow(table.name, index, col.name, e.target.value)}
+                                          className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                          autoFocus={col === table.columns[0]}
+                                        >
+                                          {col.enumValues.map((value) => (
+                                            <option key={value} value={value}>
+                                              {value}
+                                            </option>
+                                          ))}
+                                        </select>
+                                      ) : editingRow?.table === table.name && editingRow.index === index && isBooleanType(col.type) ? (
+                                        <input
+                                          type="checkbox"
+                                          checked={row[col.name] === true}
+                                          onChange={(e) => handleUpdateRow(table.name, index, col.name, e.target.checked)}
+                                          autoFocus={col === table.columns[0]}
+                                        />
+                                      ) : editingRow?.table === table.name && editingRow.index === index ? (
                                         <input
                                           type={col.type.toLowerCase().includes("int") ? "number" : "text"}
                                           value={String(row[col.name] ?? "")}
                                           onChange={(e) => {
-                                            const value = col.type.toLowerCase().includes("int")
-                                              ? parseInt(e.target.value) || 0
-                                              : e.target.value
-                                            handleUpdateRow(table.name, index, col.name, value)
+                                            handleUpdateRow(table.name, index, col.name, parseCellInput(col, e.target.value))
                                           }}
                                           className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
                                           autoFocus={col === table.columns[0]}
@@ -403,22 +629,54 @@ JOIN posts p ON u.id = p.user_id;`)
               />
             </div>
             <div className="flex items-center justify-between border-t px-4 py-3">
-              <Button
-                onClick={handleRunQuery}
-                disabled={isLoading}
-                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
-              >
-                <Play className="mr-2 h-4 w-4" />
-                {isLoading ? "Running..." : "Run"}
-                <span className="ml-2 text-xs">Ctrl-↵</span>
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={handleRunQuery}
+                  disabled={isLoading}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  {isLoading ? "Running..." : "Run"}
+                  <span className="ml-2 text-xs">Ctrl-↵</span>
+                </Button>
+                {isLoading && (
+                  <Button
+                    variant="outline"
+                    onClick={handleStopQuery}
+                    disabled={!sessionId}
+                    title={sessionId ? "Cancel the running query" : "The session is still being created"}
+                  >
+                    <Square className="mr-2 h-4 w-4" />
+                    Stop
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={handleResetData}
+                  disabled={!sessionId || isLoading || isResetting}
+                  title={sessionId ? "Restore the seed data, undoing what queries changed" : "Run a query first"}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  {isResetting ? "Resetting..." : "Reset data"}
+                </Button>
+              </div>
               {queryError ? (
                 <span className="flex items-center gap-1 text-sm text-red-600">
                   <span>✗</span> {queryError}
                 </span>
+              ) : resetNotice ? (
+                <span className="flex items-center gap-1 text-sm text-gray-500">
+                  <span>ℹ</span> {resetNotice}
+                </span>
               ) : executionTime !== null && queryResult.length > 0 ? (
                 <span className="flex items-center gap-1 text-sm text-green-600">
-                  <span>✔</span> {queryResult.length} row{queryResult.length !== 1 ? 's' : ''} returned. Executed in {executionTime.toFixed(2)} ms.
+                  <span>✔</span>{" "}
+                  {resultInfo.totalRows !== undefined && resultInfo.totalRows > queryResult.length
+                    ? `Showing ${queryResult.length} of ${resultInfo.totalRows} rows.`
+                    : resultInfo.resultId
+                      ? `Showing the first ${queryResult.length} rows.`
+                      : `${queryResult.length} row${queryResult.length !== 1 ? "s" : ""} returned.`}{" "}
+                  Executed in {executionTime.toFixed(2)} ms.
                 </span>
               ) : executionTime !== null ? (
                 <span className="flex items-center gap-1 text-sm text-gray-500">
@@ -443,6 +701,29 @@ JOIN posts p ON u.id = p.user_id;`)
                   <div className="text-center">
                     <p className="text-red-600 font-medium">Error executing query</p>
                     <p className="text-gray-500 text-sm mt-2">{queryError}</p>
+                    {dbmlDiagnostics.length > 0 && (
+                      <ul className="mt-4 space-y-1 text-left text-sm">
+                        {dbmlDiagnostics.map((diagnostic, idx) => (
+                          <li
+                            key={idx}
+                            className={diagnostic.severity === "error" ? "text-red-600" : "text-amber-600"}
+                          >
+                            Line {diagnostic.line}, column {diagnostic.column}: {diagnostic.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {seedProblems.length > 0 && (
+                      <ul className="mt-4 space-y-1 text-left text-sm text-red-600">
+                        {seedProblems.map((problem, idx) => (
+                          <li key={idx}>
+                            {problem.table}
+                            {problem.rowIndex !== undefined && ` row ${problem.rowIndex + 1}`}
+                            {problem.column && `, column ${problem.column}`}: {problem.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
               ) : queryResult.length === 0 ? (
@@ -450,27 +731,42 @@ JOIN posts p ON u.id = p.user_id;`)
                   <p className="text-gray-400">No results. Run a query to see results here.</p>
                 </div>
               ) : (
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      {queryResult.length > 0 &&
-                        Object.keys(queryResult[0]).map((col) => (
-                          <TableHead key={col}>{col}</TableHead>
-                        ))}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {queryResult.map((row, idx) => (
-                      <TableRow key={idx}>
-                        {Object.keys(row).map((col) => (
-                          <TableCell key={col}>
-                            {String(row[col] ?? 'NULL')}
-                          </TableCell>
-                        ))}
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {queryResult.length > 0 &&
+                          Object.keys(queryResult[0]).map((col) => (
+                            <TableHead key={col}>{col}</TableHead>
+                          ))}
                       </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+                    </TableHeader>
+                    <TableBody>
+                      {queryResult.map((row, idx) => (
+                        <TableRow key={idx}>
+                          {Object.keys(row).map((col) => (
+                            <TableCell key={col}>
+                              {String(row[col] ?? 'NULL')}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {(resultInfo.resultId || resultInfo.truncated) && (
+                    <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+                      <span>
+                        {resultInfo.truncated &&
+                          "The result has more rows than the server keeps; narrow the query to see the rest."}
+                      </span>
+                      {resultInfo.resultId && (
+                        <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={isLoadingMore}>
+                          {isLoadingMore ? "Loading..." : "Load more"}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </>
               )}
             </div>
           </div>
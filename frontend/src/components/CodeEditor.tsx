@@ -1,17 +1,51 @@
-import { useRef } from "react"
+import { useEffect, useRef } from "react"
 import Editor from "@monaco-editor/react"
 import type { Monaco } from "@monaco-editor/react"
 import type * as monaco from "monaco-editor"
 
+export interface EditorMarker {
+  severity: "error" | "warning"
+  message: string
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
 interface CodeEditorProps {
   value: string
   onChange: (value: string | undefined) => void
   language: "sql" | "dbml"
   height?: string
+  markers?: EditorMarker[]
 }
 
-export function CodeEditor({ value, onChange, language, height = "100%" }: CodeEditorProps) {
+export function CodeEditor({ value, onChange, language, height = "100%", markers }: CodeEditorProps) {
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null)
+  const monacoRef = useRef<Monaco | null>(null)
+
+  // Show parser diagnostics as squiggles in the editor
+  useEffect(() => {
+    const model = editorRef.current?.getModel()
+    const monacoInstance = monacoRef.current
+    if (!model || !monacoInstance) return
+
+    monacoInstance.editor.setModelMarkers(
+      model,
+      "diagnostics",
+      (markers ?? []).map((marker) => ({
+        severity:
+          marker.severity === "error"
+            ? monacoInstance.MarkerSeverity.Error
+            : monacoInstance.MarkerSeverity.Warning,
+        message: marker.message,
+        startLineNumber: marker.line,
+        startColumn: marker.column,
+        endLineNumber: marker.endLine,
+        endColumn: Math.max(marker.endColumn, marker.column + 1),
+      }))
+    )
+  }, [markers])
 
   const handleEditorWillMount = (monaco: Monaco) => {
     // Register DBML language if not already registered
@@ -57,6 +91,7 @@ export function CodeEditor({ value, onChange, language, height = "100%" }: CodeE
 
   const handleEditorDidMount = (editor: monaco.editor.IStandaloneCodeEditor, monaco: Monaco) => {
     editorRef.current = editor
+    monacoRef.current = monaco
 
     // Configure editor options
     editor.updateOptions({
@@ -1,21 +1,56 @@
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+export type SandboxEngine = 'postgres' | 'mysql' | 'sqlite';
+
 export interface ExecuteQueryRequest {
   sessionId?: string;
   dbml: string;
-  data: Record<string, any[]>;
+  data?: Record<string, any[]>; // may be left out for a live session
   query: string;
-  engine?: 'postgres';
+  engine?: SandboxEngine;
+  limits?: Partial<ContainerLimits>; // per exam; the server caps them
+  timeoutMs?: number; // defaults to the server's query timeout
+}
+
+export interface ContainerLimits {
+  memoryMb: number;
+  cpus: number;
+  pids: number;
+  tmpfsMb: number;
+}
+
+export interface Diagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface SeedProblem {
+  table: string;
+  rowIndex?: number;
+  column?: string;
+  reason: string;
 }
 
 export interface ExecuteQueryResponse {
   success: boolean;
-  rows?: any[];
+  rows?: any[]; // the first page of the result
   columns?: string[];
+  totalRows?: number; // when known
+  truncated?: boolean; // the result had more rows than the server keeps
+  resultId?: string; // set while more pages can be fetched
   executionTime?: number;
   error?: string;
   sessionId?: string;
-  engine?: 'postgres';
+  engine?: SandboxEngine;
+  diagnostics?: Diagnostic[];
+  seedProblems?: SeedProblem[];
+  sessionExpired?: boolean;
+  timedOut?: boolean;
+  cancelled?: boolean;
 }
 
 /**
@@ -43,6 +78,199 @@ export async function executeQuery(
   }
 }
 
+export type RowChange =
+  | { op: 'insert'; table: string; row: Record<string, unknown> }
+  | { op: 'update'; table: string; key: Record<string, unknown>; values: Record<string, unknown> }
+  | { op: 'delete'; table: string; key: Record<string, unknown> };
+
+export interface RowChangesResponse {
+  success: boolean;
+  applied?: number;
+  problems?: string[];
+  error?: string;
+}
+
+/**
+ * Apply row edits to the session's database without resending all data
+ */
+export async function applyRowChanges(sessionId: string, changes: RowChange[]): Promise<RowChangesResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/session/${encodeURIComponent(sessionId)}/rows`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ changes }),
+    });
+    return await response.json();
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to connect to server',
+    };
+  }
+}
+
+export interface SessionSchemaResponse {
+  success: boolean;
+  sessionId?: string;
+  dbml?: string;
+  warnings?: string[];
+  error?: string;
+}
+
+/**
+ * Fetch the session database's current schema as DBML
+ */
+export async function fetchSessionSchema(sessionId: string): Promise<SessionSchemaResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/session/${encodeURIComponent(sessionId)}/schema`);
+    return await response.json();
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to connect to server',
+    };
+  }
+}
+
+export interface CancelQueryResponse {
+  success: boolean;
+  cancelled?: boolean; // false when no query was running
+  error?: string;
+}
+
+/**
+ * Stop the query the session is running
+ */
+export async function cancelQuery(sessionId: string): Promise<CancelQueryResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/session/${encodeURIComponent(sessionId)}/cancel`, {
+      method: 'POST',
+    });
+    return await response.json();
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to connect to server',
+    };
+  }
+}
+
+export interface TableChanges {
+  table: string;
+  rowsAdded: number;
+  rowsRemoved: number; // an updated row counts as one removed and one added
+}
+
+export interface SeedChanges {
+  tables: TableChanges[];
+  createdTables: string[];
+  droppedTables: string[];
+  alteredTables: string[]; // columns changed, rows not compared
+}
+
+export interface ResetSessionResponse {
+  success: boolean;
+  changes?: SeedChanges; // with report, what queries changed since seeding
+  error?: string;
+  seedProblems?: SeedProblem[];
+}
+
+/**
+ * Restore the session's database to its seed data
+ */
+export async function resetSession(sessionId: string, report = false): Promise<ResetSessionResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/session/${encodeURIComponent(sessionId)}/reset`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ report }),
+    });
+    return await response.json();
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to connect to server',
+    };
+  }
+}
+
+export interface ResultPageResponse {
+  success: boolean;
+  rows?: unknown[];
+  columns?: string[];
+  offset?: number;
+  totalRows?: number;
+  truncated?: boolean;
+  resultId?: string; // absent once this is the last page
+  error?: string;
+  timedOut?: boolean;
+  cancelled?: boolean;
+}
+
+/**
+ * Fetch further rows of the session's last query result
+ */
+export async function fetchResultPage(
+  sessionId: string,
+  resultId: string,
+  offset: number,
+  limit?: number
+): Promise<ResultPageResponse> {
+  const params = new URLSearchParams({ offset: String(offset) });
+  if (limit !== undefined) params.set('limit', String(limit));
+
+  try {
+    const response = await fetch(
+      `${API_BASE_URL}/api/session/${encodeURIComponent(sessionId)}/results/${encodeURIComponent(resultId)}?${params}`
+    );
+    return await response.json();
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to connect to server',
+    };
+  }
+}
+
+export interface ImportIssue {
+  line: number;
+  statement: string;
+  message: string;
+}
+
+export interface ImportDdlResponse {
+  success: boolean;
+  dbml?: string;
+  issues?: ImportIssue[];
+  diagnostics?: Diagnostic[];
+  error?: string;
+}
+
+/**
+ * Convert a SQL DDL script into DBML
+ */
+export async function importDdl(sql: string): Promise<ImportDdlResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/import-ddl`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sql }),
+    });
+    return await response.json();
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to connect to server',
+    };
+  }
+}
+
 /**
  * Health check
  */
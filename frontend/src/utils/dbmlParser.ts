@@ -6,6 +6,8 @@
 export interface TableColumn {
   name: string
   type: string
+  enumValues?: string[]
+  isPrimaryKey?: boolean
 }
 
 export interface ParsedTable {
@@ -16,8 +18,12 @@ export interface ParsedTable {
 export function parseDBML(dbml: string): ParsedTable[] {
   const tables: ParsedTable[] = []
 
-  // Remove comments
-  const cleaned = dbml.replace(/\/\/.*$/gm, "").replace(/\/\*[\s\S]*?\*\//g, "")
+  // Remove comments and multi-line notes, whose lines could look like columns
+  const cleaned = dbml
+    .replace(/\/\/.*$/gm, "")
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/'''[\s\S]*?'''/g, "''")
+  const enums = parseEnums(cleaned)
 
   // Parse tables
   const tableRegex = /Table\s+(\w+)\s*\{([^}]+)\}/g
@@ -36,7 +42,8 @@ export function parseDBML(dbml: string): ParsedTable[] {
       const columnMatch = line.match(/^(\w+)\s+(\w+(?:\([^)]+\))?)/)
       if (columnMatch) {
         const [, name, type] = columnMatch
-        columns.push({ name, type })
+        const isPrimaryKey = /\[[^\]]*\b(pk|primary key)\b[^\]]*\]/i.test(line)
+        columns.push({ name, type, enumValues: enums[type], isPrimaryKey })
       }
     }
 
@@ -48,6 +55,59 @@ export function parseDBML(dbml: string): ParsedTable[] {
   return tables
 }
 
+/**
+ * Extract enum blocks, e.g. `enum status { draft published }`
+ */
+function parseEnums(dbml: string): Record<string, string[]> {
+  const enums: Record<string, string[]> = {}
+  const enumRegex = /enum\s+(?:\w+\.)?(\w+)\s*\{([^}]*)\}/gi
+  let enumMatch
+
+  while ((enumMatch = enumRegex.exec(dbml)) !== null) {
+    const [, enumName, body] = enumMatch
+    const values = body
+      .replace(/\[[^\]]*\]/g, "")
+      .split(/[\s,]+/)
+      .map((value) => value.replace(/^"|"$/g, ""))
+      .filter((value) => value)
+    enums[enumName] = values
+  }
+
+  return enums
+}
+
+/**
+ * Default value for a new cell of the given column
+ */
+export function defaultValueFor(col: TableColumn): unknown {
+  if (col.enumValues && col.enumValues.length > 0) return col.enumValues[0]
+  if (isNumericType(col.type)) return 0
+  if (isBooleanType(col.type)) return false
+  // Dates, uuids, json... have no sensible empty value, so leave them NULL
+  return isTextType(col.type) ? "" : null
+}
+
+/**
+ * Convert raw input from the data grid into a value of the column's type
+ */
+export function parseCellInput(col: TableColumn, raw: string): unknown {
+  if (col.type.toLowerCase().includes("int")) return parseInt(raw) || 0
+  if (raw === "" && !isTextType(col.type) && !col.enumValues) return null
+  return raw
+}
+
+function isNumericType(type: string): boolean {
+  return /int|serial|decimal|numeric|real|float|double/i.test(type)
+}
+
+export function isBooleanType(type: string): boolean {
+  return /^bool(ean)?$/i.test(type)
+}
+
+function isTextType(type: string): boolean {
+  return /char|text|string/i.test(type)
+}
+
 /**
  * Create empty data structure based on parsed tables
  */
@@ -90,7 +150,7 @@ export function mergeDataStructure(
           if (row[col.name] !== undefined) {
             newRow[col.name] = row[col.name]
           } else {
-            newRow[col.name] = col.type.toLowerCase().includes("int") ? 0 : ""
+            newRow[col.name] = defaultValueFor(col)
           }
         }
         return newRow
@@ -0,0 +1,60 @@
+import type { RowChange } from "@/services/api"
+import type { ParsedTable } from "./dbmlParser"
+
+type Row = Record<string, unknown>
+
+/**
+ * Row changes that turn `before` into `after`, matching rows by primary key.
+ * Returns null when rows cannot be told apart (no primary key, or an empty or
+ * duplicate key), in which case the whole table has to be resent.
+ */
+export function diffTableRows(table: ParsedTable, before: Row[], after: Row[]): RowChange[] | null {
+  const keyColumns = table.columns.filter((col) => col.isPrimaryKey).map((col) => col.name)
+  if (keyColumns.length === 0) return null
+
+  const beforeByKey = indexByKey(before, keyColumns)
+  const afterByKey = indexByKey(after, keyColumns)
+  if (!beforeByKey || !afterByKey) return null
+
+  const changes: RowChange[] = []
+
+  for (const [key, row] of beforeByKey) {
+    if (!afterByKey.has(key)) {
+      changes.push({ op: "delete", table: table.name, key: pick(row, keyColumns) })
+    }
+  }
+
+  for (const [key, row] of afterByKey) {
+    const previous = beforeByKey.get(key)
+    if (!previous) {
+      changes.push({ op: "insert", table: table.name, row })
+      continue
+    }
+    const values: Row = {}
+    for (const col of table.columns) {
+      if (row[col.name] !== previous[col.name]) values[col.name] = row[col.name]
+    }
+    if (Object.keys(values).length > 0) {
+      changes.push({ op: "update", table: table.name, key: pick(previous, keyColumns), values })
+    }
+  }
+
+  return changes
+}
+
+function indexByKey(rows: Row[], keyColumns: string[]): Map<string, Row> | null {
+  const byKey = new Map<string, Row>()
+  for (const row of rows) {
+    const values = keyColumns.map((col) => row[col])
+    if (values.some((value) => value === null || value === undefined || value === "")) return null
+
+    const key = JSON.stringify(values.map(String))
+    if (byKey.has(key)) return null
+    byKey.set(key, row)
+  }
+  return byKey
+}
+
+function pick(row: Row, columns: string[]): Row {
+  return Object.fromEntries(columns.map((col) => [col, row[col]]))
+}